@@ -8,111 +8,179 @@ import { MyIdeas } from './components/MyIdeas';
 import { IdeaGenerator } from './components/IdeaGenerator';
 import { IdeaHistory } from './components/IdeaHistory';
 import { IdeaDatabasePreview } from './components/IdeaDatabasePreview';
+import { AIStatusBanner } from './components/AIStatusBanner';
+import { StorageStatusBanner } from './components/StorageStatusBanner';
+import { UsageDashboard } from './components/UsageDashboard';
+import { SharedSnapshot } from './components/SharedSnapshot';
 import { Sparkles } from 'lucide-react';
 import { GOLF_IDEA } from './constants';
 import { generateBusinessIdea, analyzeUserIdea } from './services/geminiService';
+import { isAbortError } from './services/aiProvider';
+import { IdeaParseError, IdeaValidationError } from './services/ideaValidation';
+import { AIUnavailableError } from './services/requestScheduler';
+import { loadWorkspace, saveIdeaCollections } from './services/storageRepository';
+import { startSync, subscribeToRemoteWorkspace } from './services/syncService';
+import { startImportQueue } from './services/ideaImportQueue';
+import { Route, getCurrentRoute, navigate, subscribeToRoute } from './services/router';
 import { BusinessIdea, ViewState } from './types';
 
 const App: React.FC = () => {
   const [currentIdea, setCurrentIdea] = useState<BusinessIdea | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [route, setRoute] = useState<Route>(getCurrentRoute());
+  // Home generates a fresh idea on first visit; idea links load from storage instead
+  const [loading, setLoading] = useState(() => route.view === 'home' && !route.ideaId);
   const [loadingStatus, setLoadingStatus] = useState<string | null>("Initializing Advanced Trend Analysis Module...");
   const [error, setError] = useState<string | null>(null);
-  const [currentView, setCurrentView] = useState<ViewState>('home');
-  const [myIdeas, setMyIdeas] = useState<BusinessIdea[]>(() => {
-    try {
-      const saved = localStorage.getItem('savedIdeas');
-      if (saved) {
-        return JSON.parse(saved);
-      }
-    } catch (e) {
-      console.error("Failed to parse saved ideas from localStorage", e);
-    }
-    return [GOLF_IDEA];
-  });
+  const [myIdeas, setMyIdeas] = useState<BusinessIdea[]>([]);
+  const [ideaHistory, setIdeaHistory] = useState<BusinessIdea[]>([]);
+  const [storageReady, setStorageReady] = useState(false);
+  const currentView = route.view;
 
-  const [ideaHistory, setIdeaHistory] = useState<BusinessIdea[]>(() => {
-    try {
-      const saved = localStorage.getItem('ideaHistory');
-      if (saved) {
-        return JSON.parse(saved);
-      }
-    } catch (e) {
-      console.error("Failed to parse idea history from localStorage", e);
-    }
-    return [];
-  });
+  useEffect(() => subscribeToRoute(setRoute), []);
 
+  // Home keeps the address of the idea on screen so it can be refreshed or shared
+  const navigateTo = (view: ViewState) => {
+    navigate({ view, ideaId: view === 'home' ? currentIdea?.id : undefined });
+  };
+
+  // A generated idea takes over the bare home entry it was generated on
+  const showIdea = (idea: BusinessIdea) => {
+    const here = getCurrentRoute();
+    setCurrentIdea(idea);
+    navigate({ view: 'home', ideaId: idea.id }, { replace: here.view === 'home' && !here.ideaId });
+  };
+
+  // Anything generated or saved while the workspace was still loading is kept
   useEffect(() => {
-    localStorage.setItem('savedIdeas', JSON.stringify(myIdeas));
-  }, [myIdeas]);
+    loadWorkspace().then(workspace => {
+      const merge = (current: BusinessIdea[], stored: BusinessIdea[]) =>
+        [...current, ...stored.filter(idea => !current.some(i => i.id === idea.id))];
+      setMyIdeas(prev => merge(prev, workspace.isNew ? [GOLF_IDEA] : workspace.savedIdeas));
+      setIdeaHistory(prev => merge(prev, workspace.history));
+      setStorageReady(true);
+    });
+  }, []);
 
+  // Registered before the persist effect so the first local write is seen by sync
   useEffect(() => {
-    localStorage.setItem('ideaHistory', JSON.stringify(ideaHistory));
-  }, [ideaHistory]);
+    if (!storageReady) return;
+    const unsubscribe = subscribeToRemoteWorkspace(workspace => {
+      setMyIdeas(workspace.savedIdeas);
+      setIdeaHistory(workspace.history);
+    });
+    const stopSync = startSync();
+    return () => {
+      unsubscribe();
+      stopSync();
+    };
+  }, [storageReady]);
+
+  // Spreadsheet imports are researched in the background and land in My Ideas
+  useEffect(() => {
+    if (!storageReady) return;
+    return startImportQueue(idea => {
+      setMyIdeas(prev => [idea, ...prev]);
+      setIdeaHistory(prev => [idea, ...prev]);
+    });
+  }, [storageReady]);
+
+  useEffect(() => {
+    if (storageReady) saveIdeaCollections(myIdeas, ideaHistory);
+  }, [myIdeas, ideaHistory, storageReady]);
 
   const initialized = useRef(false);
+  const generationRef = useRef<AbortController | null>(null);
 
-  const handleAnalyzeUserIdea = async (title: string) => {
-    if (!process.env.API_KEY) {
-       alert("Please set your Gemini API Key in the environment variables to use this feature.");
-       return;
-    }
+  // Only the latest generation may update the page. Starting another one,
+  // picking a saved idea or leaving home cancels whatever is still running.
+  const startGeneration = () => {
+    generationRef.current?.abort();
+    const controller = new AbortController();
+    generationRef.current = controller;
+    return controller;
+  };
+
+  const cancelGeneration = () => {
+    if (!generationRef.current) return;
+    generationRef.current.abort();
+    generationRef.current = null;
+    setLoading(false);
+    setLoadingStatus(null);
+  };
 
+  useEffect(() => {
+    if (currentView !== 'home') cancelGeneration();
+  }, [currentView]);
+
+  useEffect(() => () => generationRef.current?.abort(), []);
+
+  const handleAnalyzeUserIdea = async (title: string) => {
+    const controller = startGeneration();
     setLoading(true);
     setLoadingStatus(`Compiling full dossier for "${title}"...`);
     setError(null);
-    setCurrentView('home');
+    navigate({ view: 'home' });
     window.scrollTo({ top: 0, behavior: 'smooth' });
 
     try {
-      const newIdea = await analyzeUserIdea(title);
-      setCurrentIdea(newIdea);
+      const newIdea = await analyzeUserIdea(title, undefined, controller.signal);
+      showIdea(newIdea);
       setIdeaHistory(prev => [newIdea, ...prev]);
     } catch (err) {
-      setError("Failed to analyze idea. Please try again.");
+      if (isAbortError(err)) return;
+      setError(err instanceof IdeaValidationError || err instanceof IdeaParseError || err instanceof AIUnavailableError ? err.message : "Failed to analyze idea. Please try again.");
       console.error(err);
     } finally {
-      setLoading(false);
-      setLoadingStatus(null);
+      if (generationRef.current === controller) {
+        generationRef.current = null;
+        setLoading(false);
+        setLoadingStatus(null);
+      }
     }
   };
 
   const handleGenerateIdea = async () => {
-    if (!process.env.API_KEY) {
-       alert("Please set your Gemini API Key in the environment variables to use this feature.");
-       setLoading(false);
-       setLoadingStatus(null);
-       return;
-    }
-
+    const controller = startGeneration();
     setLoading(true);
     setLoadingStatus("Initializing Advanced Trend Analysis Module...");
     setError(null);
-    setCurrentView('home'); // Ensure we are on home to see the result
+    navigate({ view: 'home' }); // Ensure we are on home to see the result
     
     // Scroll to top to show loading state in the main view
     window.scrollTo({ top: 0, behavior: 'smooth' });
 
     try {
-      const newIdea = await generateBusinessIdea((status) => setLoadingStatus(status));
-      setCurrentIdea(newIdea);
+      const newIdea = await generateBusinessIdea((status) => setLoadingStatus(status), controller.signal);
+      showIdea(newIdea);
       setIdeaHistory(prev => [newIdea, ...prev]);
     } catch (err) {
-      setError("Failed to generate idea. The AI might be busy or the search quota exceeded. Please try again.");
+      if (isAbortError(err)) return;
+      setError(err instanceof IdeaValidationError || err instanceof IdeaParseError || err instanceof AIUnavailableError ? err.message : "Failed to generate idea. The AI might be busy or the search quota exceeded. Please try again.");
       console.error(err);
     } finally {
-      setLoading(false);
-      setLoadingStatus(null);
+      if (generationRef.current === controller) {
+        generationRef.current = null;
+        setLoading(false);
+        setLoadingStatus(null);
+      }
     }
   };
 
   useEffect(() => {
-    if (!initialized.current) {
+    if (!initialized.current && currentView === 'home' && !route.ideaId && !currentIdea) {
       initialized.current = true;
       handleGenerateIdea();
     }
-  }, []);
+  }, [route]);
+
+  // Idea links and back/forward: show the idea from storage without generating anything
+  useEffect(() => {
+    if (!route.ideaId || !storageReady || currentIdea?.id === route.ideaId) return;
+    const idea = myIdeas.find(i => i.id === route.ideaId) || ideaHistory.find(i => i.id === route.ideaId);
+    cancelGeneration();
+    setCurrentIdea(idea || null);
+    setError(idea ? null : "This idea isn't in your saved ideas or history on this device.");
+  }, [route, storageReady, myIdeas, ideaHistory]);
 
   const handleSaveIdea = (idea: BusinessIdea) => {
     setMyIdeas(prev => {
@@ -122,23 +190,29 @@ const App: React.FC = () => {
     });
   };
 
-  const handleUpdateIdea = (updatedIdea: BusinessIdea) => {
+  const handleUpdateIdea = (update: BusinessIdea) => {
+    const updatedIdea = { ...update, updatedAt: new Date().toISOString() };
+    // Forking replaces the idea on screen with a new one
+    if (updatedIdea.id !== currentIdea?.id) navigate({ view: 'home', ideaId: updatedIdea.id });
     setCurrentIdea(updatedIdea);
-    // If this idea exists in 'My Ideas', update it there too
+    // Update the stored copies too, so reopening the idea from either list shows the edit
     setMyIdeas(prev => prev.map(i => i.id === updatedIdea.id ? updatedIdea : i));
+    setIdeaHistory(prev => prev.map(i => i.id === updatedIdea.id ? updatedIdea : i));
   };
 
   const handleDeleteIdea = (id: string) => {
     setMyIdeas(prev => prev.filter(idea => idea.id !== id));
     if (currentIdea && currentIdea.id === id) {
       setCurrentIdea(null);
-      setCurrentView('my-ideas');
+      navigateTo('my-ideas');
     }
   };
 
   return (
     <div className="min-h-screen flex flex-col font-sans text-slate-800">
-      <Header onNavigate={setCurrentView} />
+      <Header onNavigate={navigateTo} />
+      <AIStatusBanner />
+      <StorageStatusBanner />
       
       {/* AI Trigger Button (Floating or Sticky) only on Home */}
       {currentView === 'home' && (
@@ -193,9 +267,10 @@ const App: React.FC = () => {
         {currentView === 'generator' && (
           <IdeaGenerator 
             onIdeaGenerated={(idea) => {
-              setCurrentIdea(idea);
+              cancelGeneration();
               setIdeaHistory(prev => [idea, ...prev]);
-              setCurrentView('home');
+              navigate({ view: 'home', ideaId: idea.id });
+              setCurrentIdea(idea);
               window.scrollTo({ top: 0, behavior: 'smooth' });
             }}
           />
@@ -209,10 +284,16 @@ const App: React.FC = () => {
                   setIdeaHistory(prev => [newIdea, ...prev]);
               }}
               onDeleteIdea={handleDeleteIdea}
-              onNavigateHome={() => setCurrentView('home')} 
+              history={ideaHistory}
+              onImportWorkspace={(savedIdeas, history) => {
+                  setMyIdeas(savedIdeas);
+                  setIdeaHistory(history);
+              }}
+              onNavigateHome={() => navigateTo('home')} 
               onSelectIdea={(idea) => {
+                  cancelGeneration();
+                  navigate({ view: 'home', ideaId: idea.id });
                   setCurrentIdea(idea);
-                  setCurrentView('home');
                   window.scrollTo({ top: 0, behavior: 'smooth' });
               }}
           />
@@ -222,17 +303,34 @@ const App: React.FC = () => {
           <IdeaHistory 
               history={ideaHistory}
               onClearHistory={() => setIdeaHistory([])}
-              onNavigateHome={() => setCurrentView('home')} 
+              onNavigateHome={() => navigateTo('home')} 
               onSelectIdea={(idea) => {
+                  cancelGeneration();
+                  navigate({ view: 'home', ideaId: idea.id });
                   setCurrentIdea(idea);
-                  setCurrentView('home');
                   window.scrollTo({ top: 0, behavior: 'smooth' });
               }}
           />
         )}
+
+        {currentView === 'shared' && (
+          <SharedSnapshot 
+              payload={window.location.hash.slice(1)}
+              isSaved={(id) => myIdeas.some(i => i.id === id)}
+              onSaveIdea={handleSaveIdea}
+              onNavigateHome={() => navigateTo('home')} 
+          />
+        )}
+
+        {currentView === 'usage' && (
+          <UsageDashboard 
+              ideas={[...myIdeas, ...ideaHistory]}
+              onNavigateHome={() => navigateTo('home')} 
+          />
+        )}
       </main>
 
-      <Footer onNavigate={setCurrentView} />
+      <Footer onNavigate={navigateTo} />
     </div>
   );
 };
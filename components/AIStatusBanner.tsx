@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { SchedulerStatus, getSchedulerStatus, resetCircuit, subscribeToScheduler } from '../services/requestScheduler';
+
+export const AIStatusBanner: React.FC = () => {
+  const [status, setStatus] = useState<SchedulerStatus>(getSchedulerStatus());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => subscribeToScheduler(setStatus), []);
+
+  // Tick once a second while paused so the countdown stays current
+  useEffect(() => {
+    if (status.circuit !== 'open') return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [status.circuit]);
+
+  if (status.circuit === 'closed') return null;
+
+  const secondsLeft = status.reopensAt ? Math.max(0, Math.ceil((status.reopensAt - now) / 1000)) : 0;
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200 text-amber-800 text-sm">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <AlertTriangle size={16} className="text-amber-600 shrink-0" />
+          <span>
+            <span className="font-bold">AI unavailable.</span>{' '}
+            {status.circuit === 'half-open' || secondsLeft === 0
+              ? 'Checking whether the provider has recovered...'
+              : `The provider keeps failing, so new requests are paused for ${secondsLeft}s.`}
+          </span>
+        </div>
+        <button
+          onClick={resetCircuit}
+          className="flex items-center gap-1 px-3 py-1 rounded-full bg-white border border-amber-200 font-bold hover:bg-amber-100 transition-colors whitespace-nowrap"
+        >
+          <RefreshCw size={14} /> Retry now
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LineChart, Line, AreaChart, Area, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { X, Calculator, Sparkles, Loader2, Download, Save } from 'lucide-react';
+import { BillingPeriod, BusinessIdea, FinancialAssumptions, FinancialStepAssumption } from '../types';
+import { computeModel, formatMoney, getAssumptions, mergeAssumptions, modelToCsv, MODEL_MONTHS } from '../services/financialModel';
+import { proposeFinancialAssumptions } from '../services/geminiService';
+import { isAbortError } from '../services/aiProvider';
+import { IdeaParseError } from '../services/ideaValidation';
+import { AIUnavailableError } from '../services/requestScheduler';
+
+interface FinancialModelProps {
+  idea: BusinessIdea;
+  onSave: (idea: BusinessIdea) => void;
+  onClose: () => void;
+}
+
+type GlobalField = Exclude<keyof FinancialAssumptions, 'steps' | 'currency'>;
+
+const GLOBAL_FIELDS: { field: GlobalField; label: string; unit: 'money' | '%' | 'count' }[] = [
+  { field: 'monthlyVisitors', label: 'Visitors / month', unit: 'count' },
+  { field: 'visitorGrowth', label: 'Visitor growth', unit: '%' },
+  { field: 'monthlyChurn', label: 'Monthly churn', unit: '%' },
+  { field: 'fixedCosts', label: 'Fixed costs / month', unit: 'money' },
+  { field: 'marketingSpend', label: 'Marketing / month', unit: 'money' },
+  { field: 'variableCosts', label: 'Variable costs', unit: '%' },
+];
+
+const PERIODS: { value: BillingPeriod; label: string }[] = [
+  { value: 'one-time', label: 'One-time' },
+  { value: 'month', label: 'Per month' },
+  { value: 'year', label: 'Per year' },
+];
+
+const inputClass = "w-full border border-slate-200 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const FinancialModel: React.FC<FinancialModelProps> = ({ idea, onSave, onClose }) => {
+  const [assumptions, setAssumptions] = useState<FinancialAssumptions>(() => getAssumptions(idea));
+  const [rationale, setRationale] = useState<string | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const result = useMemo(() => computeModel(assumptions), [assumptions]);
+  const { currency } = assumptions;
+  const money = (value: number) => formatMoney(value, currency);
+  const steps = idea.sections?.offer || [];
+
+  const setField = (field: GlobalField, value: string) =>
+    setAssumptions(prev => ({ ...prev, [field]: Number(value) || 0 }));
+
+  const setStep = (idx: number, update: Partial<FinancialStepAssumption>) =>
+    setAssumptions(prev => ({ ...prev, steps: prev.steps.map((step, i) => i === idx ? { ...step, ...update } : step) }));
+
+  const handleSuggest = async () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setIsSuggesting(true);
+    try {
+      const proposal = await proposeFinancialAssumptions(idea, controller.signal);
+      setAssumptions(prev => mergeAssumptions(prev, proposal));
+      setRationale(proposal.rationale || null);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Failed to suggest assumptions", e);
+      alert(e instanceof IdeaParseError || e instanceof AIUnavailableError ? e.message : "Failed to suggest assumptions.");
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsSuggesting(false);
+      }
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([modelToCsv(result)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${idea.title.replace(/\s+/g, '_')}_financial_model.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const monthLabel = (month: number | null) => month === null ? `Not within ${MODEL_MONTHS} mo` : `Month ${month}`;
+
+  const kpis = [
+    { label: `${MODEL_MONTHS}-month revenue`, value: money(result.totalRevenue) },
+    { label: `MRR at month ${MODEL_MONTHS}`, value: money(result.finalMrr) },
+    { label: 'Blended CAC', value: result.cac === null ? 'n/a' : money(result.cac) },
+    { label: 'CAC payback', value: result.cacPaybackMonths === null ? 'Never' : `${result.cacPaybackMonths} mo` },
+    { label: 'Break-even', value: monthLabel(result.breakEvenMonth) },
+    { label: 'Cumulative break-even', value: monthLabel(result.cumulativeBreakEvenMonth) },
+  ];
+
+  const chartData = result.months.map(row => ({
+    month: row.month,
+    revenue: Math.round(row.revenue),
+    mrr: Math.round(row.mrr),
+    cumulativeProfit: Math.round(row.cumulativeProfit),
+  }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2"><Calculator size={20} className="text-indigo-500" /> Financial Model</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleSuggest}
+              disabled={isSuggesting || steps.length === 0}
+              className="border border-slate-200 text-slate-700 px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 hover:bg-slate-50 disabled:opacity-50"
+            >
+              {isSuggesting ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />} Suggest with AI
+            </button>
+            <button onClick={handleExport} className="border border-slate-200 text-slate-700 px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 hover:bg-slate-50">
+              <Download size={16} /> Export CSV
+            </button>
+            <button
+              onClick={() => onSave({ ...idea, financialModel: assumptions })}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2"
+            >
+              <Save size={16} /> Save
+            </button>
+            <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600"><X size={18} /></button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {rationale && (
+            <div className="bg-indigo-50 border border-indigo-100 rounded-xl p-4 text-sm text-indigo-900">
+              <span className="font-bold">AI rationale: </span>{rationale}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {kpis.map(kpi => (
+              <div key={kpi.label} className="bg-slate-50 rounded-xl p-3">
+                <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{kpi.label}</div>
+                <div className="text-lg font-bold text-slate-900 mt-1">{kpi.value}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="font-bold text-slate-900 mb-2">Revenue and MRR</h3>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                    <YAxis tick={{ fontSize: 11 }} tickFormatter={money} width={60} />
+                    <Tooltip formatter={(value: number) => money(value)} labelFormatter={(month) => `Month ${month}`} />
+                    <Legend />
+                    <Line type="monotone" dataKey="revenue" name="Revenue" stroke="#4f46e5" strokeWidth={2} dot={false} />
+                    <Line type="monotone" dataKey="mrr" name="MRR" stroke="#10b981" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+            <div>
+              <h3 className="font-bold text-slate-900 mb-2">Cumulative profit</h3>
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={chartData}>
+                    <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                    <YAxis tick={{ fontSize: 11 }} tickFormatter={money} width={60} />
+                    <Tooltip formatter={(value: number) => money(value)} labelFormatter={(month) => `Month ${month}`} />
+                    <Area type="monotone" dataKey="cumulativeProfit" name="Cumulative profit" stroke="#f59e0b" fill="#fef3c7" strokeWidth={2} />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-bold text-slate-900 mb-2">Traffic and costs</h3>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              {GLOBAL_FIELDS.map(({ field, label, unit }) => (
+                <label key={field} className="text-xs font-bold text-slate-500">
+                  {label}{unit === '%' ? ' (%)' : unit === 'money' ? ` (${currency})` : ''}
+                  <input
+                    type="number"
+                    min={field === 'visitorGrowth' ? undefined : 0}
+                    value={assumptions[field]}
+                    onChange={(e) => setField(field, e.target.value)}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="font-bold text-slate-900 mb-1">Ladder pricing and funnel</h3>
+            <p className="text-xs text-slate-500 mb-3">
+              Conversion for the first step is the share of visitors who take it; each later step converts from the customers of the step before.
+            </p>
+            {steps.length === 0 ? (
+              <p className="text-sm text-slate-400">This idea has no value ladder to model.</p>
+            ) : (
+              <div className="border border-slate-200 rounded-lg overflow-hidden">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-slate-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-bold text-slate-700">Step</th>
+                      <th className="px-3 py-2 text-left font-bold text-slate-700">Listed price</th>
+                      <th className="px-3 py-2 text-left font-bold text-slate-700 w-32">Price ({currency})</th>
+                      <th className="px-3 py-2 text-left font-bold text-slate-700 w-36">Billing</th>
+                      <th className="px-3 py-2 text-left font-bold text-slate-700 w-32">Conversion (%)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {assumptions.steps.map((step, idx) => (
+                      <tr key={idx}>
+                        <td className="px-3 py-2 text-slate-800">
+                          <div className="text-[10px] font-bold text-slate-400 uppercase">{steps[idx]?.type}</div>
+                          {steps[idx]?.title}
+                        </td>
+                        <td className="px-3 py-2 text-slate-500">{steps[idx]?.price}</td>
+                        <td className="px-3 py-2">
+                          <input type="number" min={0} value={step.price} onChange={(e) => setStep(idx, { price: Number(e.target.value) || 0 })} className={inputClass} />
+                        </td>
+                        <td className="px-3 py-2">
+                          <select value={step.period} onChange={(e) => setStep(idx, { period: e.target.value as BillingPeriod })} className={inputClass}>
+                            {PERIODS.map(period => <option key={period.value} value={period.value}>{period.label}</option>)}
+                          </select>
+                        </td>
+                        <td className="px-3 py-2">
+                          <input type="number" min={0} max={100} value={step.conversion} onChange={(e) => setStep(idx, { conversion: Number(e.target.value) || 0 })} className={inputClass} />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,10 @@
 
-import React, { useState, useRef } from 'react';
-import { User, ChevronDown, Sparkles, Database, TrendingUp, Users, LayoutGrid } from 'lucide-react';
+import React, { useState, useRef, useEffect } from 'react';
+import { User, ChevronDown, Sparkles, Database, TrendingUp, Users, LayoutGrid, Cpu } from 'lucide-react';
 import { Logo } from './Logo';
+import { SyncStatus } from './SyncStatus';
 import { ViewState } from '../types';
+import { AIProviderId, getActiveProviderId, hasGeminiKey, setActiveProvider, subscribeToProvider } from '../services/aiProvider';
 
 interface HeaderProps {
   onNavigate?: (page: ViewState) => void;
@@ -11,6 +13,18 @@ interface HeaderProps {
 export const Header: React.FC<HeaderProps> = ({ onNavigate }) => {
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
   const timeoutRef = useRef<number | null>(null);
+  const [providerId, setProviderId] = useState<AIProviderId>(getActiveProviderId());
+
+  useEffect(() => subscribeToProvider(setProviderId), []);
+
+  const handleToggleProvider = () => {
+    const next: AIProviderId = providerId === 'mock' ? 'gemini' : 'mock';
+    if (next === 'gemini' && !hasGeminiKey()) {
+      alert("Please set your Gemini API Key in the environment variables to use live AI.");
+      return;
+    }
+    setActiveProvider(next);
+  };
 
   const handleMouseEnter = (menu: string) => {
     if (timeoutRef.current) {
@@ -127,10 +141,21 @@ export const Header: React.FC<HeaderProps> = ({ onNavigate }) => {
           
           <button onClick={() => handleNav('history')} className="hover:text-blue-600">History</button>
           
+          <button onClick={() => handleNav('usage')} className="hover:text-blue-600">Usage</button>
+          
           <button onClick={() => handleNav('home')} className="hover:text-blue-600">Pricing</button>
         </nav>
 
         <div className="flex items-center gap-3">
+           <SyncStatus />
+           <button
+             onClick={handleToggleProvider}
+             className={`flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-bold border transition-colors ${providerId === 'gemini' ? 'bg-green-50 text-green-700 border-green-200 hover:bg-green-100' : providerId === 'replay' ? 'bg-purple-50 text-purple-700 border-purple-200 hover:bg-purple-100' : 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100'}`}
+             title="Switch between live Gemini and offline mock data"
+           >
+             <Cpu size={14} />
+             {providerId === 'gemini' ? 'Live AI' : providerId === 'replay' ? 'Replay Mode' : 'Demo Mode'}
+           </button>
            <button className="flex items-center gap-2 border rounded-full px-3 py-1.5 text-sm hover:bg-slate-50">
              <div className="w-6 h-6 bg-slate-200 rounded-full flex items-center justify-center overflow-hidden">
                 <User size={14} className="text-slate-500"/>
@@ -1,18 +1,37 @@
 
 import React, { useState, useEffect, useRef } from 'react';
+import { FunctionCall, Part } from '@google/genai';
 import { 
   ArrowLeft, ArrowRight, CheckCircle, Zap, TrendingUp, AlertTriangle, 
   Clock, Target, Share2, Bookmark, Hammer, ExternalLink, MessageSquare, 
   Download, Flag, ChevronDown, ChevronUp, Send, X, Loader2, Sparkles, Copy, 
   BarChart3, Twitter, Linkedin, Link as LinkIcon, Maximize2, Pencil, Save, Code, Terminal, FileText,
   Layout, Calendar, Mail, Users, Search, Megaphone, Box, FileCode, DollarSign, PieChart, Eye, BookOpen,
-  FileDown, GitBranch, Image as ImageIcon, Palette, PenTool
+  FileDown, GitBranch, Image as ImageIcon, Palette, PenTool, Square, RefreshCw, Camera, Presentation, Calculator, Plus, Trash2
 } from 'lucide-react';
-import { BusinessIdea, ValueLadderStep } from '../types';
+import { BusinessIdea, ChatMessage, ChatThread, ValueLadderStep } from '../types';
 import { TrendChart } from './TrendChart';
-import { createIdeaChatSession, generateArtifact, generateSectionDeepDive, generateFullAnalysis, forkIdea } from '../services/geminiService';
-import { Chat } from '@google/genai';
-import { jsPDF } from 'jspdf';
+import { IDEA_CHAT_SEARCH_TOOL, condenseForSlides, createIdeaChatSession, searchForIdeaChat, toChatHistory, generateArtifact, generateArtifactStream, generateSectionDeepDiveStream, generateFullAnalysisStream, forkIdea, StreamedText } from '../services/geminiService';
+import { DEEP_DIVE_SECTIONS, DeepDiveSection, PROMPTS, renderPrompt } from '../services/promptRegistry';
+import { ideaUrl } from '../services/router';
+import { DEFAULT_STRIPPED_FIELDS, createSnapshot, createSnapshotLink } from '../services/shareSnapshot';
+import { buildReportPdf } from '../services/pdfReport';
+import { SlideBullets, buildPitchDeck, getSlideSources } from '../services/pitchDeck';
+import { buildDossierDocx, buildSavedReportDocx } from '../services/docxReport';
+import { AIChatSession, isAbortError } from '../services/aiProvider';
+import { IdeaParseError, IdeaValidationError } from '../services/ideaValidation';
+import { AIUnavailableError } from '../services/requestScheduler';
+import { isProvenanceField, markUserEdited, provenanceTag } from '../services/provenance';
+import { validateLadder } from '../services/valueLadder';
+import { getChatThreads, saveChatThread, deleteChatThread } from '../services/storageRepository';
+import { createChatThread, searchThreads, threadToMarkdown, withMessages } from '../services/ideaChats';
+import { IdeaEdit, editDecisionResponse, toIdeaEdits, toolResponse } from '../services/ideaEdits';
+import { ProvenanceBadge } from './ProvenanceBadge';
+import { ShareSnapshotDialog } from './ShareSnapshotDialog';
+import { FinancialModel } from './FinancialModel';
+import { ValueLadderEditor } from './ValueLadderEditor';
+import { IdeaEditCard } from './IdeaEditCard';
+import { Markdown } from './Markdown';
 
 interface IdeaDetailProps {
   idea: BusinessIdea | null;
@@ -23,6 +42,17 @@ interface IdeaDetailProps {
   isSaved: boolean;
 }
 
+interface ModalContent {
+  title: string;
+  content: string;
+  cachedAt?: string; // Shown when the text was served from the response cache
+  promptVersion?: string; // Stored with the report when it is saved
+  onRegenerate?: () => void;
+}
+
+// Web searches the idea chat may run while answering one message
+const MAX_CHAT_SEARCHES = 3;
+
 // Template Data Configuration
 const TEMPLATE_CATEGORIES = [
   {
@@ -118,34 +148,63 @@ export const IdeaDetail: React.FC<IdeaDetailProps> = ({ idea, loading, loadingSt
   
   // Modal States
   const [activeModal, setActiveModal] = useState<'chat' | 'content' | null>(null);
-  const [modalContent, setModalContent] = useState<{ title: string; content: string } | null>(null);
+  const [modalContent, setModalContent] = useState<ModalContent | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const requestRef = useRef<AbortController | null>(null);
   const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isSnapshotOpen, setIsSnapshotOpen] = useState(false);
+  const [isFinancialModelOpen, setIsFinancialModelOpen] = useState(false);
+  const [includeReportsInPdf, setIncludeReportsInPdf] = useState(true);
+  const [condenseDeck, setCondenseDeck] = useState(false);
+  const [isBuildingDeck, setIsBuildingDeck] = useState(false);
   const [isModalShareOpen, setIsModalShareOpen] = useState(false);
   const shareMenuRef = useRef<HTMLDivElement>(null);
   const modalShareMenuRef = useRef<HTMLDivElement>(null);
   
   // Chat State
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
-  const [chatMessages, setChatMessages] = useState<{role: 'user' | 'model', text: string}[]>([]);
+  const [chatSession, setChatSession] = useState<{ session: AIChatSession; idea: BusinessIdea } | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
+  const [chatThreads, setChatThreads] = useState<ChatThread[]>([]);
+  const [activeThread, setActiveThread] = useState<ChatThread | null>(null);
+  const [threadSearch, setThreadSearch] = useState('');
+  const [renamingThread, setRenamingThread] = useState<string | null>(null);
+  const [chatEdits, setChatEdits] = useState<{ edit: IdeaEdit; afterMessage: number; status: 'pending' | 'accepted' | 'rejected' }[]>([]);
+  // A reply whose proposed edits await a decision, with the answers to its other tool calls
+  const [chatTurn, setChatTurn] = useState<{ afterMessage: number; responses: Part[] } | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (idea) {
       setEditedIdea(idea);
     }
-    setChatMessages([]);
-    setChatSession(null);
   }, [idea]);
 
   useEffect(() => {
-    if (activeModal === 'chat' && !chatSession && idea) {
-      const session = createIdeaChatSession(idea);
-      setChatSession(session);
-      setChatMessages([{ role: 'model', text: `Hi! I'm ready to discuss "${idea.title}". Ask me anything about execution, market risks, or strategy.` }]);
+    setChatSession(null);
+    setChatMessages([]);
+    setChatEdits([]);
+    setChatTurn(null);
+    setActiveThread(null);
+    setChatThreads([]);
+    setThreadSearch('');
+    if (!idea?.id) return;
+    let cancelled = false;
+    getChatThreads(idea.id).then(threads => { if (!cancelled) setChatThreads(threads); });
+    return () => { cancelled = true; };
+  }, [idea?.id]);
+
+  // Anything still generating belongs to the previous idea
+  useEffect(() => {
+    return () => cancelRequest();
+  }, [idea?.id]);
+
+  useEffect(() => {
+    if (activeModal === 'chat' && activeThread && !chatSession && idea) {
+      setChatSession({ session: createIdeaChatSession(idea, toChatHistory(activeThread.messages)), idea });
     }
-  }, [activeModal, idea, chatSession]);
+  }, [activeModal, idea, activeThread, chatSession]);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -166,6 +225,7 @@ export const IdeaDetail: React.FC<IdeaDetailProps> = ({ idea, loading, loadingSt
 
   const generateReportContent = () => {
     const { title, description, tags, trendKeyword, relatedKeywords, trendVolume, trendGrowth, kpi, businessFit, sections, communitySignals, sources } = editedIdea;
+    const tag = (path: Parameters<typeof provenanceTag>[1]) => provenanceTag(editedIdea, path);
 
     return `
 # ${title}
@@ -174,41 +234,41 @@ export const IdeaDetail: React.FC<IdeaDetailProps> = ({ idea, loading, loadingSt
 
 ---
 
-## 1. Executive Summary
+## 1. Executive Summary${tag('description')}
 ${description}
 
 ---
 
 ## 2. Market Trend Intelligence
-**Breakout Keyword:** ${trendKeyword}
-**Monthly Search Volume:** ${trendVolume}
-**YoY Growth:** ${trendGrowth}
-**Related Keyword Variations:** ${relatedKeywords?.join(', ')}
+**Breakout Keyword:** ${trendKeyword}${tag('trendKeyword')}
+**Monthly Search Volume:** ${trendVolume}${tag('trendVolume')}
+**YoY Growth:** ${trendGrowth}${tag('trendGrowth')}
+**Related Keyword Variations:** ${relatedKeywords?.join(', ')}${tag('relatedKeywords')}
 
 ---
 
 ## 3. KPI Scorecard & Metrics
-| Metric | Score | Rating |
-| :--- | :--- | :--- |
-| **Opportunity** | ${kpi.opportunity.score}/10 | ${kpi.opportunity.label} |
-| **Problem Severity** | ${kpi.problem.score}/10 | ${kpi.problem.label} |
-| **Feasibility** | ${kpi.feasibility.score}/10 | ${kpi.feasibility.label} |
-| **Why Now** | ${kpi.whyNow.score}/10 | ${kpi.whyNow.label} |
+| Metric | Score | Rating | Source |
+| :--- | :--- | :--- | :--- |
+| **Opportunity** | ${kpi.opportunity.score}/10 | ${kpi.opportunity.label} |${tag('kpi.opportunity')} |
+| **Problem Severity** | ${kpi.problem.score}/10 | ${kpi.problem.label} |${tag('kpi.problem')} |
+| **Feasibility** | ${kpi.feasibility.score}/10 | ${kpi.feasibility.label} |${tag('kpi.feasibility')} |
+| **Why Now** | ${kpi.whyNow.score}/10 | ${kpi.whyNow.label} |${tag('kpi.whyNow')} |
 
 ---
 
 ## 4. Business Fit & Viability
-* **Revenue Potential:** ${businessFit.revenuePotential}
+* **Revenue Potential:** ${businessFit.revenuePotential}${tag('businessFit.revenuePotential')}
   * *Analysis:* ${businessFit.revenuePotentialDescription}
-* **Execution Difficulty:** ${businessFit.executionDifficulty}/10
+* **Execution Difficulty:** ${businessFit.executionDifficulty}/10${tag('businessFit.executionDifficulty')}
   * *Analysis:* ${businessFit.executionDifficultyDescription}
-* **Go-To-Market Score:** ${businessFit.goToMarket}/10
+* **Go-To-Market Score:** ${businessFit.goToMarket}/10${tag('businessFit.goToMarket')}
   * *Analysis:* ${businessFit.goToMarketDescription}
-* **Founder Fit:** ${businessFit.founderFitDescription}
+* **Founder Fit:** ${businessFit.founderFitDescription}${tag('businessFit.founderFitDescription')}
 
 ---
 
-## 5. The Value Ladder Strategy
+## 5. The Value Ladder Strategy${tag('sections.offer')}
 A structured product strategy moving customers from free value to high-ticket retention.
 
 ${sections.offer.map((step, idx) => `
@@ -224,25 +284,25 @@ ${sections.offer.map((step, idx) => `
 
 ## 6. Comprehensive Deep Dive Analysis
 
-### Why Now & Market Timing
+### Why Now & Market Timing${tag('sections.whyNow')}
 ${sections.whyNow}
 
-### Proof, Validation & Market Signals
+### Proof, Validation & Market Signals${tag('sections.proofAndSignals')}
 ${sections.proofAndSignals}
 
-### Market Gap & Competitive Landscape
+### Market Gap & Competitive Landscape${tag('sections.marketGap')}
 ${sections.marketGap}
 
-### 90-Day Execution Plan
+### 90-Day Execution Plan${tag('sections.executionPlan')}
 ${sections.executionPlan}
 
 ---
 
 ## 7. Community Signals (Social Listening)
-* **Reddit Analysis:** ${communitySignals.reddit}
-* **Facebook Groups:** ${communitySignals.facebook}
-* **YouTube Trends:** ${communitySignals.youtube}
-* **Other Signals:** ${communitySignals.other}
+* **Reddit Analysis:** ${communitySignals.reddit}${tag('communitySignals.reddit')}
+* **Facebook Groups:** ${communitySignals.facebook}${tag('communitySignals.facebook')}
+* **YouTube Trends:** ${communitySignals.youtube}${tag('communitySignals.youtube')}
+* **Other Signals:** ${communitySignals.other}${tag('communitySignals.other')}
 
 ---
 
@@ -255,14 +315,25 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
     `.trim();
   };
 
-  const handleShare = (platform: 'twitter' | 'linkedin' | 'email' | 'copy') => {
+  // Recipients don't have this idea in their storage, so links carry a snapshot when it fits
+  const getShareUrl = async () => {
+    try {
+      const { url } = await createSnapshotLink(createSnapshot(editedIdea, { reportIndexes: [], strip: DEFAULT_STRIPPED_FIELDS }));
+      if (url) return url;
+    } catch (e) {
+      console.error("Failed to build snapshot link", e);
+    }
+    return ideaUrl(editedIdea.id);
+  };
+
+  const handleShare = async (platform: 'twitter' | 'linkedin' | 'email' | 'copy') => {
     const summaryText = `Check out this business idea: ${editedIdea.title}\n\n${editedIdea.description}\n\nMarket Trend: ${editedIdea.trendKeyword} (${editedIdea.trendGrowth} growth)`;
     const fullReport = generateReportContent();
-    const url = window.location.href;
+    const url = platform === 'copy' ? '' : await getShareUrl();
 
     switch (platform) {
       case 'twitter':
-        window.open(`https://twitter.com/intent/tweet?text=${encodeURIComponent(summaryText)}`, '_blank');
+        window.open(`https://twitter.com/intent/tweet?text=${encodeURIComponent(summaryText)}&url=${encodeURIComponent(url)}`, '_blank');
         break;
       case 'linkedin':
         window.open(`https://www.linkedin.com/sharing/share-offsite/?url=${encodeURIComponent(url)}`, '_blank');
@@ -287,6 +358,8 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
   };
 
   const handleSave = () => {
+    if (validateLadder(editedIdea.sections.offer).length > 0 &&
+        !window.confirm('The value ladder has steps that don\'t ascend in value or price. Save anyway?')) return;
     onUpdateIdea(editedIdea);
     setIsEditing(false);
   };
@@ -296,73 +369,213 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
     setIsEditing(false);
   };
 
+  // Every edit handler records the field as user-provided so badges and exports reflect it
+  const withUserEdit = (idea: BusinessIdea, path: string) =>
+    isProvenanceField(path) ? markUserEdited(idea, path) : idea;
+
   const handleChange = (field: keyof BusinessIdea, value: any) => {
-    setEditedIdea(prev => ({ ...prev, [field]: value }));
+    setEditedIdea(prev => withUserEdit({ ...prev, [field]: value }, field));
+  };
+
+  // Explanations have no provenance entry of their own, so editing one marks the figure it explains
+  const nestedProvenancePath = (section: string, key: string) => {
+    const path = `${section}.${key}`;
+    return isProvenanceField(path) ? path : path.replace(/Description$/, '');
   };
 
-  const handleNestedChange = (section: 'kpi' | 'businessFit', key: string, value: any) => {
-    setEditedIdea(prev => ({
+  const handleNestedChange = (section: 'kpi' | 'businessFit' | 'communitySignals', key: string, value: any) => {
+    setEditedIdea(prev => withUserEdit({
       ...prev,
       [section]: {
         ...prev[section],
         [key]: value
       }
-    }));
+    }, nestedProvenancePath(section, key)));
   };
 
   const handleSectionChange = (key: keyof typeof editedIdea.sections, value: any) => {
-    setEditedIdea(prev => ({
+    setEditedIdea(prev => withUserEdit({
         ...prev,
         sections: {
             ...prev.sections,
             [key]: value
         }
-    }));
+    }, `sections.${String(key)}`));
   };
 
-  const handleDeepDive = async (section: 'whyNow' | 'proofAndSignals' | 'marketGap' | 'executionPlan' | 'revenuePotential' | 'executionDifficulty' | 'goToMarket' | 'communitySignals') => {
-    setActiveModal('content');
-    setIsGenerating(true);
-    setModalContent({ title: 'Generating Analysis...', content: 'Please wait while Gemini analyzes live market data...' });
+  const handleLadderChange = (update: (idea: BusinessIdea) => BusinessIdea) => {
+    setEditedIdea(prev => withUserEdit(update(prev), 'sections.offer'));
+  };
+
+  // The modal runs one AI request at a time. Starting another, closing the
+  // modal or switching ideas aborts the previous one.
+  const startRequest = () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    return controller;
+  };
 
+  const cancelRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsGenerating(false);
+    setIsStreaming(false);
+  };
+
+  // Renders partial text as it arrives. Stopping keeps whatever has been generated so far.
+  // Cached results arrive as a single chunk; the modal offers to regenerate them.
+  const streamIntoModal = async (
+    createStream: (signal: AbortSignal, regenerate: boolean) => AsyncGenerator<StreamedText>,
+    title: string,
+    errorText: string,
+    regenerate = false
+  ) => {
+    const controller = startRequest();
+    const handleRegenerate = () => {
+      setIsGenerating(true);
+      setModalContent({ title: `Regenerating ${title}...`, content: 'Generating a fresh version...' });
+      streamIntoModal(createStream, title, errorText, true);
+    };
+    let content = '';
+    let cachedAt: string | undefined;
+    let promptVersion: string | undefined;
     try {
-      const content = await generateSectionDeepDive(editedIdea, section);
-      let title = '';
-      switch(section) {
-        case 'whyNow': title = 'Why Now & Market Timing'; break;
-        case 'proofAndSignals': title = 'Proof & Market Signals'; break;
-        case 'marketGap': title = 'Market Gap Analysis'; break;
-        case 'executionPlan': title = '90-Day Execution Plan'; break;
-        case 'revenuePotential': title = 'Revenue & Business Model'; break;
-        case 'executionDifficulty': title = 'Technical & Operational Challenges'; break;
-        case 'goToMarket': title = 'Go-To-Market Strategy'; break;
-        case 'communitySignals': title = 'Community Signals & Social Listening'; break;
+      for await (const partial of createStream(controller.signal, regenerate)) {
+        content = partial.text;
+        cachedAt = partial.cachedAt;
+        promptVersion = partial.promptVersion;
+        setIsGenerating(false);
+        setIsStreaming(!cachedAt);
+        setModalContent({ title, content, cachedAt, promptVersion });
       }
-      setModalContent({ title, content });
+      setModalContent({ title, content: content || "Analysis failed.", cachedAt, promptVersion, onRegenerate: handleRegenerate });
     } catch (e) {
-      setModalContent({ title: 'Error', content: 'Failed to generate analysis.' });
+      if (requestRef.current !== controller) return;
+      if (isAbortError(e)) {
+        setModalContent({ title, content: content || 'Generation stopped.', promptVersion, onRegenerate: handleRegenerate });
+      } else {
+        console.error("Streaming generation error", e);
+        setModalContent(content
+          ? { title, content, promptVersion, onRegenerate: handleRegenerate }
+          : { title: 'Error', content: e instanceof AIUnavailableError ? e.message : errorText, onRegenerate: handleRegenerate });
+      }
     } finally {
-      setIsGenerating(false);
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsGenerating(false);
+        setIsStreaming(false);
+      }
     }
   };
 
+  const handleStopStreaming = () => {
+    requestRef.current?.abort();
+  };
+
+  // New threads are only stored once they have a message
+  const openThread = (thread: ChatThread) => {
+    setActiveThread(thread);
+    setChatMessages(thread.messages);
+    setChatEdits([]);
+    setChatTurn(null);
+    setChatSession(null);
+    setRenamingThread(null);
+  };
+
+  const handleOpenChat = () => {
+    setActiveModal('chat');
+    if (!activeThread && idea) openThread(chatThreads[0] || createChatThread(idea.id));
+  };
+
+  const persistThread = (thread: ChatThread) => {
+    setActiveThread(current => current?.id === thread.id ? thread : current);
+    setChatThreads(prev => [thread, ...prev.filter(t => t.id !== thread.id)]);
+    saveChatThread(thread);
+  };
+
+  const handleRenameThread = (title: string) => {
+    setRenamingThread(null);
+    if (!activeThread || !title.trim() || title.trim() === activeThread.title) return;
+    const renamed = { ...activeThread, title: title.trim() };
+    if (activeThread.messages.length > 0) persistThread(renamed);
+    else setActiveThread(renamed);
+  };
+
+  const handleDeleteThread = async (thread: ChatThread) => {
+    if (!window.confirm(`Delete the chat "${thread.title}"?`)) return;
+    const remaining = chatThreads.filter(t => t.id !== thread.id);
+    setChatThreads(remaining);
+    await deleteChatThread(thread.id);
+    if (activeThread?.id === thread.id && idea) openThread(remaining[0] || createChatThread(idea.id));
+  };
+
+  const handleExportThread = () => {
+    if (!activeThread || !idea) return;
+    const blob = new Blob([threadToMarkdown(activeThread, idea.title)], { type: 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${idea.title.replace(/\s+/g, '_')}_${activeThread.title.replace(/[^\w]+/g, '_').slice(0, 40)}.md`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Accepted edits are saved straight away; the chat session then picks up the updated idea.
+  // They apply to the saved idea, so they wait while manual edits are unsaved.
+  const handleResolveEdit = (edit: IdeaEdit, accept: boolean) => {
+    if (accept) {
+      if (!idea || isEditing) return;
+      const updatedIdea = edit.apply(idea);
+      setEditedIdea(updatedIdea);
+      onUpdateIdea(updatedIdea);
+    }
+    const resolved = chatEdits.map(item => item.edit.id === edit.id ? { ...item, status: accept ? 'accepted' as const : 'rejected' as const } : item);
+    setChatEdits(resolved);
+
+    // Once every change in the reply is decided, the decisions go back to the model as the answers to its calls
+    const turnEdits = resolved.filter(item => item.afterMessage === chatTurn?.afterMessage);
+    if (!chatTurn || !activeThread || turnEdits.some(item => item.status === 'pending')) return;
+    const labels = (status: 'accepted' | 'rejected') => turnEdits.filter(item => item.status === status).map(item => item.edit.label).join(', ');
+    const summary = [`Accepted: ${labels('accepted')}.`, `Rejected: ${labels('rejected')}.`].filter(line => !line.includes(': .')).join(' ');
+    const thread = activeThread;
+    const replyIndex = chatMessages.length + 1;
+    setChatTurn(null);
+    setChatMessages(prev => [...prev, { role: 'user', text: summary }, { role: 'model', text: '' }]);
+    streamChatTurn(
+      [...chatTurn.responses, ...turnEdits.map(item => editDecisionResponse(item.edit, item.status === 'accepted'))],
+      thread, [...thread.messages, { role: 'user', text: summary }], replyIndex
+    );
+  };
+
+  const handleCloseModal = () => {
+    cancelRequest();
+    setActiveModal(null);
+  };
+
+  const handleDeepDive = async (section: DeepDiveSection) => {
+    setActiveModal('content');
+    setIsGenerating(true);
+    setModalContent({ title: 'Generating Analysis...', content: 'Please wait while Gemini analyzes live market data...' });
+
+    const title = DEEP_DIVE_SECTIONS[section];
+    await streamIntoModal((signal, regenerate) => generateSectionDeepDiveStream(editedIdea, section, signal, regenerate), title, 'Failed to generate analysis.');
+  };
+
   const handleGenerateArtifact = async (type: string, title: string) => {
       setActiveModal('content');
       setIsGenerating(true);
       setModalContent({ title: `Building ${title}...`, content: 'Gemini is crafting your asset...' });
-      
-      const content = await generateArtifact(editedIdea, type);
-      setModalContent({ title: title, content });
-      setIsGenerating(false);
+      await streamIntoModal((signal, regenerate) => generateArtifactStream(editedIdea, { id: type, title }, signal, regenerate), title, "Sorry, I couldn't generate that right now.");
   };
 
   const handleFullReport = async () => {
       setActiveModal('content');
       setIsGenerating(true);
       setModalContent({ title: 'Generating Investment Memo...', content: 'Compiling a full deep dive report (this may take 30 seconds)...' });
-      const content = await generateFullAnalysis(editedIdea);
-      setModalContent({ title: 'Investment Memo & Deep Dive', content });
-      setIsGenerating(false);
+      await streamIntoModal((signal, regenerate) => generateFullAnalysisStream(editedIdea, signal, regenerate), 'Investment Memo & Deep Dive', "Sorry, I couldn't generate the full analysis right now.");
   };
 
   const handleForkIdea = async () => {
@@ -371,14 +584,16 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
     setActiveModal('content');
     setIsGenerating(true);
     setModalContent({ title: 'Forking Idea...', content: 'Analyzing chat history to generate a new niche-specific business report...' });
+    const controller = startRequest();
     
     try {
-      const newIdea = await forkIdea(idea, chatMessages);
+      const newIdea = await forkIdea(idea, chatMessages, controller.signal);
       onSaveIdea(newIdea);
       onUpdateIdea(newIdea);
       setActiveModal(null);
     } catch (e) {
-      setModalContent({ title: 'Error', content: 'Failed to fork idea.' });
+      if (isAbortError(e)) return;
+      setModalContent({ title: 'Error', content: e instanceof IdeaValidationError || e instanceof IdeaParseError || e instanceof AIUnavailableError ? e.message : 'Failed to fork idea.' });
       setIsGenerating(false);
     }
   };
@@ -389,38 +604,22 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
     fullText += `\n\n========================================================================\n\n# AI PROMPTS DIRECTORY (DEEP DIVES & TEMPLATES)\n\n`;
     fullText += `(Copy and paste these prompts into ChatGPT, Claude, or Gemini to execute on this business idea.)\n\n`;
 
-    // Add deep dive prompts
+    // Rendered from the same registry the services use, so these match what the app sends
     fullText += `## === DEEP DIVE ANALYSES ===\n\n`;
-    const deepDives = [
-      { id: 'whyNow', title: 'Why Now & Market Timing' },
-      { id: 'proofAndSignals', title: 'Proof & Market Signals' },
-      { id: 'marketGap', title: 'Market Gap Analysis' },
-      { id: 'executionPlan', title: '90-Day Execution Plan' },
-      { id: 'revenuePotential', title: 'Revenue & Business Model' },
-      { id: 'executionDifficulty', title: 'Technical & Operational Challenges' },
-      { id: 'goToMarket', title: 'Go-To-Market Strategy' },
-      { id: 'communitySignals', title: 'Community Signals & Social Listening' }
-    ];
-
-    deepDives.forEach(dd => {
-      let prompt = `Provide a detailed deep dive analysis for the "${dd.id}" of the business idea "${editedIdea.title}".\n\nBusiness Description:\n${editedIdea.description}\n\nUse Google Search for the latest signals to validate and expand upon this specific business concept.`;
-      fullText += `### [PROMPT] Deep Dive: ${dd.title}\n`;
-      fullText += `${prompt}\n\n`;
+    (Object.keys(DEEP_DIVE_SECTIONS) as DeepDiveSection[]).forEach(section => {
+      const prompt = renderPrompt(PROMPTS.sectionDeepDive, { idea: editedIdea, section });
+      fullText += `### [PROMPT] Deep Dive: ${DEEP_DIVE_SECTIONS[section]} (${prompt.ref})\n`;
+      fullText += `${prompt.text}\n\n`;
       fullText += `------------------------------------------------------------------------\n\n`;
     });
 
     TEMPLATE_CATEGORIES.forEach(category => {
       fullText += `\n## === ${category.title.toUpperCase()} TEMPLATES ===\n\n`;
       category.items.forEach(item => {
-        let basePrompt = `Generate a robust ${item.title} for the business idea "${editedIdea.title}".\n\nBusiness Description:\n${editedIdea.description}\n\nTarget Audience / Tags: ${editedIdea.tags.join(', ')}\n\nFocus on high-quality, actionable advice that is specifically tailored to this exact business concept. Do not make generic assumptions.`;
-        
-        if (item.id === 'coding-prompts') {
-          basePrompt += `\n\nSpecifically, create a comprehensive "Master System Prompt" and coding agent prompts (for tools like Cursor, Windsurf, or Bolt) that a developer can use to build this exact application. Include architecture, tech stack recommendations, and step-by-step implementation prompts.`;
-        }
-
-        fullText += `### [PROMPT] ${item.title}\n`;
+        const prompt = renderPrompt(PROMPTS.artifact, { idea: editedIdea, artifact: item });
+        fullText += `### [PROMPT] ${item.title} (${prompt.ref})\n`;
         fullText += `*${item.description}*\n\n`;
-        fullText += `${basePrompt}\n\n`;
+        fullText += `${prompt.text}\n\n`;
         fullText += `------------------------------------------------------------------------\n\n`;
       });
     });
@@ -442,42 +641,46 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
   };
 
   const handleExportPortablePDF = () => {
-    const fullText = generatePortableText();
-    const doc = new jsPDF();
-    const margin = 15;
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-    const maxWidth = pageWidth - margin * 2;
-    const lineHeight = 6;
-    let y = margin;
-    
-    doc.setFont("helvetica", "normal");
-    doc.setFontSize(10);
-    
-    const paragraphs = fullText.split('\\n');
-    paragraphs.forEach(para => {
-        // Handle empty lines gracefully
-        if (para.trim() === '') {
-            if (y + lineHeight > pageHeight - margin) {
-                doc.addPage();
-                y = margin;
-            }
-            y += lineHeight;
-            return;
-        }
+    try {
+      const doc = buildReportPdf({
+        idea: editedIdea,
+        markdown: generatePortableText(),
+        savedReports: includeReportsInPdf ? editedIdea.savedReports : [],
+      });
+      doc.save(`${editedIdea.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_portable_export.pdf`);
+    } catch (e) {
+      console.error("PDF export failed", e);
+      alert("Failed to export the PDF.");
+    }
+  };
 
-        const lines = doc.splitTextToSize(para, maxWidth);
-        lines.forEach((line: string) => {
-            if (y + lineHeight > pageHeight - margin) {
-                doc.addPage();
-                y = margin;
-            }
-            doc.text(line, margin, y);
-            y += lineHeight;
-        });
-    });
-    
-    doc.save(`${editedIdea.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_portable_export.pdf`);
+  // The AI pass is optional; if it fails the deck still exports with plain sentence bullets
+  const handleExportPitchDeck = async () => {
+    setIsBuildingDeck(true);
+    try {
+      let condensed: SlideBullets = {};
+      if (condenseDeck) {
+        try {
+          condensed = await condenseForSlides(editedIdea, getSlideSources(editedIdea));
+        } catch (e) {
+          console.warn("Slide condensing failed, using plain bullets", e);
+        }
+      }
+      const blob = await buildPitchDeck(editedIdea, condensed);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${editedIdea.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_pitch_deck.pptx`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Pitch deck export failed", e);
+      alert("Failed to export the pitch deck.");
+    } finally {
+      setIsBuildingDeck(false);
+    }
   };
 
   const handleDownloadDossier = () => {
@@ -493,28 +696,59 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
     URL.revokeObjectURL(url);
   };
 
+  const downloadDocx = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.docx`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadDossierDocx = async () => {
+    try {
+      downloadDocx(await buildDossierDocx(editedIdea, generateReportContent()), `${editedIdea.title}_comprehensive_dossier`);
+    } catch (e) {
+      console.error("Word export failed", e);
+      alert("Failed to export the Word document.");
+    }
+  };
+
+  const handleDownloadReportDocx = async (report: NonNullable<BusinessIdea['savedReports']>[number]) => {
+    try {
+      downloadDocx(await buildSavedReportDocx(editedIdea, report), `${editedIdea.title}_${report.title}`);
+    } catch (e) {
+      console.error("Word export failed", e);
+      alert("Failed to export the Word document.");
+    }
+  };
+
   const handleDownloadEverything = async () => {
     setActiveModal('content');
     setIsGenerating(true);
     setModalContent({ title: 'Generating Complete Master Dossier...', content: 'Compiling ALL research and templates (this may take 1-2 minutes)...' });
+    const controller = startRequest();
     
     try {
       let fullReport = generateReportContent() + "\n\n========================================================================\n\n# EXTENDED TEMPLATES & ARTIFACTS\n\n";
       
       const allItems = TEMPLATE_CATEGORIES.flatMap(cat => cat.items.map(item => ({...item, category: cat.title})));
       
-      const batchSize = 3;
+      // The request scheduler limits how many of these run at once
+      let completed = 0;
+      setModalContent({ title: 'Generating Complete Master Dossier...', content: `Generating ${allItems.length} artifacts...` });
+      const results = await Promise.all(allItems.map(async item => {
+        const result = await generateArtifact(editedIdea, item, controller.signal, 'bulk');
+        completed++;
+        setModalContent({ title: 'Generating Complete Master Dossier...', content: `Generated ${completed} of ${allItems.length} artifacts...` });
+        return result;
+      }));
       
-      for (let i = 0; i < allItems.length; i += batchSize) {
-        const batch = allItems.slice(i, i + batchSize);
-        setModalContent({ title: 'Generating Complete Master Dossier...', content: `Generating artifacts ${i + 1} to ${Math.min(i + batchSize, allItems.length)} of ${allItems.length}...` });
-        
-        const results = await Promise.all(batch.map(item => generateArtifact(editedIdea, item.id)));
-        
-        batch.forEach((item, index) => {
-           fullReport += `## [${item.category}] ${item.title}\n\n${results[index]}\n\n---\n\n`;
-        });
-      }
+      allItems.forEach((item, index) => {
+         fullReport += `## [${item.category}] ${item.title}\n\n${results[index]}\n\n---\n\n`;
+      });
       
       const blob = new Blob([fullReport], { type: 'text/markdown' });
       const url = URL.createObjectURL(blob);
@@ -528,32 +762,114 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
       
       setActiveModal(null);
     } catch (e) {
-      setModalContent({ title: 'Error', content: 'Failed to generate complete dossier.' });
+      if (isAbortError(e)) return;
+      // The dossier is not downloaded, so the artifacts still queued are stopped
+      controller.abort();
+      setModalContent({ title: 'Error', content: e instanceof AIUnavailableError ? e.message : 'Failed to generate complete dossier.' });
       setIsGenerating(false);
     }
   };
 
-  const handleSendMessage = async () => {
-    if (!chatInput.trim() || !chatSession) return;
-    
-    const userMsg = chatInput;
-    setChatMessages(prev => [...prev, { role: 'user', text: userMsg }]);
-    setChatInput('');
-    
+  // The session carries the idea as context. Once the idea changes it is rebuilt
+  // around the new idea with the conversation so far, including pending tool calls.
+  const getChatSession = (): AIChatSession | null => {
+    if (!chatSession || !idea) return null;
+    if (chatSession.idea === idea) return chatSession.session;
+    const rebuilt = { session: createIdeaChatSession(idea, chatSession.session.getHistory()), idea };
+    setChatSession(rebuilt);
+    return rebuilt.session;
+  };
+
+  const answerSearch = async (call: FunctionCall, count: number, signal: AbortSignal): Promise<Part> => {
+    const query = typeof call.args?.query === 'string' ? call.args.query.trim() : '';
+    if (!query) return toolResponse(call, { error: 'search_web needs a query.' });
+    if (count > MAX_CHAT_SEARCHES) return toolResponse(call, { error: 'No more searches for this message; answer with what you have.' });
     try {
-      const result = await chatSession.sendMessage({ message: userMsg });
-      setChatMessages(prev => [...prev, { role: 'model', text: result.text || "I couldn't generate a response." }]);
+      const result = await searchForIdeaChat(idea as BusinessIdea, query, signal);
+      return toolResponse(call, { output: result.text, sources: result.sources });
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.error("Idea chat search failed", e);
+      return toolResponse(call, { error: e instanceof AIUnavailableError ? e.message : 'The search failed.' });
+    }
+  };
+
+  // Streams the model's reply into the chat message at replyIndex. Searches are
+  // answered straight away and the model carries on in the same message; proposed
+  // edits are listed under it and answered once the user decides on each.
+  const streamChatTurn = async (message: string | Part[], thread: ChatThread, history: ChatMessage[], replyIndex: number) => {
+    const session = getChatSession();
+    if (!session || !idea) return;
+    setIsStreaming(true);
+    const controller = startRequest();
+
+    const setReply = (text: string) => setChatMessages(prev => [...prev.slice(0, -1), { role: 'model', text }]);
+    let reply = '';
+    let next: string | Part[] | null = message;
+    let searches = 0;
+    try {
+      while (next) {
+        const calls: FunctionCall[] = [];
+        const stream = await session.sendMessageStream({ message: next, signal: controller.signal });
+        for await (const chunk of stream) {
+          reply += chunk.text;
+          calls.push(...(chunk.functionCalls || []));
+          setReply(reply);
+        }
+        next = null;
+        if (calls.length === 0) break;
+
+        // Every call in a reply is answered together in the next turn
+        const { edits, skipped } = toIdeaEdits(idea, calls.filter(call => call.name !== IDEA_CHAT_SEARCH_TOOL));
+        if (skipped.length) console.warn("Skipped idea chat edits", skipped.map(item => item.reason));
+        const responses = [
+          ...await Promise.all(calls.filter(call => call.name === IDEA_CHAT_SEARCH_TOOL).map(call => answerSearch(call, ++searches, controller.signal))),
+          ...skipped.map(({ call, reason }) => toolResponse(call, { error: reason })),
+        ];
+        if (edits.length === 0) {
+          next = responses;
+          continue;
+        }
+        setChatEdits(prev => [...prev, ...edits.map(edit => ({ edit, afterMessage: replyIndex, status: 'pending' as const }))]);
+        setChatTurn({ afterMessage: replyIndex, responses });
+        if (!reply) {
+          reply = `I've proposed ${edits.length === 1 ? 'a change' : `${edits.length} changes`} below. Accept the ones you want to apply.`;
+          setReply(reply);
+        }
+      }
+      if (!reply) setReply("I couldn't generate a response.");
+      else persistThread(withMessages(thread, [...history, { role: 'model', text: reply }]));
     } catch (e) {
-      setChatMessages(prev => [...prev, { role: 'model', text: "Sorry, I encountered an error." }]);
+      if (requestRef.current !== controller) return;
+      setReply(reply || (isAbortError(e) ? "(Stopped)" : "Sorry, I encountered an error."));
+      if (reply) persistThread(withMessages(thread, [...history, { role: 'model', text: reply }]));
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsStreaming(false);
+      }
     }
   };
 
+  const handleSendMessage = async () => {
+    if (!chatInput.trim() || !chatSession || !activeThread || chatTurn) return;
+
+    const userMsg = chatInput;
+    // Only answered exchanges are stored, so a resumed session always gets alternating turns
+    const thread = activeThread;
+    const replyIndex = chatMessages.length + 1;
+    setChatMessages(prev => [...prev, { role: 'user', text: userMsg }, { role: 'model', text: '' }]);
+    setChatInput('');
+    await streamChatTurn(userMsg, thread, [...thread.messages, { role: 'user', text: userMsg }], replyIndex);
+  };
+
   const handleSaveReport = () => {
       if (modalContent && idea) {
           const newReport = {
               title: modalContent.title,
               content: modalContent.content,
-              date: new Date().toLocaleDateString()
+              date: new Date().toLocaleDateString(),
+              promptVersion: modalContent.promptVersion
           };
           const updatedIdea = {
               ...editedIdea,
@@ -565,11 +881,11 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
       }
   };
 
-  const handleModalShare = (platform: 'twitter' | 'linkedin' | 'email' | 'copy') => {
+  const handleModalShare = async (platform: 'twitter' | 'linkedin' | 'email' | 'copy') => {
       if (modalContent) {
           const text = modalContent.content;
           const title = modalContent.title;
-          const url = window.location.href;
+          const url = platform === 'linkedin' || platform === 'email' ? await getShareUrl() : '';
 
           switch (platform) {
             case 'twitter':
@@ -637,7 +953,7 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                     <button onClick={() => setIsEditing(true)} className="text-slate-400 hover:text-blue-600 p-2 rounded-full hover:bg-blue-50 transition-colors" title="Edit Idea">
                         <Pencil size={18} />
                     </button>
-                    <button onClick={() => setActiveModal('chat')} className="text-slate-600 hover:text-blue-600 font-medium text-sm flex items-center gap-1 bg-white border border-slate-200 px-3 py-1.5 rounded-full shadow-sm hover:shadow-md transition-all">
+                    <button onClick={handleOpenChat} className="text-slate-600 hover:text-blue-600 font-medium text-sm flex items-center gap-1 bg-white border border-slate-200 px-3 py-1.5 rounded-full shadow-sm hover:shadow-md transition-all">
                         <MessageSquare size={16} /> Ask AI
                     </button>
                     <div className="relative" ref={shareMenuRef}>
@@ -662,6 +978,9 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                                 <button onClick={() => handleShare('copy')} className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 flex items-center gap-2">
                                     <Copy size={16} className="text-slate-500" /> Copy Text
                                 </button>
+                                <button onClick={() => { setIsSnapshotOpen(true); setIsShareOpen(false); }} className="w-full text-left px-4 py-2 text-sm text-slate-700 hover:bg-slate-50 flex items-center gap-2">
+                                    <Camera size={16} className="text-slate-500" /> Share Snapshot...
+                                </button>
                             </div>
                         )}
                     </div>
@@ -688,7 +1007,7 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
              />
          ) : (
              <h1 className="text-4xl md:text-5xl lg:text-6xl font-serif font-bold text-slate-900 mb-4 leading-tight">
-                {editedIdea.title}
+                {editedIdea.title} <ProvenanceBadge idea={editedIdea} field="title" className="align-middle" />
              </h1>
          )}
       </div>
@@ -717,8 +1036,11 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
               {/* Trend Chart - Centered in Main Column */}
               <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-8">
                   <div className="flex items-center justify-between mb-6">
-                      <h3 className="font-bold text-slate-900 text-2xl">Search Interest Trend</h3>
-                      <span className="text-sm text-slate-500 bg-slate-50 px-3 py-1.5 rounded-full">Last 5 Years</span>
+                      <h3 className="font-bold text-slate-900 text-2xl flex items-center gap-2">Search Interest Trend <ProvenanceBadge idea={editedIdea} field="trendData" /></h3>
+                      <div className="flex items-center gap-2">
+                          <ProvenanceBadge idea={editedIdea} field="trendVolume" />
+                          <span className="text-sm text-slate-500 bg-slate-50 px-3 py-1.5 rounded-full">Last 5 Years</span>
+                      </div>
                   </div>
                   <TrendChart 
                       data={editedIdea.trendData} 
@@ -734,10 +1056,19 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
               <section className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
                   <div className="p-8 border-b border-slate-50 bg-slate-50/50 flex justify-between items-center">
                       <div>
-                        <h2 className="text-2xl font-serif text-slate-900 font-bold">Value Ladder Strategy</h2>
+                        <h2 className="text-2xl font-serif text-slate-900 font-bold flex items-center gap-2">Value Ladder Strategy <ProvenanceBadge idea={editedIdea} field="sections.offer" /></h2>
                         <p className="text-sm text-slate-500 mt-1">From free value to high-ticket backend.</p>
                       </div>
+                      <button
+                        onClick={() => setIsFinancialModelOpen(true)}
+                        className="border border-slate-200 bg-white text-slate-700 px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 hover:bg-slate-50"
+                      >
+                        <Calculator size={16} /> Financial Model
+                      </button>
                   </div>
+                  {isEditing ? (
+                      <ValueLadderEditor idea={editedIdea} onChange={handleLadderChange} />
+                  ) : (
                   <div className="divide-y divide-slate-100">
                       {editedIdea.sections.offer.map((step, idx) => (
                           <div key={idx} className="p-8 hover:bg-slate-50 transition-colors group">
@@ -750,41 +1081,16 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                                       }`}>
                                           {step.type}
                                       </span>
-                                      {isEditing ? (
-                                          <input 
-                                            type="text" 
-                                            className="font-bold text-xl text-slate-900 border-b border-slate-300 focus:border-blue-500 focus:outline-none bg-transparent w-full"
-                                            value={step.title}
-                                            onChange={(e) => {
-                                                const newOffers = [...editedIdea.sections.offer];
-                                                newOffers[idx] = { ...step, title: e.target.value };
-                                                setEditedIdea(prev => ({ ...prev, sections: { ...prev.sections, offer: newOffers } }));
-                                            }}
-                                          />
-                                      ) : (
-                                          <h3 className="font-bold text-xl text-slate-900">{step.title}</h3>
-                                      )}
+                                      <h3 className="font-bold text-xl text-slate-900">{step.title}</h3>
                                   </div>
-                                  {isEditing ? (
-                                      <input 
-                                        type="text" 
-                                        className="text-lg font-bold text-slate-900 border-b border-slate-300 focus:border-blue-500 focus:outline-none bg-transparent text-right w-24"
-                                        value={step.price}
-                                        onChange={(e) => {
-                                            const newOffers = [...editedIdea.sections.offer];
-                                            newOffers[idx] = { ...step, price: e.target.value };
-                                            setEditedIdea(prev => ({ ...prev, sections: { ...prev.sections, offer: newOffers } }));
-                                        }}
-                                      />
-                                  ) : (
-                                      <span className="text-lg font-bold text-slate-900 whitespace-nowrap">{step.price}</span>
-                                  )}
+                                  <span className="text-lg font-bold text-slate-900 whitespace-nowrap">{step.price}</span>
                               </div>
                               <p className="text-base text-slate-600 mb-3 leading-relaxed">{step.description}</p>
                               <div className="text-sm text-slate-500"><span className="font-semibold text-slate-700">Value:</span> {step.valueProvided}</div>
                           </div>
                       ))}
                   </div>
+                  )}
               </section>
 
               {/* Analysis Report (Consolidated) */}
@@ -805,6 +1111,7 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                           <h3 className="flex items-center gap-3 text-slate-900 font-bold text-2xl mb-4">
                               <div className="w-10 h-10 bg-blue-50 text-blue-600 rounded-xl flex items-center justify-center"><Clock size={20} /></div>
                               Why Now?
+                              <ProvenanceBadge idea={editedIdea} field="sections.whyNow" />
                           </h3>
                           <p className="text-slate-700 leading-relaxed text-lg mb-4">
                             {editedIdea.sections.whyNow}
@@ -819,6 +1126,7 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                           <h3 className="flex items-center gap-3 text-slate-900 font-bold text-2xl mb-4">
                               <div className="w-10 h-10 bg-green-50 text-green-600 rounded-xl flex items-center justify-center"><CheckCircle size={20} /></div>
                               Proof & Signals
+                              <ProvenanceBadge idea={editedIdea} field="sections.proofAndSignals" />
                           </h3>
                           <p className="text-slate-700 leading-relaxed text-lg mb-4">
                             {editedIdea.sections.proofAndSignals}
@@ -833,6 +1141,7 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                           <h3 className="flex items-center gap-3 text-slate-900 font-bold text-2xl mb-4">
                               <div className="w-10 h-10 bg-purple-50 text-purple-600 rounded-xl flex items-center justify-center"><Zap size={20} /></div>
                               Market Gap
+                              <ProvenanceBadge idea={editedIdea} field="sections.marketGap" />
                           </h3>
                           <p className="text-slate-700 leading-relaxed text-lg mb-4">
                             {editedIdea.sections.marketGap}
@@ -847,6 +1156,7 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                           <h3 className="flex items-center gap-3 text-slate-900 font-bold text-2xl mb-4">
                               <div className="w-10 h-10 bg-amber-50 text-amber-600 rounded-xl flex items-center justify-center"><Hammer size={20} /></div>
                               Execution Plan
+                              <ProvenanceBadge idea={editedIdea} field="sections.executionPlan" />
                           </h3>
                           <p className="text-slate-700 leading-relaxed text-lg mb-4">
                             {editedIdea.sections.executionPlan}
@@ -895,7 +1205,10 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
 
                       return (
                         <div key={key} className={`${bgClass} rounded-xl p-6 border ${borderClass} shadow-sm transition-all hover:shadow-md`}>
-                            <div className="text-xs font-bold opacity-70 uppercase tracking-wider mb-1">{key.replace(/([A-Z])/g, ' $1').trim()}</div>
+                            <div className="flex items-center justify-between mb-1">
+                                <div className="text-xs font-bold opacity-70 uppercase tracking-wider">{key.replace(/([A-Z])/g, ' $1').trim()}</div>
+                                {isProvenanceField(`kpi.${key}`) && <ProvenanceBadge idea={editedIdea} field={`kpi.${key}` as 'kpi.opportunity'} />}
+                            </div>
                             <div className="flex items-end justify-between">
                                 <div className="flex items-baseline gap-1">
                                     {isEditing ? (
@@ -933,7 +1246,7 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                       ].map((item) => (
                           <div key={item.key}>
                               <div className="flex justify-between text-base mb-1.5">
-                                  <span className="text-slate-700 font-medium flex items-center gap-2">{item.icon} {item.label}</span>
+                                  <span className="text-slate-700 font-medium flex items-center gap-2">{item.icon} {item.label} {isProvenanceField(`businessFit.${item.key}`) && <ProvenanceBadge idea={editedIdea} field={`businessFit.${item.key}` as 'businessFit.goToMarket'} />}</span>
                                   {isEditing ? (
                                       <input 
                                           type="text" 
@@ -945,9 +1258,20 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                                       <span className="font-bold text-slate-900">{(editedIdea.businessFit as any)[item.key]} {typeof (editedIdea.businessFit as any)[item.key] === 'number' ? '/10' : ''}</span>
                                   )}
                               </div>
-                              <p className="text-sm text-slate-500 leading-relaxed pl-7">
-                                  {(editedIdea.businessFit as any)[item.descKey]}
-                              </p>
+                              {isEditing ? (
+                                  <div className="pl-7">
+                                      <textarea
+                                          value={(editedIdea.businessFit as any)[item.descKey]}
+                                          onChange={(e) => handleNestedChange('businessFit', item.descKey, e.target.value)}
+                                          className="w-full text-sm text-slate-500 leading-relaxed p-2 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+                                          rows={3}
+                                      />
+                                  </div>
+                              ) : (
+                                  <p className="text-sm text-slate-500 leading-relaxed pl-7">
+                                      {(editedIdea.businessFit as any)[item.descKey]}
+                                  </p>
+                              )}
                           </div>
                       ))}
                    </div>
@@ -1043,15 +1367,33 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                       <div className="flex items-center gap-3 p-4 rounded-lg bg-slate-50">
                           <div className="w-8 h-8 rounded-full bg-[#FF4500] text-white flex items-center justify-center font-bold">r/</div>
                           <div className="flex-1">
-                              <div className="text-sm font-bold text-slate-700">Reddit</div>
-                              <div className="text-xs text-slate-500">{editedIdea.communitySignals.reddit}</div>
+                              <div className="text-sm font-bold text-slate-700 flex items-center gap-2">Reddit <ProvenanceBadge idea={editedIdea} field="communitySignals.reddit" /></div>
+                              {isEditing ? (
+                                  <textarea
+                                      value={editedIdea.communitySignals.reddit}
+                                      onChange={(e) => handleNestedChange('communitySignals', 'reddit', e.target.value)}
+                                      className="w-full text-xs text-slate-500 p-2 border border-slate-200 rounded focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+                                      rows={2}
+                                  />
+                              ) : (
+                                  <div className="text-xs text-slate-500">{editedIdea.communitySignals.reddit}</div>
+                              )}
                           </div>
                       </div>
                       <div className="flex items-center gap-3 p-4 rounded-lg bg-slate-50">
                           <div className="w-8 h-8 rounded-full bg-[#1877F2] text-white flex items-center justify-center"><ExternalLink size={14}/></div>
                           <div className="flex-1">
-                              <div className="text-sm font-bold text-slate-700">Facebook Groups</div>
-                              <div className="text-xs text-slate-500">{editedIdea.communitySignals.facebook}</div>
+                              <div className="text-sm font-bold text-slate-700 flex items-center gap-2">Facebook Groups <ProvenanceBadge idea={editedIdea} field="communitySignals.facebook" /></div>
+                              {isEditing ? (
+                                  <textarea
+                                      value={editedIdea.communitySignals.facebook}
+                                      onChange={(e) => handleNestedChange('communitySignals', 'facebook', e.target.value)}
+                                      className="w-full text-xs text-slate-500 p-2 border border-slate-200 rounded focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+                                      rows={2}
+                                  />
+                              ) : (
+                                  <div className="text-xs text-slate-500">{editedIdea.communitySignals.facebook}</div>
+                              )}
                           </div>
                       </div>
                       
@@ -1088,18 +1430,56 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                               <div className="text-xs font-normal text-red-100 mt-1 opacity-90 text-left">Dossier + AI Prompts</div>
                           </div>
                       </button>
+                      {editedIdea.savedReports && editedIdea.savedReports.length > 0 && (
+                          <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                              <input type="checkbox" checked={includeReportsInPdf} onChange={(e) => setIncludeReportsInPdf(e.target.checked)} />
+                              Append {editedIdea.savedReports.length} saved report{editedIdea.savedReports.length === 1 ? '' : 's'} to the PDF
+                          </label>
+                      )}
                   </div>
 
-                  <button 
-                      onClick={handleDownloadDossier}
-                      className="w-full bg-slate-800 hover:bg-slate-900 text-white py-4 rounded-xl font-bold text-base flex items-center justify-center gap-3 shadow-lg hover:shadow-xl transition-all group"
-                  >
-                      <FileDown size={20} className="text-slate-300 group-hover:text-white transition-colors" />
-                      <div>
-                          <div className="leading-none">Download Research Dossier</div>
-                          <div className="text-xs font-normal text-slate-400 mt-1 opacity-80">Includes Strategy, KPIs, & Full Analysis</div>
-                      </div>
-                  </button>
+                  <div className="flex flex-col gap-2">
+                      <button 
+                          onClick={handleExportPitchDeck}
+                          disabled={isBuildingDeck}
+                          className="w-full bg-amber-500 hover:bg-amber-600 text-white py-4 rounded-xl font-bold text-base flex items-center justify-center gap-3 shadow-lg hover:shadow-xl transition-all group disabled:opacity-70"
+                      >
+                          {isBuildingDeck
+                              ? <Loader2 size={20} className="text-amber-100 animate-spin" />
+                              : <Presentation size={20} className="text-amber-100 group-hover:text-white transition-colors" />}
+                          <div>
+                              <div className="leading-none">{isBuildingDeck ? 'Building Pitch Deck...' : 'Export Pitch Deck (PPTX)'}</div>
+                              <div className="text-xs font-normal text-amber-50 mt-1 opacity-90">Editable slides: problem, solution, value ladder, trend & KPIs</div>
+                          </div>
+                      </button>
+                      <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer">
+                          <input type="checkbox" checked={condenseDeck} onChange={(e) => setCondenseDeck(e.target.checked)} />
+                          Use AI to condense long sections into slide bullets
+                      </label>
+                  </div>
+
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <button 
+                          onClick={handleDownloadDossier}
+                          className="w-full bg-slate-800 hover:bg-slate-900 text-white py-4 rounded-xl font-bold text-base flex items-center justify-center gap-3 shadow-lg hover:shadow-xl transition-all group"
+                      >
+                          <FileDown size={20} className="text-slate-300 group-hover:text-white transition-colors" />
+                          <div>
+                              <div className="leading-none">Download Research Dossier</div>
+                              <div className="text-xs font-normal text-slate-400 mt-1 opacity-80">Includes Strategy, KPIs, & Full Analysis</div>
+                          </div>
+                      </button>
+                      <button 
+                          onClick={handleDownloadDossierDocx}
+                          className="w-full bg-blue-700 hover:bg-blue-800 text-white py-4 rounded-xl font-bold text-base flex items-center justify-center gap-3 shadow-lg hover:shadow-xl transition-all group"
+                      >
+                          <FileText size={20} className="text-blue-200 group-hover:text-white transition-colors" />
+                          <div>
+                              <div className="leading-none">Dossier for Word (DOCX)</div>
+                              <div className="text-xs font-normal text-blue-200 mt-1 opacity-80">Heading styles, tables, charts & sources</div>
+                          </div>
+                      </button>
+                  </div>
                   <button 
                       onClick={handleDownloadEverything}
                       className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white py-4 rounded-xl font-bold text-base flex items-center justify-center gap-3 shadow-lg hover:shadow-xl transition-all group border border-indigo-400/50"
@@ -1125,16 +1505,25 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                                       <h4 className="font-bold text-slate-800 text-sm">{report.title}</h4>
                                       <div className="text-xs text-slate-400 mt-1">{report.date}</div>
                                   </div>
-                                  <button 
-                                      onClick={() => {
-                                          setActiveModal('content');
-                                          setModalContent({ title: report.title, content: report.content });
-                                      }}
-                                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
-                                      title="View Report"
-                                  >
-                                      <Eye size={18} />
-                                  </button>
+                                  <div className="flex items-center gap-1">
+                                      <button 
+                                          onClick={() => handleDownloadReportDocx(report)}
+                                          className="p-2 text-slate-500 hover:bg-slate-50 rounded-full transition-colors"
+                                          title="Download for Word (DOCX)"
+                                      >
+                                          <FileDown size={18} />
+                                      </button>
+                                      <button 
+                                          onClick={() => {
+                                              setActiveModal('content');
+                                              setModalContent({ title: report.title, content: report.content });
+                                          }}
+                                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-full transition-colors"
+                                          title="View Report"
+                                      >
+                                          <Eye size={18} />
+                                      </button>
+                                  </div>
                               </div>
                           ))}
                       </div>
@@ -1144,30 +1533,96 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
       </div>
 
       {/* Modals */}
+      {isSnapshotOpen && <ShareSnapshotDialog idea={editedIdea} onClose={() => setIsSnapshotOpen(false)} />}
+      {isFinancialModelOpen && (
+        <FinancialModel
+          idea={editedIdea}
+          onClose={() => setIsFinancialModelOpen(false)}
+          onSave={(updatedIdea) => {
+            setEditedIdea(updatedIdea);
+            onUpdateIdea(updatedIdea);
+            setIsFinancialModelOpen(false);
+          }}
+        />
+      )}
+
       {activeModal && (
           <div className="fixed inset-1 bg-slate-900/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-              <div className="bg-white rounded-2xl w-full max-w-3xl h-[80vh] flex flex-col shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+              <div className={`bg-white rounded-2xl w-full ${activeModal === 'chat' ? 'max-w-5xl' : 'max-w-3xl'} h-[80vh] flex flex-col shadow-2xl animate-in fade-in zoom-in-95 duration-200`}>
                   
                   {/* Modal Header */}
                   <div className="p-4 border-b border-slate-100 flex justify-between items-center">
-                      <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                      <h3 className="font-bold text-slate-800 flex items-center gap-2 min-w-0">
                           {activeModal === 'chat' ? (
-                              <> <MessageSquare size={18} className="text-blue-600"/> Idea Consultant </>
+                              <>
+                                  <MessageSquare size={18} className="text-blue-600 shrink-0"/>
+                                  {renamingThread !== null ? (
+                                      <input
+                                          autoFocus
+                                          value={renamingThread}
+                                          onChange={(e) => setRenamingThread(e.target.value)}
+                                          onBlur={() => handleRenameThread(renamingThread)}
+                                          onKeyDown={(e) => {
+                                              if (e.key === 'Enter') handleRenameThread(renamingThread);
+                                              if (e.key === 'Escape') setRenamingThread(null);
+                                          }}
+                                          className="border-b border-slate-300 focus:border-blue-500 focus:outline-none bg-transparent font-bold w-72"
+                                      />
+                                  ) : (
+                                      <>
+                                          <span className="truncate">{activeThread?.title || 'Idea Consultant'}</span>
+                                          {activeThread && (
+                                              <button onClick={() => setRenamingThread(activeThread.title)} className="p-1 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600" title="Rename chat">
+                                                  <Pencil size={14} />
+                                              </button>
+                                          )}
+                                      </>
+                                  )}
+                              </>
                           ) : (
                               <> <Sparkles size={18} className="text-purple-600"/> {modalContent?.title} </>
                           )}
                       </h3>
                       <div className="flex items-center gap-2">
-                        {activeModal === 'chat' && chatMessages.length > 1 && (
+                        {activeModal === 'chat' && activeThread && activeThread.messages.length > 0 && (
+                            <>
+                                <button onClick={handleExportThread} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-blue-600" title="Export chat as markdown">
+                                    <Download size={18} />
+                                </button>
+                                <button onClick={() => handleDeleteThread(activeThread)} disabled={isStreaming} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-red-500 disabled:opacity-50" title="Delete chat">
+                                    <Trash2 size={18} />
+                                </button>
+                            </>
+                        )}
+                        {activeModal === 'chat' && chatMessages.length > 0 && (
                              <button onClick={handleForkIdea} className="px-3 py-1.5 bg-indigo-50 text-indigo-600 hover:bg-indigo-100 rounded-full text-sm font-bold flex items-center gap-1 transition-colors">
                                  <GitBranch size={16} /> Fork Idea
                              </button>
                         )}
                         {activeModal === 'content' && (
                             <div className="flex items-center gap-2">
+                                {modalContent?.cachedAt && !isGenerating && (
+                                    <span className="text-[10px] font-bold uppercase tracking-wider text-slate-400" title={`Served from cache, generated ${new Date(modalContent.cachedAt).toLocaleString()}`}>
+                                        Cached
+                                    </span>
+                                )}
+                                {modalContent?.onRegenerate && !isGenerating && !isStreaming && (
+                                    <button
+                                        onClick={modalContent.onRegenerate}
+                                        className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-purple-600"
+                                        title="Regenerate"
+                                    >
+                                        <RefreshCw size={18} />
+                                    </button>
+                                )}
+                                {isStreaming && (
+                                    <button onClick={handleStopStreaming} className="px-3 py-1.5 bg-red-50 text-red-600 hover:bg-red-100 rounded-full text-sm font-bold flex items-center gap-1 transition-colors">
+                                        <Square size={14} /> Stop
+                                    </button>
+                                )}
                                 <button 
                                     onClick={handleSaveReport}
-                                    disabled={isGenerating}
+                                    disabled={isGenerating || isStreaming}
                                     className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-green-600 disabled:opacity-50" 
                                     title="Save Report"
                                 >
@@ -1201,24 +1656,70 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                                 </div>
                             </div>
                         )}
-                        <button onClick={() => setActiveModal(null)} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600">
+                        <button onClick={handleCloseModal} className="p-2 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600">
                             <X size={20} />
                         </button>
                       </div>
                   </div>
 
+                  <div className="flex-1 flex min-h-0">
+                  {/* Chat Threads */}
+                  {activeModal === 'chat' && (
+                      <div className="w-64 shrink-0 border-r border-slate-100 flex flex-col">
+                          <div className="p-3 space-y-2 border-b border-slate-100">
+                              <button
+                                  onClick={() => idea && openThread(createChatThread(idea.id))}
+                                  disabled={isStreaming}
+                                  className="w-full bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-full text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+                              >
+                                  <Plus size={16} /> New chat
+                              </button>
+                              <div className="relative">
+                                  <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+                                  <input
+                                      type="text"
+                                      value={threadSearch}
+                                      onChange={(e) => setThreadSearch(e.target.value)}
+                                      placeholder="Search chats"
+                                      className="w-full bg-slate-50 border border-slate-200 rounded-full py-1.5 pl-8 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  />
+                              </div>
+                          </div>
+                          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                              {searchThreads(chatThreads, threadSearch).map(({ thread, snippet }) => (
+                                  <button
+                                      key={thread.id}
+                                      onClick={() => openThread(thread)}
+                                      disabled={isStreaming}
+                                      className={`w-full text-left px-3 py-2 rounded-lg text-sm disabled:opacity-50 ${activeThread?.id === thread.id ? 'bg-blue-50 text-blue-700' : 'text-slate-700 hover:bg-slate-50'}`}
+                                  >
+                                      <div className="font-medium truncate">{thread.title}</div>
+                                      <div className="text-xs text-slate-400 truncate">
+                                          {snippet || `${thread.messages.length} messages · ${new Date(thread.updatedAt).toLocaleDateString()}`}
+                                      </div>
+                                  </button>
+                              ))}
+                              {chatThreads.length === 0 && <p className="px-3 py-2 text-xs text-slate-400">Chats about this idea are saved here.</p>}
+                              {chatThreads.length > 0 && threadSearch && searchThreads(chatThreads, threadSearch).length === 0 && (
+                                  <p className="px-3 py-2 text-xs text-slate-400">No chats match "{threadSearch}".</p>
+                              )}
+                          </div>
+                      </div>
+                  )}
+
+                  <div className="flex-1 flex flex-col min-w-0">
                   {/* Modal Body */}
                   <div className="flex-1 overflow-y-auto p-6 bg-slate-50">
                       {activeModal === 'content' && (
-                          <div className="prose prose-sm max-w-none prose-slate">
+                          <div>
                               {isGenerating ? (
                                   <div className="flex flex-col items-center justify-center h-64 text-slate-500">
                                       <Loader2 size={32} className="animate-spin mb-4 text-blue-500" />
                                       <p>{modalContent?.content}</p>
                                   </div>
                               ) : (
-                                  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 whitespace-pre-wrap">
-                                      {modalContent?.content}
+                                  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+                                      <Markdown content={modalContent?.content || ''} />
                                   </div>
                               )}
                           </div>
@@ -1226,13 +1727,31 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
 
                       {activeModal === 'chat' && (
                           <div className="space-y-4">
-                              {chatMessages.map((msg, idx) => (
+                              {[{ role: 'model', text: `Hi! I'm ready to discuss "${idea?.title}". Ask me anything about execution, market risks, or strategy.` } as ChatMessage, ...chatMessages].map((msg, idx) => (
                                   <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                                       <div className={`max-w-[80%] p-4 rounded-2xl ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-br-none' : 'bg-white border border-slate-200 text-slate-700 rounded-bl-none shadow-sm'}`}>
-                                          <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
+                                          {msg.text && msg.role === 'model' ? (
+                                              <Markdown content={msg.text} compact collapsible={false} />
+                                          ) : msg.text ? (
+                                              <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.text}</p>
+                                          ) : (
+                                              <Loader2 size={16} className="animate-spin text-slate-400" />
+                                          )}
                                       </div>
                                   </div>
-                              ))}
+                              )).flatMap((message, idx) => [message, ...chatEdits
+                                  .filter(item => item.afterMessage === idx - 1)
+                                  .map(item => (
+                                      <div key={item.edit.id} className="flex justify-start">
+                                          <IdeaEditCard
+                                              edit={item.edit}
+                                              status={item.status}
+                                              acceptBlocked={isEditing ? 'Save or cancel your edits before applying changes from the chat.' : undefined}
+                                              onAccept={() => handleResolveEdit(item.edit, true)}
+                                              onReject={() => handleResolveEdit(item.edit, false)}
+                                          />
+                                      </div>
+                                  ))])}
                               <div ref={chatEndRef}></div>
                           </div>
                       )}
@@ -1246,20 +1765,33 @@ ${sources && sources.length > 0 ? sources.map(s => `* [${s.title}](${s.uri})`).j
                                   type="text" 
                                   value={chatInput}
                                   onChange={(e) => setChatInput(e.target.value)}
-                                  onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
-                                  placeholder="Ask about competitors, risks, or execution..."
-                                  className="w-full bg-slate-50 border border-slate-200 rounded-full py-3 pl-4 pr-12 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                                  onKeyDown={(e) => e.key === 'Enter' && !isStreaming && handleSendMessage()}
+                                  disabled={!!chatTurn}
+                                  placeholder={chatTurn ? "Accept or reject the proposed changes to continue" : "Ask about competitors, risks, or execution..."}
+                                  className="w-full bg-slate-50 border border-slate-200 rounded-full py-3 pl-4 pr-12 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:cursor-not-allowed"
                               />
-                              <button 
-                                  onClick={handleSendMessage}
-                                  disabled={!chatInput.trim()}
-                                  className="absolute right-2 p-1.5 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                              >
-                                  <Send size={16} />
-                              </button>
+                              {isStreaming ? (
+                                  <button 
+                                      onClick={handleStopStreaming}
+                                      className="absolute right-2 p-1.5 bg-red-500 text-white rounded-full hover:bg-red-600 transition-colors"
+                                      title="Stop generating"
+                                  >
+                                      <Square size={16} />
+                                  </button>
+                              ) : (
+                                  <button 
+                                      onClick={handleSendMessage}
+                                      disabled={!chatInput.trim() || !!chatTurn}
+                                      className="absolute right-2 p-1.5 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                  >
+                                      <Send size={16} />
+                                  </button>
+                              )}
                           </div>
                       </div>
                   )}
+                  </div>
+                  </div>
               </div>
           </div>
       )}
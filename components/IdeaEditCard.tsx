@@ -0,0 +1,43 @@
+import React, { useMemo } from 'react';
+import { Check, X, Wand2 } from 'lucide-react';
+import { IdeaEdit, diffWords } from '../services/ideaEdits';
+
+interface IdeaEditCardProps {
+  edit: IdeaEdit;
+  status: 'pending' | 'accepted' | 'rejected';
+  /** Why Accept is unavailable right now, shown on the disabled button */
+  acceptBlocked?: string;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+export const IdeaEditCard: React.FC<IdeaEditCardProps> = ({ edit, status, acceptBlocked, onAccept, onReject }) => {
+  const segments = useMemo(() => diffWords(edit.before, edit.after), [edit.before, edit.after]);
+
+  return (
+    <div className={`bg-white border rounded-2xl p-4 shadow-sm max-w-[80%] ${status === 'pending' ? 'border-indigo-200' : 'border-slate-200 opacity-70'}`}>
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <span className="text-xs font-bold text-indigo-600 uppercase tracking-wider flex items-center gap-1"><Wand2 size={12} /> {edit.label}</span>
+        {status === 'pending' ? (
+          <div className="flex gap-1">
+            <button onClick={onReject} className="px-2.5 py-1 text-xs font-bold text-slate-500 hover:bg-slate-100 rounded-full flex items-center gap-1"><X size={12} /> Reject</button>
+            <button onClick={onAccept} disabled={!!acceptBlocked} title={acceptBlocked} className="px-2.5 py-1 text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-full flex items-center gap-1"><Check size={12} /> Accept</button>
+          </div>
+        ) : (
+          <span className={`text-xs font-bold ${status === 'accepted' ? 'text-green-600' : 'text-slate-400'}`}>{status === 'accepted' ? 'Applied' : 'Rejected'}</span>
+        )}
+      </div>
+      {edit.rationale && <p className="text-xs text-slate-500 mb-2">{edit.rationale}</p>}
+      <p className="text-sm leading-relaxed whitespace-pre-wrap bg-slate-50 rounded-lg p-3 max-h-64 overflow-y-auto">
+        {segments.map((segment, idx) => (
+          <span
+            key={idx}
+            className={segment.type === 'added' ? 'bg-green-100 text-green-800' : segment.type === 'removed' ? 'bg-red-100 text-red-700 line-through' : 'text-slate-700'}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+    </div>
+  );
+};
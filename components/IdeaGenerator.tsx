@@ -1,7 +1,10 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Sparkles, ArrowRight, Loader2, Zap, Search, Globe } from 'lucide-react';
 import { generateBusinessIdea, analyzeUserIdea } from '../services/geminiService';
+import { IdeaParseError, IdeaValidationError } from '../services/ideaValidation';
+import { AIUnavailableError } from '../services/requestScheduler';
+import { isAbortError } from '../services/aiProvider';
 import { BusinessIdea } from '../types';
 
 interface IdeaGeneratorProps {
@@ -13,17 +16,29 @@ export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ onIdeaGenerated })
   const [loadingStatus, setLoadingStatus] = useState<string | null>(null);
   const [mode, setMode] = useState<'trend' | 'topic' | null>(null);
   const [topicInput, setTopicInput] = useState('');
+  const requestRef = useRef<AbortController | null>(null);
+
+  // Leaving the generator cancels the request instead of navigating back to its result later
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const startRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = new AbortController();
+    return requestRef.current;
+  };
 
   const handleTrendGenerate = async () => {
+    const controller = startRequest();
     setLoading(true);
     setLoadingStatus("Initializing Advanced Trend Analysis Module...");
     setMode('trend');
     try {
-      const idea = await generateBusinessIdea((status) => setLoadingStatus(status));
+      const idea = await generateBusinessIdea((status) => setLoadingStatus(status), controller.signal);
       onIdeaGenerated(idea);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
-      alert("Something went wrong generating the idea. Please try again.");
+      alert(e instanceof IdeaValidationError || e instanceof IdeaParseError || e instanceof AIUnavailableError ? e.message : "Something went wrong generating the idea. Please try again.");
       setLoading(false);
       setLoadingStatus(null);
       setMode(null);
@@ -32,14 +47,16 @@ export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ onIdeaGenerated })
 
   const handleTopicGenerate = async () => {
     if (!topicInput.trim()) return;
+    const controller = startRequest();
     setLoading(true);
     setMode('topic');
     try {
-      const idea = await analyzeUserIdea(topicInput);
+      const idea = await analyzeUserIdea(topicInput, undefined, controller.signal);
       onIdeaGenerated(idea);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
-      alert("Something went wrong analyzing your topic. Please try again.");
+      alert(e instanceof IdeaValidationError || e instanceof IdeaParseError || e instanceof AIUnavailableError ? e.message : "Something went wrong analyzing your topic. Please try again.");
       setLoading(false);
       setMode(null);
     }
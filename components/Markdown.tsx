@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { Check, ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { HeadingLevel, MarkdownBlock, MarkdownInline, MarkdownList, MarkdownSection, groupSections, parseMarkdown } from '../services/markdown';
+
+interface MarkdownProps {
+  content: string;
+  compact?: boolean; // Smaller type for chat bubbles
+  collapsible?: boolean; // Headings fold their section
+  className?: string;
+}
+
+const HEADING_STYLES: Record<HeadingLevel, string> = {
+  1: 'text-2xl font-serif font-bold text-slate-900',
+  2: 'text-xl font-serif font-bold text-slate-900',
+  3: 'text-lg font-bold text-slate-900',
+  4: 'text-base font-bold text-slate-800',
+  5: 'text-sm font-bold text-slate-800',
+  6: 'text-sm font-bold text-slate-600',
+};
+
+const ALIGN_STYLES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+const Inline: React.FC<{ nodes: MarkdownInline[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, idx) => {
+      switch (node.type) {
+        case 'text': return <React.Fragment key={idx}>{node.text}</React.Fragment>;
+        case 'strong': return <strong key={idx} className="font-bold"><Inline nodes={node.children} /></strong>;
+        case 'em': return <em key={idx}><Inline nodes={node.children} /></em>;
+        case 'strike': return <del key={idx}><Inline nodes={node.children} /></del>;
+        case 'code': return <code key={idx} className="bg-slate-100 text-pink-700 rounded px-1 py-0.5 text-[0.9em] font-mono">{node.text}</code>;
+        case 'link': return <a key={idx} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline"><Inline nodes={node.children} /></a>;
+        case 'break': return <br key={idx} />;
+      }
+    })}
+  </>
+);
+
+const CodeBlock: React.FC<{ lang: string; text: string }> = ({ lang, text }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="rounded-xl overflow-hidden border border-slate-800 bg-slate-900 my-3">
+      <div className="flex items-center justify-between px-4 py-1.5 bg-slate-800 text-slate-400 text-xs">
+        <span className="font-mono">{lang || 'text'}</span>
+        <button onClick={handleCopy} className="flex items-center gap-1 hover:text-white transition-colors">
+          {copied ? <><Check size={12} /> Copied</> : <><Copy size={12} /> Copy</>}
+        </button>
+      </div>
+      <pre className="p-4 overflow-x-auto text-sm text-slate-100 font-mono leading-relaxed"><code>{text}</code></pre>
+    </div>
+  );
+};
+
+const List: React.FC<{ list: MarkdownList }> = ({ list }) => {
+  const items = list.items.map((item, idx) => (
+    <li key={idx} className={item.checked !== undefined ? 'list-none -ml-5 flex gap-2 items-start' : ''}>
+      {item.checked !== undefined && <input type="checkbox" checked={item.checked} readOnly className="mt-1.5" />}
+      <span>
+        <Inline nodes={item.children} />
+        {item.sublist && <List list={item.sublist} />}
+      </span>
+    </li>
+  ));
+  return list.ordered
+    ? <ol start={list.start} className="list-decimal pl-6 space-y-1 my-2">{items}</ol>
+    : <ul className="list-disc pl-6 space-y-1 my-2">{items}</ul>;
+};
+
+const Block: React.FC<{ block: MarkdownBlock }> = ({ block }) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag: React.ElementType = `h${block.level}`;
+      return <Tag className={`${HEADING_STYLES[block.level]} mt-5 mb-2`}><Inline nodes={block.children} /></Tag>;
+    }
+    case 'paragraph':
+      return <p className="my-2 leading-relaxed"><Inline nodes={block.children} /></p>;
+    case 'code':
+      return <CodeBlock lang={block.lang} text={block.text} />;
+    case 'quote':
+      return (
+        <blockquote className="border-l-4 border-slate-200 pl-4 my-3 text-slate-600 italic">
+          {block.children.map((child, idx) => <Block key={idx} block={child} />)}
+        </blockquote>
+      );
+    case 'table':
+      return (
+        <div className="overflow-x-auto my-3 border border-slate-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr>
+                {block.header.map((cell, col) => (
+                  <th key={col} className={`px-3 py-2 font-bold text-slate-700 border-b border-slate-200 ${ALIGN_STYLES[block.align[col] || 'left']}`}><Inline nodes={cell} /></th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {block.rows.map((row, rowIdx) => (
+                <tr key={rowIdx}>
+                  {row.map((cell, col) => (
+                    <td key={col} className={`px-3 py-2 text-slate-700 align-top ${ALIGN_STYLES[block.align[col] || 'left']}`}><Inline nodes={cell} /></td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'hr':
+      return <hr className="my-6 border-slate-200" />;
+    case 'list':
+      return <List list={block} />;
+  }
+};
+
+const Section: React.FC<{ section: MarkdownSection }> = ({ section }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const heading = section.heading;
+  const body = (
+    <>
+      {section.blocks.map((block, idx) => <Block key={idx} block={block} />)}
+      {section.sections.map((child, idx) => <Section key={idx} section={child} />)}
+    </>
+  );
+  if (!heading) return body;
+
+  const Tag: React.ElementType = `h${heading.level}`;
+  return (
+    <section>
+      <Tag className={`${HEADING_STYLES[heading.level]} mt-5 mb-2`}>
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className="flex items-center gap-1.5 text-left w-full group"
+          aria-expanded={!collapsed}
+          title={collapsed ? 'Expand section' : 'Collapse section'}
+        >
+          <span className="text-slate-300 group-hover:text-slate-500 shrink-0">{collapsed ? <ChevronRight size={16} /> : <ChevronDown size={16} />}</span>
+          <span><Inline nodes={heading.children} /></span>
+        </button>
+      </Tag>
+      {!collapsed && body}
+    </section>
+  );
+};
+
+/**
+ * Renders model output written in markdown. Everything becomes React elements,
+ * so any HTML in the text shows up as text instead of running.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({ content, compact, collapsible = true, className = '' }) => {
+  const blocks: MarkdownBlock[] = useMemo(() => parseMarkdown(content || ''), [content]);
+  const root: MarkdownSection | null = useMemo(() => collapsible ? groupSections(blocks) : null, [blocks, collapsible]);
+
+  return (
+    <div className={`${compact ? 'text-sm' : 'text-base'} text-slate-700 break-words [&>*:first-child]:mt-0 ${className}`}>
+      {root
+        ? <Section section={root} />
+        : blocks.map((block, idx) => <Block key={idx} block={block} />)}
+    </div>
+  );
+};
@@ -1,10 +1,17 @@
 
-import React, { useState, useRef } from 'react';
-import { ArrowLeft, ArrowRight, PlusCircle, Sparkles, X, Loader2, Image as ImageIcon, Video, Paperclip, Trash2 } from 'lucide-react';
-import { BusinessIdea } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { ArrowLeft, ArrowRight, PlusCircle, Sparkles, X, Loader2, Image as ImageIcon, Video, Paperclip, Trash2, FileArchive, BookOpen, Sheet, RotateCcw } from 'lucide-react';
+import { BusinessIdea, DraftIdea } from '../types';
 import { TrendChart } from './TrendChart';
+import { WorkspaceTransfer } from './WorkspaceTransfer';
+import { VaultExportDialog } from './VaultExportDialog';
+import { PortfolioSpreadsheet } from './PortfolioSpreadsheet';
 import { MOCK_DRAFTS } from '../constants';
 import { analyzeUserIdea } from '../services/geminiService';
+import { IdeaParseError, IdeaValidationError } from '../services/ideaValidation';
+import { AIUnavailableError } from '../services/requestScheduler';
+import { isAbortError } from '../services/aiProvider';
+import { getImportQueue, removeDraft, retryDraft, subscribeToImportQueue } from '../services/ideaImportQueue';
 
 interface MyIdeasProps {
   onNavigateHome: () => void;
@@ -12,14 +19,34 @@ interface MyIdeasProps {
   ideas: BusinessIdea[];
   onAddIdea: (idea: BusinessIdea) => void;
   onDeleteIdea: (id: string) => void;
+  history: BusinessIdea[];
+  onImportWorkspace: (savedIdeas: BusinessIdea[], history: BusinessIdea[]) => void;
 }
 
-export const MyIdeas: React.FC<MyIdeasProps> = ({ onNavigateHome, onSelectIdea, ideas, onAddIdea, onDeleteIdea }) => {
+export const MyIdeas: React.FC<MyIdeasProps> = ({ onNavigateHome, onSelectIdea, ideas, onAddIdea, onDeleteIdea, history, onImportWorkspace }) => {
   const [view, setView] = useState<'list' | 'new'>('list');
+  const [showArchive, setShowArchive] = useState(false);
+  const [showVault, setShowVault] = useState(false);
+  const [showSpreadsheet, setShowSpreadsheet] = useState(false);
+  const [drafts, setDrafts] = useState<DraftIdea[]>(getImportQueue());
   const [input, setInput] = useState('');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [selectedFile, setSelectedFile] = useState<{file: File, preview: string} | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const analysisRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => analysisRef.current?.abort(), []);
+
+  useEffect(() => subscribeToImportQueue(setDrafts), []);
+  const showingImports = drafts.length > 0;
+
+  // Going back to the list abandons the analysis rather than adding its result later
+  const handleBackToList = () => {
+    analysisRef.current?.abort();
+    analysisRef.current = null;
+    setIsAnalyzing(false);
+    setView('list');
+  };
 
   const fileToGenerativePart = async (file: File): Promise<{data: string, mimeType: string}> => {
     return new Promise((resolve, reject) => {
@@ -49,22 +76,29 @@ export const MyIdeas: React.FC<MyIdeasProps> = ({ onNavigateHome, onSelectIdea,
   const handleAnalyze = async () => {
      if (!input.trim() && !selectedFile) return;
      
+     analysisRef.current?.abort();
+     const controller = new AbortController();
+     analysisRef.current = controller;
      setIsAnalyzing(true);
      try {
         let mediaPart;
         if (selectedFile) {
             mediaPart = await fileToGenerativePart(selectedFile.file);
         }
-        const idea = await analyzeUserIdea(input, mediaPart);
+        const idea = await analyzeUserIdea(input, mediaPart, controller.signal);
         onAddIdea(idea);
         setView('list');
         setInput('');
         setSelectedFile(null);
      } catch (e) {
+        if (isAbortError(e)) return;
         console.error(e);
-        alert("Failed to analyze idea. Please check your API key or try again.");
+        alert(e instanceof IdeaValidationError || e instanceof IdeaParseError || e instanceof AIUnavailableError ? e.message : "Failed to analyze idea. Please check your API key or try again.");
      } finally {
-        setIsAnalyzing(false);
+        if (analysisRef.current === controller) {
+          analysisRef.current = null;
+          setIsAnalyzing(false);
+        }
      }
   }
 
@@ -85,7 +119,7 @@ export const MyIdeas: React.FC<MyIdeasProps> = ({ onNavigateHome, onSelectIdea,
           </div>
 
           <button 
-            onClick={() => setView('list')} 
+            onClick={handleBackToList} 
             className="absolute top-8 left-8 text-slate-400 hover:text-slate-800 transition-colors z-10"
           >
               <ArrowLeft size={24} />
@@ -193,14 +227,58 @@ export const MyIdeas: React.FC<MyIdeasProps> = ({ onNavigateHome, onSelectIdea,
                    <p className="text-slate-500 text-sm mt-1">Manage and track your business ideas</p>
                </div>
            </div>
-           <button 
-              onClick={() => setView('new')}
-              className="bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-full text-sm font-medium flex items-center gap-2 shadow-lg shadow-indigo-200 transition-all"
-            >
-               <PlusCircle size={16} /> New Idea
-           </button>
+           <div className="flex items-center gap-3">
+               <button 
+                  onClick={() => setShowSpreadsheet(true)}
+                  className="border border-slate-200 text-slate-600 hover:bg-slate-50 px-5 py-2 rounded-full text-sm font-medium flex items-center gap-2 transition-all"
+                >
+                   <Sheet size={16} /> Spreadsheet
+               </button>
+               <button 
+                  onClick={() => setShowVault(true)}
+                  className="border border-slate-200 text-slate-600 hover:bg-slate-50 px-5 py-2 rounded-full text-sm font-medium flex items-center gap-2 transition-all"
+                >
+                   <BookOpen size={16} /> Markdown Vault
+               </button>
+               <button 
+                  onClick={() => setShowArchive(true)}
+                  className="border border-slate-200 text-slate-600 hover:bg-slate-50 px-5 py-2 rounded-full text-sm font-medium flex items-center gap-2 transition-all"
+                >
+                   <FileArchive size={16} /> Export / Import
+               </button>
+               <button 
+                  onClick={() => setView('new')}
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-5 py-2 rounded-full text-sm font-medium flex items-center gap-2 shadow-lg shadow-indigo-200 transition-all"
+                >
+                   <PlusCircle size={16} /> New Idea
+               </button>
+           </div>
        </div>
 
+       {showArchive && (
+           <WorkspaceTransfer
+               savedIdeas={ideas}
+               history={history}
+               onImported={onImportWorkspace}
+               onClose={() => setShowArchive(false)}
+           />
+       )}
+
+       {showVault && (
+           <VaultExportDialog
+               savedIdeas={ideas}
+               history={history}
+               onClose={() => setShowVault(false)}
+           />
+       )}
+
+       {showSpreadsheet && (
+           <PortfolioSpreadsheet
+               ideas={ideas}
+               onClose={() => setShowSpreadsheet(false)}
+           />
+       )}
+
        {/* Researched Ideas Section */}
        <div className="mb-16">
            <h2 className="text-xl font-serif text-slate-800 mb-6">Researched Ideas</h2>
@@ -308,22 +386,39 @@ export const MyIdeas: React.FC<MyIdeasProps> = ({ onNavigateHome, onSelectIdea,
        <div>
            <h2 className="text-xl font-serif text-slate-800 mb-6">Other Ideas</h2>
            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-               {MOCK_DRAFTS.map((draft) => (
+               {/* Imported drafts replace the examples once there are any */}
+               {(showingImports ? drafts : MOCK_DRAFTS).map((draft) => (
                    <div key={draft.id} className="bg-white rounded-xl border border-slate-100 shadow-sm hover:shadow-md transition-all p-5">
                        <div className="flex items-start gap-4 mb-4">
                            <div className="w-10 h-10 rounded-lg bg-slate-100 flex items-center justify-center text-blue-500">
-                               <Sparkles size={18} />
+                               {draft.status === 'Research queued' && showingImports ? <Loader2 size={18} className="animate-spin" /> : <Sparkles size={18} />}
                            </div>
                            <div className="flex-1">
                                <h3 className="text-sm font-bold text-slate-800 leading-tight mb-2">{draft.title}</h3>
                                <span className={`inline-flex px-2 py-0.5 rounded text-[10px] font-medium ${
-                                   draft.status === 'Research queued' ? 'bg-purple-100 text-purple-700' : 'bg-slate-100 text-slate-500'
+                                   draft.status === 'Research queued' ? 'bg-purple-100 text-purple-700'
+                                   : draft.status === 'Researched' ? 'bg-green-100 text-green-700'
+                                   : draft.error ? 'bg-red-50 text-red-600' : 'bg-slate-100 text-slate-500'
                                }`}>
-                                   {draft.status}
+                                   {draft.error ? 'Research failed' : draft.status}
                                </span>
+                               {draft.error && <p className="text-[11px] text-red-500 mt-2">{draft.error}</p>}
                            </div>
                        </div>
-                       <div className="text-xs text-slate-400">{draft.createdAt}</div>
+                       <div className="flex items-center justify-between text-xs text-slate-400">
+                           <span>{draft.createdAt}</span>
+                           {showingImports && (
+                               <div className="flex items-center gap-3">
+                                   {draft.status === 'Researched' && ideas.some(idea => idea.id === draft.ideaId) && (
+                                       <button onClick={() => onSelectIdea(ideas.find(idea => idea.id === draft.ideaId)!)} className="text-blue-600 font-bold hover:underline">View</button>
+                                   )}
+                                   {draft.status === 'Not started' && (
+                                       <button onClick={() => retryDraft(draft.id)} className="hover:text-blue-600" title="Queue for research"><RotateCcw size={14} /></button>
+                                   )}
+                                   <button onClick={() => removeDraft(draft.id)} className="hover:text-red-500" title="Remove draft"><Trash2 size={14} /></button>
+                               </div>
+                           )}
+                       </div>
                    </div>
                ))}
            </div>
@@ -0,0 +1,187 @@
+import React, { useRef, useState } from 'react';
+import { X, Download, Upload, Sheet, ListPlus } from 'lucide-react';
+import { BusinessIdea } from '../types';
+import {
+  ColumnMapping, ParsedSheet, PortfolioFormat, SpreadsheetError, exportPortfolio, guessColumnMapping, mapRows, readSpreadsheet
+} from '../services/portfolioSpreadsheet';
+import { queueIdeas } from '../services/ideaImportQueue';
+
+interface PortfolioSpreadsheetProps {
+  ideas: BusinessIdea[];
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export const PortfolioSpreadsheet: React.FC<PortfolioSpreadsheetProps> = ({ ideas, onClose }) => {
+  const [pending, setPending] = useState<{ sheet: ParsedSheet; fileName: string } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({ title: 0, description: -1 });
+  const [queuedCount, setQueuedCount] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = (format: PortfolioFormat) => {
+    try {
+      const blob = exportPortfolio(ideas, format);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `ideabrowser_portfolio_${new Date().toISOString().slice(0, 10)}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Portfolio export failed", e);
+      alert("Failed to export the portfolio.");
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setQueuedCount(null);
+    try {
+      const sheet = readSpreadsheet(await file.arrayBuffer());
+      setPending({ sheet, fileName: file.name });
+      setMapping(guessColumnMapping(sheet.headers));
+    } catch (err) {
+      console.error("Failed to read spreadsheet", err);
+      alert(err instanceof SpreadsheetError ? err.message : "Could not read that file.");
+    }
+  };
+
+  const rows = pending ? mapRows(pending.sheet, mapping) : [];
+
+  const handleQueue = () => {
+    setQueuedCount(queueIdeas(rows).length);
+    setPending(null);
+  };
+
+  const columnSelect = (value: number, onChange: (col: number) => void, allowNone: boolean) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    >
+      {allowNone && <option value={-1}>None</option>}
+      {pending?.sheet.headers.map((header, col) => <option key={col} value={col}>{header}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2"><Sheet size={20} className="text-indigo-500" /> Portfolio Spreadsheet</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-bold text-slate-900">Export</h3>
+              <p className="text-xs text-slate-500 mt-1">
+                {ideas.length} saved ideas, one row each, with KPI scores, business fit, trend data and tags.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {(['csv', 'xlsx'] as PortfolioFormat[]).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={ideas.length === 0}
+                  className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 disabled:opacity-50 whitespace-nowrap"
+                >
+                  <Download size={16} /> {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="border-t border-slate-100 pt-6">
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <div>
+                <h3 className="font-bold text-slate-900">Import</h3>
+                <p className="text-xs text-slate-500 mt-1">Queue a sheet of idea titles and descriptions for research. They appear under Other Ideas until each one is analyzed.</p>
+              </div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="border border-slate-200 text-slate-700 px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 hover:bg-slate-50 whitespace-nowrap"
+              >
+                <Upload size={16} /> Choose File
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx,.xls,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </div>
+
+            {pending && (
+              <div className="bg-slate-50 rounded-xl p-4 space-y-4">
+                <p className="text-sm text-slate-700">
+                  <span className="font-bold">{pending.fileName}</span>: {pending.sheet.rows.length} rows
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="text-xs font-bold text-slate-500">
+                    Title column
+                    <div className="mt-1">{columnSelect(mapping.title, col => setMapping({ ...mapping, title: col }), false)}</div>
+                  </label>
+                  <label className="text-xs font-bold text-slate-500">
+                    Description column
+                    <div className="mt-1">{columnSelect(mapping.description, col => setMapping({ ...mapping, description: col }), true)}</div>
+                  </label>
+                </div>
+
+                <div className="border border-slate-200 rounded-lg overflow-hidden bg-white">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-bold text-slate-700 w-1/3">Title</th>
+                        <th className="px-3 py-2 text-left font-bold text-slate-700">Description</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {rows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                        <tr key={idx}>
+                          <td className="px-3 py-2 text-slate-800 align-top">{row.title}</td>
+                          <td className="px-3 py-2 text-slate-500 align-top line-clamp-2">{row.description || <span className="italic">None</span>}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {rows.length > PREVIEW_ROWS && (
+                    <div className="px-3 py-2 text-xs text-slate-400 border-t border-slate-100">and {rows.length - PREVIEW_ROWS} more</div>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-slate-500">
+                    {pending.sheet.rows.length - rows.length > 0 && `${pending.sheet.rows.length - rows.length} rows without a title will be skipped.`}
+                  </span>
+                  <div className="flex gap-2">
+                    <button onClick={() => setPending(null)} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">Cancel</button>
+                    <button
+                      onClick={handleQueue}
+                      disabled={rows.length === 0}
+                      className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <ListPlus size={16} /> Queue {rows.length} for research
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {queuedCount !== null && (
+              <p className="text-sm text-slate-700">{queuedCount} ideas queued. Research runs one at a time in the background.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Globe, Sparkles, CircleDashed, Pencil } from 'lucide-react';
+import { BusinessIdea, ProvenanceSource } from '../types';
+import { PROVENANCE_LABELS, ProvenanceField, getProvenance } from '../services/provenance';
+
+interface ProvenanceBadgeProps {
+  idea: BusinessIdea;
+  field: ProvenanceField;
+  className?: string;
+}
+
+const BADGE_STYLES: Record<ProvenanceSource, { className: string; icon: React.ReactNode; title: string }> = {
+  grounded: { className: 'bg-green-50 text-green-700 border-green-200', icon: <Globe size={10} />, title: 'Backed by live search results' },
+  estimate: { className: 'bg-amber-50 text-amber-700 border-amber-200', icon: <Sparkles size={10} />, title: 'Model estimate without a direct source' },
+  default: { className: 'bg-slate-100 text-slate-500 border-slate-200', icon: <CircleDashed size={10} />, title: 'Placeholder value filled in by the app' },
+  user: { className: 'bg-blue-50 text-blue-700 border-blue-200', icon: <Pencil size={10} />, title: 'Edited by you' },
+};
+
+export const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ idea, field, className = '' }) => {
+  const entry = getProvenance(idea, field);
+  if (!entry) return null;
+
+  const style = BADGE_STYLES[entry.source];
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase tracking-wider whitespace-nowrap ${style.className} ${className}`}
+      title={`${style.title} (${new Date(entry.updatedAt).toLocaleString()})`}
+    >
+      {style.icon} {PROVENANCE_LABELS[entry.source]}
+    </span>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Circle, Square, Download, Upload, Play, Trash2, Disc } from 'lucide-react';
+import { AIProviderId, getActiveProviderId, setActiveProvider, subscribeToProvider } from '../services/aiProvider';
+import {
+  clearRecording, exportRecording, getRecordedInteractions, getReplayFixture, isRecording, parseSessionFixture,
+  setReplayFixture, startRecording, stopRecording, subscribeToRecording
+} from '../services/sessionRecording';
+
+export const SessionRecorder: React.FC = () => {
+  const [recording, setRecording] = useState(isRecording());
+  const [captured, setCaptured] = useState(getRecordedInteractions().length);
+  const [fixture, setFixture] = useState(getReplayFixture());
+  const [providerId, setProviderId] = useState<AIProviderId>(getActiveProviderId());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => subscribeToRecording(() => {
+    setRecording(isRecording());
+    setCaptured(getRecordedInteractions().length);
+    setFixture(getReplayFixture());
+  }), []);
+
+  useEffect(() => subscribeToProvider(setProviderId), []);
+
+  const handleDownload = () => {
+    const blob = new Blob([JSON.stringify(exportRecording(providerId), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `session_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoadFixture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplayFixture(parseSessionFixture(await file.text()));
+      setActiveProvider('replay');
+    } catch (err) {
+      console.error("Failed to load recorded session", err);
+      alert(err instanceof Error ? err.message : "Could not load that recording.");
+    }
+  };
+
+  const handleEjectFixture = () => {
+    if (providerId === 'replay') setActiveProvider('mock');
+    setReplayFixture(null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div>
+          <h2 className="font-bold text-slate-900 mb-1 flex items-center gap-2"><Disc size={16} className="text-slate-400" /> Record &amp; Replay</h2>
+          <p className="text-xs text-slate-500 max-w-xl">
+            Record real model responses (including sources and tool calls) to a session file, then replay that file offline. Replays are deterministic and make no API calls.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {recording ? (
+            <button onClick={stopRecording} className="bg-red-50 text-red-600 border border-red-200 px-3 py-1.5 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-red-100">
+              <Square size={14} /> Stop ({captured})
+            </button>
+          ) : (
+            <button
+              onClick={startRecording}
+              disabled={providerId === 'replay'}
+              title={providerId === 'replay' ? 'Switch to live AI or demo mode to record' : undefined}
+              className="border border-slate-200 text-slate-700 px-3 py-1.5 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Circle size={14} className="text-red-500" /> Record
+            </button>
+          )}
+          <button
+            onClick={handleDownload}
+            disabled={captured === 0}
+            className="border border-slate-200 text-slate-700 px-3 py-1.5 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-50 disabled:opacity-50"
+          >
+            <Download size={14} /> Download
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="border border-slate-200 text-slate-700 px-3 py-1.5 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-50"
+          >
+            <Upload size={14} /> Load &amp; Replay
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleLoadFixture} />
+          <button
+            onClick={clearRecording}
+            disabled={captured === 0 || recording}
+            className="text-slate-500 hover:text-red-500 text-sm font-medium flex items-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <Trash2 size={14} /> Discard
+          </button>
+        </div>
+      </div>
+      {fixture && (
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-2 bg-purple-50 border border-purple-100 rounded-lg px-4 py-2 text-xs text-purple-800">
+          <span className="flex items-center gap-2">
+            <Play size={12} />
+            Loaded session from {new Date(fixture.recordedAt).toLocaleString()} with {fixture.interactions.length} responses
+            {providerId === 'replay' ? ' (replaying)' : ''}
+          </span>
+          <span className="flex items-center gap-3">
+            {providerId !== 'replay' && (
+              <button onClick={() => setActiveProvider('replay')} className="font-bold hover:underline">Replay</button>
+            )}
+            <button onClick={handleEjectFixture} className="font-bold hover:underline">Unload</button>
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { X, Link2, Download, Loader2, Camera } from 'lucide-react';
+import { BusinessIdea } from '../types';
+import {
+  DEFAULT_STRIPPED_FIELDS, MAX_LINK_PAYLOAD_CHARS, SENSITIVE_FIELDS, SensitiveField, SnapshotError,
+  createSnapshot, createSnapshotLink, renderSnapshotHtml
+} from '../services/shareSnapshot';
+
+interface ShareSnapshotDialogProps {
+  idea: BusinessIdea;
+  onClose: () => void;
+}
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+export const ShareSnapshotDialog: React.FC<ShareSnapshotDialogProps> = ({ idea, onClose }) => {
+  const [reportIndexes, setReportIndexes] = useState<number[]>([]);
+  const [strip, setStrip] = useState<SensitiveField[]>(DEFAULT_STRIPPED_FIELDS);
+  const [link, setLink] = useState<{ url: string | null; payloadChars: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLink(null);
+    setError(null);
+    createSnapshotLink(createSnapshot(idea, { reportIndexes, strip }))
+      .then(result => { if (!cancelled) setLink(result); })
+      .catch(e => {
+        console.error("Failed to build snapshot", e);
+        if (!cancelled) setError(e instanceof SnapshotError ? e.message : "Could not build the snapshot.");
+      });
+    return () => { cancelled = true; };
+  }, [idea, reportIndexes, strip]);
+
+  const handleCopyLink = () => {
+    if (!link?.url) return;
+    navigator.clipboard.writeText(link.url);
+    alert("Snapshot link copied to clipboard!");
+  };
+
+  const handleDownload = () => {
+    try {
+      const html = renderSnapshotHtml(createSnapshot(idea, { reportIndexes, strip }), link?.url);
+      const blob = new Blob([html], { type: 'text/html' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${idea.title.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_snapshot.html`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Snapshot export failed", e);
+      alert("Failed to export the snapshot.");
+    }
+  };
+
+  const reports = idea.savedReports || [];
+  const usage = link ? Math.round(link.payloadChars / MAX_LINK_PAYLOAD_CHARS * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2"><Camera size={20} className="text-indigo-500" /> Share Snapshot</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <p className="text-sm text-slate-500">
+            A read-only copy of this idea that anyone can open, without an account or API key. Later edits aren't included.
+          </p>
+
+          {reports.length > 0 && (
+            <div>
+              <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Include saved reports</h3>
+              <div className="space-y-1.5">
+                {reports.map((report, index) => (
+                  <label key={index} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                    <input type="checkbox" checked={reportIndexes.includes(index)} onChange={() => setReportIndexes(toggle(reportIndexes, index))} />
+                    {report.title}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Leave out</h3>
+            <div className="space-y-1.5">
+              {SENSITIVE_FIELDS.map(field => (
+                <label key={field.id} className="flex items-start gap-2 cursor-pointer">
+                  <input type="checkbox" className="mt-1" checked={strip.includes(field.id)} onChange={() => setStrip(toggle(strip, field.id))} />
+                  <span>
+                    <span className="text-sm text-slate-700">{field.label}</span>
+                    <span className="block text-xs text-slate-400">{field.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="bg-slate-50 rounded-xl p-4 text-xs text-slate-500">
+            {error ? <span className="text-red-600">{error}</span>
+              : !link ? <span className="flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> Compressing...</span>
+              : link.url ? <>Link size: {usage}% of the limit.</>
+              : <span className="text-amber-700">Too large for a link ({usage}% of the limit). Leave out some reports, or download it as a file.</span>}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={handleDownload}
+              disabled={!!error}
+              className="border border-slate-200 text-slate-700 px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <Download size={16} /> Download HTML
+            </button>
+            <button
+              onClick={handleCopyLink}
+              disabled={!link?.url}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              <Link2 size={16} /> Copy Link
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
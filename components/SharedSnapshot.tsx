@@ -0,0 +1,198 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Bookmark, CheckCircle, Eye, FileText, Loader2, Upload } from 'lucide-react';
+import { BusinessIdea } from '../types';
+import { TrendChart } from './TrendChart';
+import { Markdown } from './Markdown';
+import { IdeaSnapshot, SnapshotError, decodeSnapshot, parseSnapshotHtml } from '../services/shareSnapshot';
+
+interface SharedSnapshotProps {
+  payload: string;
+  isSaved: (id: string) => boolean;
+  onSaveIdea: (idea: BusinessIdea) => void;
+  onNavigateHome: () => void;
+}
+
+const KPI_LABELS: Record<keyof BusinessIdea['kpi'], string> = {
+  opportunity: 'Opportunity',
+  problem: 'Problem',
+  feasibility: 'Feasibility',
+  whyNow: 'Why Now',
+};
+
+const TextSection: React.FC<{ title: string; text?: string }> = ({ title, text }) => {
+  if (!text?.trim()) return null;
+  return (
+    <section>
+      <h2 className="text-2xl font-serif font-bold text-slate-900 mb-3">{title}</h2>
+      <div className="text-slate-700 leading-relaxed whitespace-pre-wrap">{text}</div>
+    </section>
+  );
+};
+
+// Read-only view of an idea someone shared. Nothing here calls the AI.
+export const SharedSnapshot: React.FC<SharedSnapshotProps> = ({ payload, isSaved, onSaveIdea, onNavigateHome }) => {
+  const [snapshot, setSnapshot] = useState<IdeaSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(!!payload);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!payload) return;
+    let cancelled = false;
+    setIsLoading(true);
+    decodeSnapshot(payload)
+      .then(result => { if (!cancelled) setSnapshot(result); })
+      .catch(e => {
+        console.error("Failed to open snapshot", e);
+        if (!cancelled) setError(e instanceof SnapshotError ? e.message : "Could not open this snapshot.");
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [payload]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setSnapshot(parseSnapshotHtml(await file.text()));
+      setError(null);
+    } catch (err) {
+      console.error("Failed to read snapshot file", err);
+      setError(err instanceof SnapshotError ? err.message : "Could not read that file.");
+    }
+  };
+
+  const idea = snapshot?.idea;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+      <div className="flex items-center justify-between gap-4 mb-8">
+        <button onClick={onNavigateHome} className="text-slate-500 hover:text-blue-600 text-sm flex items-center gap-1">
+          <ArrowLeft size={16} /> Back to IdeaBrowser
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="border border-slate-200 text-slate-700 px-4 py-1.5 rounded-full text-sm font-medium flex items-center gap-2 hover:bg-slate-50"
+          >
+            <Upload size={16} /> Open Snapshot File
+          </button>
+          <input ref={fileInputRef} type="file" accept="text/html,.html" className="hidden" onChange={handleFileChange} />
+          {idea && (
+            <button
+              onClick={() => onSaveIdea(idea)}
+              disabled={isSaved(idea.id)}
+              className={`px-4 py-1.5 rounded-full text-sm font-bold flex items-center gap-2 transition-all shadow-sm ${isSaved(idea.id) ? 'bg-green-100 text-green-700 cursor-default' : 'bg-slate-900 text-white hover:bg-slate-800'}`}
+            >
+              {isSaved(idea.id) ? <><CheckCircle size={16} /> Saved</> : <><Bookmark size={16} /> Save to My Ideas</>}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-2 text-slate-500 py-24"><Loader2 size={20} className="animate-spin" /> Opening snapshot...</div>
+      )}
+
+      {!isLoading && !idea && (
+        <div className="text-center py-24">
+          <p className={error ? 'text-red-600' : 'text-slate-500'}>{error || "Open a snapshot link or file to view a shared idea."}</p>
+        </div>
+      )}
+
+      {idea && snapshot && (
+        <div className="space-y-10">
+          <div>
+            <div className="bg-blue-50 border border-blue-100 text-blue-700 text-xs rounded-lg px-3 py-2 flex items-center gap-2 mb-6">
+              <Eye size={14} /> Read-only snapshot, shared {new Date(snapshot.createdAt).toLocaleDateString()}
+            </div>
+            <div className="text-sm text-slate-500 mb-2">{idea.date} · {idea.priceRange}</div>
+            <h1 className="text-4xl md:text-5xl font-serif font-bold text-slate-900 mb-4 leading-tight">{idea.title}</h1>
+            <div className="flex flex-wrap gap-2 mb-6">
+              {(idea.tags || []).map(tag => (
+                <span key={tag} className="px-2 py-1 bg-slate-100 text-slate-600 rounded text-xs font-medium">{tag}</span>
+              ))}
+            </div>
+            <div className="text-xl text-slate-700 leading-relaxed space-y-4">
+              {idea.description.split(/\n+/).map((paragraph, idx) => paragraph.trim() ? <p key={idx}>{paragraph}</p> : null)}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {(Object.keys(KPI_LABELS) as (keyof BusinessIdea['kpi'])[]).map(key => (
+              <div key={key} className="bg-white border border-slate-100 rounded-2xl shadow-sm p-5 text-center">
+                <div className="text-3xl font-bold text-blue-600">{idea.kpi[key]?.score}</div>
+                <div className="text-sm font-bold text-slate-900 mt-1">{KPI_LABELS[key]}</div>
+                <div className="text-xs text-slate-500">{idea.kpi[key]?.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {idea.trendData?.length > 0 && (
+            <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-8">
+              <h3 className="font-bold text-slate-900 text-2xl mb-6">Search Interest Trend</h3>
+              <TrendChart
+                data={idea.trendData}
+                keyword={idea.trendKeyword}
+                relatedKeywords={idea.relatedKeywords}
+                volume={idea.trendVolume}
+                growth={idea.trendGrowth}
+                height={300}
+              />
+            </div>
+          )}
+
+          {idea.sections.offer.length > 0 && (
+            <section className="bg-white rounded-2xl border border-slate-100 shadow-sm overflow-hidden">
+              <h2 className="text-2xl font-serif text-slate-900 font-bold p-8 border-b border-slate-50 bg-slate-50/50">Value Ladder Strategy</h2>
+              <div className="divide-y divide-slate-100">
+                {idea.sections.offer.map((step, idx) => (
+                  <div key={idx} className="p-6 flex items-start justify-between gap-6">
+                    <div>
+                      <span className="text-xs font-bold px-2 py-1 rounded uppercase bg-slate-100 text-slate-600">{step.type}</span>
+                      <h3 className="font-bold text-slate-900 mt-2">{step.title}</h3>
+                      <p className="text-sm text-slate-600 mt-1">{step.description}</p>
+                    </div>
+                    <div className="font-bold text-slate-900 whitespace-nowrap">{step.price}</div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          <TextSection title="Why Now" text={idea.sections.whyNow} />
+          <TextSection title="Proof & Signals" text={idea.sections.proofAndSignals} />
+          <TextSection title="Market Gap" text={idea.sections.marketGap} />
+          <TextSection title="Execution Plan" text={idea.sections.executionPlan} />
+          <TextSection title="Founder Fit" text={idea.businessFit?.founderFitDescription} />
+
+          {idea.sources && idea.sources.length > 0 && (
+            <section>
+              <h2 className="text-2xl font-serif font-bold text-slate-900 mb-3">Sources</h2>
+              <ul className="space-y-1 text-sm">
+                {idea.sources.map((source, idx) => (
+                  <li key={idx}><a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{source.title || source.uri}</a></li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {idea.savedReports && idea.savedReports.length > 0 && (
+            <section>
+              <h2 className="text-2xl font-serif font-bold text-slate-900 mb-3">Saved Reports</h2>
+              <div className="space-y-3">
+                {idea.savedReports.map((report, idx) => (
+                  <details key={idx} className="border border-slate-100 rounded-xl bg-white">
+                    <summary className="px-4 py-3 cursor-pointer font-bold text-slate-800 flex items-center gap-2"><FileText size={16} className="text-slate-400" /> {report.title}</summary>
+                    <div className="px-4 pb-4"><Markdown content={report.content} compact /></div>
+                  </details>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
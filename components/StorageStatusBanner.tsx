@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { HardDrive, X } from 'lucide-react';
+import { StorageStatus, dismissStorageError, getStorageStatus, subscribeToStorageStatus } from '../services/storageRepository';
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(0)} MB`;
+
+export const StorageStatusBanner: React.FC = () => {
+  const [status, setStatus] = useState<StorageStatus>(getStorageStatus());
+
+  useEffect(() => subscribeToStorageStatus(setStatus), []);
+
+  if (!status.error && !status.nearQuota) return null;
+
+  return (
+    <div className={`border-b text-sm ${status.error ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <HardDrive size={16} className="shrink-0" />
+          <span>
+            {status.error ? (
+              <><span className="font-bold">Not saved.</span> {status.error}</>
+            ) : (
+              <>
+                <span className="font-bold">Storage almost full.</span>{' '}
+                {`Using ${formatMegabytes(status.usage || 0)} of ${formatMegabytes(status.quota || 0)}. Clear old history or reports before new work stops saving.`}
+              </>
+            )}
+          </span>
+        </div>
+        {status.error && (
+          <button onClick={dismissStorageError} className="p-1 rounded-full hover:bg-red-100 transition-colors" title="Dismiss">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, Loader2 } from 'lucide-react';
+import { SyncStatus as SyncStatusState, getSyncSettings, getSyncStatus, subscribeToSyncStatus, syncNow, updateSyncSettings } from '../services/syncService';
+
+const STATE_STYLES: Record<SyncStatusState['state'], string> = {
+  disabled: 'bg-slate-50 text-slate-500 border-slate-200 hover:bg-slate-100',
+  idle: 'bg-sky-50 text-sky-700 border-sky-200 hover:bg-sky-100',
+  syncing: 'bg-sky-50 text-sky-700 border-sky-200 hover:bg-sky-100',
+  offline: 'bg-amber-50 text-amber-700 border-amber-200 hover:bg-amber-100',
+  error: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100',
+};
+
+const STATE_LABELS: Record<SyncStatusState['state'], string> = {
+  disabled: 'Local only',
+  idle: 'Synced',
+  syncing: 'Syncing',
+  offline: 'Offline',
+  error: 'Sync error',
+};
+
+export const SyncStatus: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatusState>(getSyncStatus());
+  const [isOpen, setIsOpen] = useState(false);
+  const [serverUrl, setServerUrl] = useState(getSyncSettings().serverUrl);
+  const [token, setToken] = useState(getSyncSettings().token);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => subscribeToSyncStatus(setStatus), []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const enabled = getSyncSettings().enabled;
+  const label = status.state === 'idle' && status.pending > 0 ? `${status.pending} pending` : STATE_LABELS[status.state];
+
+  const handleSave = (enable: boolean) => {
+    if (enable && !/^https?:\/\//.test(serverUrl.trim())) {
+      alert("Please enter the sync server address, e.g. http://localhost:8787");
+      return;
+    }
+    updateSyncSettings({ serverUrl: serverUrl.trim(), token: token.trim(), enabled: enable });
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 rounded-full px-3 py-1.5 text-xs font-bold border transition-colors ${STATE_STYLES[status.state]}`}
+        title={status.error || "Sync ideas and reports with your own server"}
+      >
+        {status.state === 'syncing' ? <Loader2 size={14} className="animate-spin" />
+          : status.state === 'error' ? <AlertTriangle size={14} />
+          : status.state === 'offline' || status.state === 'disabled' ? <CloudOff size={14} />
+          : <Cloud size={14} />}
+        {label}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 bg-white rounded-xl shadow-xl border border-slate-100 p-5 z-50 space-y-4 animate-in fade-in slide-in-from-top-2 duration-200">
+          <div>
+            <div className="font-bold text-slate-900 text-sm">Sync Server</div>
+            <p className="text-xs text-slate-500 mt-1">
+              Everything is saved in this browser first. With a server, ideas, reports and whiteboards sync in the background and across machines.
+            </p>
+          </div>
+          <label className="block">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Server URL</span>
+            <input
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder="http://localhost:8787"
+              className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+          </label>
+          <label className="block">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Access Token (optional)</span>
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-100"
+            />
+          </label>
+
+          {status.error && status.state !== 'disabled' && (
+            <p className="text-xs text-red-600 bg-red-50 rounded-lg px-3 py-2">{status.error}</p>
+          )}
+          <div className="text-xs text-slate-500 space-y-1">
+            <div>Last synced: {status.lastSyncedAt ? new Date(status.lastSyncedAt).toLocaleString() : 'Never'}</div>
+            <div>Changes waiting to sync: {status.pending}</div>
+          </div>
+
+          <div className="flex justify-between gap-2">
+            {enabled ? (
+              <>
+                <button onClick={() => handleSave(false)} className="px-3 py-2 text-sm text-slate-500 hover:text-slate-700">Turn Off</button>
+                <div className="flex gap-2">
+                  <button onClick={() => handleSave(true)} className="border border-slate-200 text-slate-700 px-3 py-2 rounded-full text-sm font-medium hover:bg-slate-50">Save</button>
+                  <button
+                    onClick={() => syncNow()}
+                    disabled={status.state === 'syncing'}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-2 rounded-full text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+                  >
+                    <RefreshCw size={14} /> Sync Now
+                  </button>
+                </div>
+              </>
+            ) : (
+              <button
+                onClick={() => handleSave(true)}
+                className="ml-auto bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2"
+              >
+                <Cloud size={14} /> Turn On Sync
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
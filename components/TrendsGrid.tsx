@@ -1,33 +1,47 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { AreaChart, Area, ResponsiveContainer } from 'recharts';
 import { MOCK_TRENDS } from '../constants';
 import { MarketTrend } from '../types';
 import { getDailyTrends } from '../services/trendService';
+import { isAbortError, subscribeToProvider } from '../services/aiProvider';
 import { Loader2, RefreshCw } from 'lucide-react';
 
 export const TrendsGrid: React.FC = () => {
   const [trends, setTrends] = useState<MarketTrend[]>(MOCK_TRENDS);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
 
   const loadTrends = async (forceRefresh = false) => {
+      requestRef.current?.abort();
+      const controller = new AbortController();
+      requestRef.current = controller;
       setIsLoading(true);
       setError(null);
       try {
-          const liveTrends = await getDailyTrends(forceRefresh);
+          const liveTrends = await getDailyTrends(forceRefresh, controller.signal);
           if (liveTrends && liveTrends.length > 0) {
               setTrends(liveTrends);
           }
       } catch (err) {
+          if (isAbortError(err)) return;
           console.error("Failed to load live trends", err);
           setError("Failed to update trends. Showing latest cached or default trends.");
       } finally {
-          setIsLoading(false);
+          if (requestRef.current === controller) {
+              requestRef.current = null;
+              setIsLoading(false);
+          }
       }
   };
 
   useEffect(() => {
       loadTrends();
+      const unsubscribe = subscribeToProvider(() => loadTrends());
+      return () => {
+          unsubscribe();
+          requestRef.current?.abort();
+      };
   }, []);
 
   return (
@@ -0,0 +1,293 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { ArrowLeft, Activity, AlertTriangle, Trash2, Save, Database } from 'lucide-react';
+import { BusinessIdea } from '../types';
+import {
+  UsageBudget, UsageRecord, UsageTotals, clearUsageLedger, estimateCost, getBudgetWarnings, getUsageBudget,
+  getUsageRecords, groupUsage, recordTokens, setUsageBudget, subscribeToUsage, summarizeUsage, usageDay
+} from '../services/usageLedger';
+import { ResponseCacheStats, clearResponseCache, getResponseCacheStats } from '../services/responseCache';
+import { SessionRecorder } from './SessionRecorder';
+
+interface UsageDashboardProps {
+  ideas: BusinessIdea[];
+  onNavigateHome: () => void;
+}
+
+const CHART_DAYS = 14;
+const RECENT_CALLS = 25;
+
+const formatTokens = (n: number) => n.toLocaleString();
+const formatBytes = (n: number) => n < 1024 * 1024 ? `${(n / 1024).toFixed(1)} KB` : `${(n / 1024 / 1024).toFixed(1)} MB`;
+const formatCost = (n: number) => `$${n < 0.01 && n > 0 ? n.toFixed(4) : n.toFixed(2)}`;
+
+const OUTCOME_STYLES: Record<UsageRecord['outcome'], string> = {
+  success: 'bg-green-50 text-green-700',
+  error: 'bg-red-50 text-red-600',
+  aborted: 'bg-slate-100 text-slate-500',
+};
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ ideas, onNavigateHome }) => {
+  const [records, setRecords] = useState<UsageRecord[]>(getUsageRecords());
+  const [budget, setBudget] = useState<UsageBudget>(getUsageBudget());
+  const [budgetDraft, setBudgetDraft] = useState<UsageBudget>(getUsageBudget());
+
+  const [cacheStats, setCacheStats] = useState<ResponseCacheStats | null>(null);
+
+  useEffect(() => subscribeToUsage(updated => {
+    setRecords(updated);
+    setBudget(getUsageBudget());
+  }), []);
+
+  useEffect(() => {
+    getResponseCacheStats().then(setCacheStats);
+  }, [records]);
+
+  const ideaTitle = (ideaId: string) => ideas.find(i => i.id === ideaId)?.title || 'Deleted idea';
+
+  const today = usageDay(Date.now());
+  const todayTotals = summarizeUsage(records.filter(r => usageDay(r.timestamp) === today));
+  const allTotals = summarizeUsage(records);
+  const warnings = getBudgetWarnings(records, budget, ideaTitle);
+
+  const perDay: Record<string, UsageTotals> = useMemo(() => groupUsage(records, r => usageDay(r.timestamp)), [records]);
+  const perIdea: Record<string, UsageTotals> = useMemo(() => groupUsage(records, r => r.ideaId || ''), [records]);
+
+  const chartData = useMemo(() => Array.from({ length: CHART_DAYS }, (_, i) => {
+    const date = new Date();
+    date.setDate(date.getDate() - (CHART_DAYS - 1 - i));
+    const day = usageDay(date.getTime());
+    return { date: day.slice(5), tokens: perDay[day]?.tokens || 0 };
+  }), [perDay]);
+
+  const dayRows = Object.entries(perDay).sort(([a], [b]) => b.localeCompare(a)).slice(0, CHART_DAYS);
+  const ideaRows = Object.entries(perIdea).sort(([, a], [, b]) => b.tokens - a.tokens);
+  const recentCalls = records.slice(-RECENT_CALLS).reverse();
+
+  const handleBudgetChange = (key: keyof UsageBudget, value: string) => {
+    setBudgetDraft(prev => ({ ...prev, [key]: value === '' ? null : Number(value) }));
+  };
+
+  const handleSaveBudget = () => {
+    setUsageBudget(budgetDraft);
+    setBudget(budgetDraft);
+  };
+
+  const handleClearCache = async () => {
+    if (!window.confirm('Clear all cached artifacts and deep dives? They will be regenerated on next open.')) return;
+    try {
+      await clearResponseCache();
+    } catch (e) {
+      console.error("Failed to clear response cache", e);
+      alert("Failed to clear the response cache.");
+    }
+    setCacheStats(await getResponseCacheStats());
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Clear the entire usage ledger? Budgets are kept.')) {
+      clearUsageLedger();
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12 min-h-screen">
+      <div className="flex items-center justify-between mb-10">
+        <div className="flex items-center gap-4">
+          <button onClick={onNavigateHome} className="text-slate-400 hover:text-slate-600 transition-colors">
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h1 className="text-4xl font-serif text-slate-900 flex items-center gap-3">
+              <Activity size={32} className="text-blue-500" />
+              AI Usage
+            </h1>
+            <p className="text-slate-500 text-sm mt-1">Every model call made from this browser, with token counts and estimated cost.</p>
+          </div>
+        </div>
+        {records.length > 0 && (
+          <button onClick={handleClear} className="text-slate-400 hover:text-red-500 text-sm font-medium flex items-center gap-2 transition-colors">
+            <Trash2 size={16} /> Clear Ledger
+          </button>
+        )}
+      </div>
+
+      {warnings.length > 0 && (
+        <div className="space-y-2 mb-8">
+          {warnings.map((warning, idx) => (
+            <div key={idx} className={`flex items-center gap-2 p-3 rounded-lg border text-sm ${warning.level === 'exceeded' ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+              <AlertTriangle size={16} className="shrink-0" />
+              <span><span className="font-bold">{warning.level === 'exceeded' ? 'Budget exceeded.' : 'Approaching budget.'}</span> {warning.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+        {[
+          { label: 'Calls Today', value: todayTotals.calls.toLocaleString() },
+          { label: 'Tokens Today', value: formatTokens(todayTotals.tokens) },
+          { label: 'Est. Cost Today', value: formatCost(todayTotals.costUsd) },
+          { label: 'Avg Latency', value: allTotals.calls ? `${(allTotals.latencyMs / allTotals.calls / 1000).toFixed(1)}s` : '-' },
+        ].map(card => (
+          <div key={card.label} className="bg-white p-5 rounded-xl border border-slate-100 shadow-sm">
+            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">{card.label}</div>
+            <div className="text-2xl font-bold text-slate-900">{card.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm mb-8">
+        <h2 className="font-bold text-slate-900 mb-4">Tokens per Day</h2>
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <XAxis dataKey="date" tick={{ fontSize: 10, fill: '#94a3b8' }} axisLine={false} tickLine={false} />
+              <Tooltip formatter={(value: number) => [formatTokens(value), 'Tokens']} />
+              <Bar dataKey="tokens" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-8 mb-8">
+        <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+          <h2 className="font-bold text-slate-900 mb-4">Per Day</h2>
+          {dayRows.length === 0 ? (
+            <p className="text-sm text-slate-400">No calls recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] text-slate-400 uppercase tracking-wider">
+                  <th className="pb-2">Day</th><th className="pb-2 text-right">Calls</th><th className="pb-2 text-right">Tokens</th><th className="pb-2 text-right">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {dayRows.map(([day, totals]) => (
+                  <tr key={day}>
+                    <td className="py-2 text-slate-700">{day}</td>
+                    <td className="py-2 text-right text-slate-600">{totals.calls}{totals.errors > 0 && <span className="text-red-500"> ({totals.errors} failed)</span>}</td>
+                    <td className="py-2 text-right text-slate-600">{formatTokens(totals.tokens)}</td>
+                    <td className="py-2 text-right text-slate-600">{formatCost(totals.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm">
+          <h2 className="font-bold text-slate-900 mb-4">Per Idea</h2>
+          {ideaRows.length === 0 ? (
+            <p className="text-sm text-slate-400">No calls recorded yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-[10px] text-slate-400 uppercase tracking-wider">
+                  <th className="pb-2">Idea</th><th className="pb-2 text-right">Calls</th><th className="pb-2 text-right">Tokens</th><th className="pb-2 text-right">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {ideaRows.map(([ideaId, totals]) => (
+                  <tr key={ideaId || 'none'}>
+                    <td className="py-2 text-slate-700 truncate max-w-[180px]" title={ideaId ? ideaTitle(ideaId) : undefined}>
+                      {ideaId ? ideaTitle(ideaId) : <span className="text-slate-400 italic">Idea generation & trends</span>}
+                    </td>
+                    <td className="py-2 text-right text-slate-600">{totals.calls}</td>
+                    <td className="py-2 text-right text-slate-600">{formatTokens(totals.tokens)}</td>
+                    <td className="py-2 text-right text-slate-600">{formatCost(totals.costUsd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm mb-8">
+        <h2 className="font-bold text-slate-900 mb-1">Budgets</h2>
+        <p className="text-xs text-slate-500 mb-4">Leave a field empty to disable it. You'll see a warning here at 80% of any budget.</p>
+        <div className="grid md:grid-cols-3 gap-4 mb-4">
+          {([
+            { key: 'dailyTokens', label: 'Daily tokens' },
+            { key: 'dailyCostUsd', label: 'Daily est. cost (USD)' },
+            { key: 'perIdeaTokens', label: 'Tokens per idea' },
+          ] as { key: keyof UsageBudget; label: string }[]).map(field => (
+            <label key={field.key} className="block">
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{field.label}</span>
+              <input
+                type="number"
+                min={0}
+                value={budgetDraft[field.key] ?? ''}
+                onChange={(e) => handleBudgetChange(field.key, e.target.value)}
+                className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          ))}
+        </div>
+        <button onClick={handleSaveBudget} className="bg-slate-900 text-white px-4 py-2 rounded-lg text-sm font-bold flex items-center gap-2 hover:bg-slate-800 transition-colors">
+          <Save size={14} /> Save Budgets
+        </button>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm mb-8 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h2 className="font-bold text-slate-900 mb-1 flex items-center gap-2"><Database size={16} className="text-slate-400" /> Response Cache</h2>
+          <p className="text-xs text-slate-500">
+            {cacheStats
+              ? `${cacheStats.entries} cached reports using ${formatBytes(cacheStats.bytes)} of ${formatBytes(cacheStats.maxBytes)}. The least recently opened are removed first when full.`
+              : 'Loading cache size...'}
+          </p>
+          {cacheStats && (
+            <div className="mt-2 h-1.5 w-64 max-w-full bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500" style={{ width: `${Math.min(100, (cacheStats.bytes / cacheStats.maxBytes) * 100)}%` }}></div>
+            </div>
+          )}
+        </div>
+        <button
+          onClick={handleClearCache}
+          disabled={!cacheStats || cacheStats.entries === 0}
+          className="text-slate-500 hover:text-red-500 text-sm font-medium flex items-center gap-2 transition-colors disabled:opacity-50 whitespace-nowrap"
+        >
+          <Trash2 size={16} /> Clear Cache
+        </button>
+      </div>
+
+      <SessionRecorder />
+
+      <div className="bg-white p-6 rounded-xl border border-slate-100 shadow-sm overflow-x-auto">
+        <h2 className="font-bold text-slate-900 mb-4">Recent Calls</h2>
+        {recentCalls.length === 0 ? (
+          <p className="text-sm text-slate-400">No calls recorded yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-[10px] text-slate-400 uppercase tracking-wider">
+                <th className="pb-2">Time</th><th className="pb-2">Function</th><th className="pb-2">Model</th>
+                <th className="pb-2 text-right">Prompt / Response</th><th className="pb-2 text-right">Tokens</th>
+                <th className="pb-2 text-right">Latency</th><th className="pb-2 text-right">Outcome</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {recentCalls.map(record => (
+                <tr key={record.id} title={record.error}>
+                  <td className="py-2 text-slate-500 whitespace-nowrap">{new Date(record.timestamp).toLocaleTimeString()}</td>
+                  <td className="py-2 text-slate-700">{record.operation}{record.streamed && <span className="text-slate-400"> (stream)</span>}</td>
+                  <td className="py-2 text-slate-500">{record.provider === 'gemini' ? record.model : record.provider}</td>
+                  <td className="py-2 text-right text-slate-500 whitespace-nowrap">{record.promptChars.toLocaleString()} / {record.responseChars.toLocaleString()} chars</td>
+                  <td className="py-2 text-right text-slate-600">{recordTokens(record) ? formatTokens(recordTokens(record)) : '-'}</td>
+                  <td className="py-2 text-right text-slate-500">{(record.latencyMs / 1000).toFixed(1)}s</td>
+                  <td className="py-2 text-right">
+                    <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${OUTCOME_STYLES[record.outcome]}`} title={formatCost(estimateCost(record))}>
+                      {record.outcome}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GripVertical, Copy, RefreshCw, Trash2, Plus, ArrowUp, ArrowDown, AlertTriangle, Loader2 } from 'lucide-react';
+import { BillingPeriod, BusinessIdea, PricingKind, StepPricing, ValueLadderStep } from '../types';
+import {
+  CURRENCIES, addLadderStep, duplicateLadderStep, getStepPricing, moveLadderStep, removeLadderStep, updateLadderStep, validateLadder, withPricing
+} from '../services/valueLadder';
+import { regenerateLadderStep } from '../services/geminiService';
+import { isAbortError } from '../services/aiProvider';
+import { IdeaParseError } from '../services/ideaValidation';
+import { AIUnavailableError } from '../services/requestScheduler';
+
+interface ValueLadderEditorProps {
+  idea: BusinessIdea;
+  // Takes an updater so a regenerated step lands on the latest edits
+  onChange: (update: (idea: BusinessIdea) => BusinessIdea) => void;
+}
+
+const KINDS: { value: PricingKind; label: string }[] = [
+  { value: 'paid', label: 'Paid' },
+  { value: 'free', label: 'Free' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const PERIODS: { value: BillingPeriod; label: string }[] = [
+  { value: 'one-time', label: 'One-time' },
+  { value: 'month', label: 'Per month' },
+  { value: 'year', label: 'Per year' },
+];
+
+const inputClass = "w-full border border-slate-200 rounded-lg px-3 py-2 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export const ValueLadderEditor: React.FC<ValueLadderEditorProps> = ({ idea, onChange }) => {
+  const steps = idea.sections.offer;
+  const [grabbedIndex, setGrabbedIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  // Steps are addressed by index, so the ladder is locked while one is being rewritten
+  const isBusy = regeneratingIndex !== null;
+  const issues = validateLadder(steps);
+
+  const setStep = (index: number, update: Partial<ValueLadderStep>) =>
+    onChange(prev => updateLadderStep(prev, index, { ...prev.sections.offer[index], ...update }));
+
+  const setPricing = (index: number, update: Partial<StepPricing>) =>
+    onChange(prev => {
+      const step = prev.sections.offer[index];
+      const pricing = { ...getStepPricing(step), ...update };
+      // Only paid steps carry an amount, so switching away from paid clears it
+      return updateLadderStep(prev, index, withPricing(step, pricing.kind === 'paid' ? pricing : { ...pricing, amount: 0 }));
+    });
+
+  const handleRegenerate = async (index: number) => {
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setRegeneratingIndex(index);
+    try {
+      const step = await regenerateLadderStep(idea, index, controller.signal);
+      onChange(prev => updateLadderStep(prev, index, step));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Failed to regenerate ladder step", e);
+      alert(e instanceof IdeaParseError || e instanceof AIUnavailableError ? e.message : "Failed to regenerate this step.");
+    } finally {
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setRegeneratingIndex(null);
+      }
+    }
+  };
+
+  const endDrag = () => {
+    setGrabbedIndex(null);
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) onChange(prev => moveLadderStep(prev, dragIndex, index));
+    endDrag();
+  };
+
+  const iconButton = "p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-slate-100 disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div>
+      {issues.length > 0 && (
+        <div className="mx-8 mt-6 bg-amber-50 border border-amber-100 rounded-xl px-4 py-3 text-sm text-amber-800 flex items-center gap-2">
+          <AlertTriangle size={16} className="shrink-0" />
+          {issues.length} issue{issues.length === 1 ? '' : 's'} with this ladder. Each step should add value and cost more than the one below it.
+        </div>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {steps.map((step, idx) => {
+          const pricing = getStepPricing(step);
+          const stepIssues = issues.filter(issue => issue.index === idx);
+          return (
+            <div
+              key={idx}
+              draggable={grabbedIndex === idx}
+              onDragStart={(e) => { setDragIndex(idx); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={(e) => { if (dragIndex === null) return; e.preventDefault(); setOverIndex(idx); }}
+              onDrop={(e) => { e.preventDefault(); handleDrop(idx); }}
+              onDragEnd={endDrag}
+              className={`p-8 flex gap-4 transition-colors ${dragIndex === idx ? 'opacity-40' : ''} ${overIndex === idx && dragIndex !== idx ? 'bg-blue-50' : ''}`}
+            >
+              <div className="flex flex-col items-center gap-1 pt-1">
+                <button
+                  onMouseDown={() => !isBusy && setGrabbedIndex(idx)}
+                  onMouseUp={() => setGrabbedIndex(null)}
+                  disabled={isBusy}
+                  className={`${iconButton} cursor-grab active:cursor-grabbing`}
+                  title="Drag to reorder"
+                >
+                  <GripVertical size={18} />
+                </button>
+                <button onClick={() => onChange(prev => moveLadderStep(prev, idx, idx - 1))} disabled={isBusy || idx === 0} className={iconButton} title="Move up"><ArrowUp size={16} /></button>
+                <button onClick={() => onChange(prev => moveLadderStep(prev, idx, idx + 1))} disabled={isBusy || idx === steps.length - 1} className={iconButton} title="Move down"><ArrowDown size={16} /></button>
+              </div>
+
+              <div className="flex-1 space-y-3 min-w-0">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    className="text-xs font-bold px-2 py-1 rounded uppercase bg-slate-100 text-slate-600 focus:outline-none focus:ring-2 focus:ring-blue-500 w-48"
+                    value={step.type}
+                    onChange={(e) => setStep(idx, { type: e.target.value })}
+                    placeholder="Step type"
+                  />
+                  <div className="flex-1" />
+                  <button onClick={() => handleRegenerate(idx)} disabled={isBusy} className={iconButton} title="Regenerate this step with AI">
+                    {regeneratingIndex === idx ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                  </button>
+                  <button onClick={() => onChange(prev => duplicateLadderStep(prev, idx))} disabled={isBusy} className={iconButton} title="Duplicate"><Copy size={16} /></button>
+                  <button onClick={() => onChange(prev => removeLadderStep(prev, idx))} disabled={isBusy} className={`${iconButton} hover:text-red-500`} title="Remove"><Trash2 size={16} /></button>
+                </div>
+
+                <input
+                  type="text"
+                  className="font-bold text-xl text-slate-900 border-b border-slate-300 focus:border-blue-500 focus:outline-none bg-transparent w-full"
+                  value={step.title}
+                  onChange={(e) => setStep(idx, { title: e.target.value })}
+                  placeholder="Offer title"
+                />
+
+                <div className="flex flex-wrap gap-2">
+                  <select value={pricing.kind} onChange={(e) => setPricing(idx, { kind: e.target.value as PricingKind })} className={`${inputClass} w-28`}>
+                    {KINDS.map(kind => <option key={kind.value} value={kind.value}>{kind.label}</option>)}
+                  </select>
+                  {pricing.kind === 'paid' && (
+                    <>
+                      <select value={pricing.currency} onChange={(e) => setPricing(idx, { currency: e.target.value })} className={`${inputClass} w-20`}>
+                        {Array.from(new Set([...CURRENCIES, pricing.currency])).map(symbol => <option key={symbol} value={symbol}>{symbol}</option>)}
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        value={pricing.amount}
+                        onChange={(e) => setPricing(idx, { amount: Math.max(0, Number(e.target.value) || 0) })}
+                        className={`${inputClass} w-32`}
+                      />
+                      <select value={pricing.period} onChange={(e) => setPricing(idx, { period: e.target.value as BillingPeriod })} className={`${inputClass} w-36`}>
+                        {PERIODS.map(period => <option key={period.value} value={period.value}>{period.label}</option>)}
+                      </select>
+                    </>
+                  )}
+                  <span className="self-center text-sm font-bold text-slate-900 ml-auto">{step.price}</span>
+                </div>
+
+                <textarea
+                  className={`${inputClass} min-h-[72px]`}
+                  value={step.description}
+                  onChange={(e) => setStep(idx, { description: e.target.value })}
+                  placeholder="What the customer gets"
+                />
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs font-bold text-slate-500">
+                    Value
+                    <input type="text" className={`${inputClass} mt-1 font-normal`} value={step.valueProvided} onChange={(e) => setStep(idx, { valueProvided: e.target.value })} />
+                  </label>
+                  <label className="text-xs font-bold text-slate-500">
+                    Goal
+                    <input type="text" className={`${inputClass} mt-1 font-normal`} value={step.goal} onChange={(e) => setStep(idx, { goal: e.target.value })} />
+                  </label>
+                </div>
+
+                {stepIssues.map((issue, i) => (
+                  <p key={i} className="text-xs text-amber-700 flex items-center gap-1"><AlertTriangle size={12} /> {issue.message}</p>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-6 border-t border-slate-100">
+        <button
+          onClick={() => onChange(addLadderStep)}
+          disabled={isBusy}
+          className="w-full border border-dashed border-slate-300 text-slate-600 hover:border-blue-400 hover:text-blue-600 rounded-xl py-3 text-sm font-medium flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          <Plus size={16} /> Add step
+        </button>
+      </div>
+    </div>
+  );
+};
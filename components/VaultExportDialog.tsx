@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2, BookOpen } from 'lucide-react';
+import { BusinessIdea } from '../types';
+import { buildMarkdownVault } from '../services/markdownVault';
+
+interface VaultExportDialogProps {
+  savedIdeas: BusinessIdea[];
+  history: BusinessIdea[];
+  onClose: () => void;
+}
+
+export const VaultExportDialog: React.FC<VaultExportDialogProps> = ({ savedIdeas, history, onClose }) => {
+  // Saved ideas first; history entries that are also saved would only duplicate them
+  const savedIds = new Set(savedIdeas.map(idea => idea.id));
+  const candidates = [...savedIdeas, ...history.filter(idea => !savedIds.has(idea.id))];
+  const [selected, setSelected] = useState<string[]>(savedIdeas.map(idea => idea.id));
+  const [isWorking, setIsWorking] = useState(false);
+
+  const toggle = (id: string) => setSelected(selected.includes(id) ? selected.filter(i => i !== id) : [...selected, id]);
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      const blob = await buildMarkdownVault(candidates.filter(idea => selected.includes(idea.id)));
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `ideabrowser_vault_${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Vault export failed", e);
+      alert("Failed to export the markdown vault.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderGroup = (title: string, ideas: BusinessIdea[]) => ideas.length > 0 && (
+    <div>
+      <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">{title}</h3>
+      <div className="space-y-1.5">
+        {ideas.map(idea => (
+          <label key={idea.id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+            <input type="checkbox" checked={selected.includes(idea.id)} onChange={() => toggle(idea.id)} />
+            <span className="truncate">{idea.title}</span>
+            <span className="text-xs text-slate-400 whitespace-nowrap">
+              {idea.savedReports?.length ? `${idea.savedReports.length} report${idea.savedReports.length === 1 ? '' : 's'} · ` : ''}{idea.date}
+            </span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2"><BookOpen size={20} className="text-indigo-500" /> Markdown Vault</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <p className="text-sm text-slate-500">
+            A zip of linked markdown notes with frontmatter: one per idea, saved report and source. Unzip it into Obsidian, or import it into Notion.
+          </p>
+
+          <div className="flex items-center gap-3 text-xs">
+            <button onClick={() => setSelected(candidates.map(idea => idea.id))} className="text-blue-600 hover:underline">Select all</button>
+            <button onClick={() => setSelected([])} className="text-slate-500 hover:underline">Clear</button>
+          </div>
+
+          {renderGroup('Saved ideas', savedIdeas)}
+          {renderGroup('History', candidates.filter(idea => !savedIds.has(idea.id)))}
+          {candidates.length === 0 && <p className="text-sm text-slate-400">No ideas to export yet.</p>}
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleExport}
+              disabled={isWorking || selected.length === 0}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+            >
+              {isWorking ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />} Export {selected.length} idea{selected.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
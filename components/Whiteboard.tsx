@@ -9,10 +9,13 @@ import {
     StickyNote
 } from 'lucide-react';
 import { WhiteboardNode, Connection } from '../types';
-import { Chat } from '@google/genai';
 import { createWhiteboardChatSession } from '../services/geminiService';
+import { AIChatSession } from '../services/aiProvider';
+import { loadBoard, saveBoard } from '../services/storageRepository';
 
 const PREVIEW_LIMIT_CHARS = 150;
+const BOARD_ID = 'default';
+const BOARD_SAVE_DELAY_MS = 800;
 
 // Helper to extract YouTube ID
 const getYoutubeId = (url: string) => {
@@ -67,7 +70,7 @@ export const Whiteboard: React.FC = () => {
     // AI & Chat State
     const [activeAiNodeId, setActiveAiNodeId] = useState<string | null>(null);
     const [chats, setChats] = useState<Record<string, ChatMessage[]>>({});
-    const chatSessionsRef = useRef<Record<string, Chat | null>>({});
+    const chatSessionsRef = useRef<Record<string, AIChatSession | null>>({});
     
     const [isRecording, setIsRecording] = useState(false);
     const mediaRecorderRef = useRef<MediaRecorder | null>(null);
@@ -87,6 +90,29 @@ export const Whiteboard: React.FC = () => {
         }
     }, [chats, activeAiNodeId]);
 
+    // --- Persistence ---
+    const [boardLoaded, setBoardLoaded] = useState(false);
+
+    useEffect(() => {
+        loadBoard(BOARD_ID).then(board => {
+            if (board) {
+                setNodes(board.nodes);
+                setConnections(board.connections);
+                setChats(board.chats);
+            }
+            setBoardLoaded(true);
+        });
+    }, []);
+
+    // Nodes can hold large media, so saves are debounced while dragging or typing
+    useEffect(() => {
+        if (!boardLoaded) return;
+        const timer = window.setTimeout(() => {
+            saveBoard({ id: BOARD_ID, nodes, connections, chats, updatedAt: new Date().toISOString() });
+        }, BOARD_SAVE_DELAY_MS);
+        return () => window.clearTimeout(timer);
+    }, [nodes, connections, chats, boardLoaded]);
+
     // --- Helpers ---
     const getWorldMousePos = (e: React.MouseEvent) => {
         if (!canvasRef.current) return { x: 0, y: 0 };
@@ -475,7 +501,6 @@ export const Whiteboard: React.FC = () => {
             }
 
             const response = await chat.sendMessage({ message: userText });
-            // Fix: Use .text property directly.
             const aiText = response.text;
             
             // Handle Tool Calls
@@ -0,0 +1,205 @@
+import React, { useRef, useState } from 'react';
+import { X, Download, Upload, Loader2, CheckCircle2, FileArchive } from 'lucide-react';
+import { BusinessIdea } from '../types';
+import {
+  ArchiveChange, ArchiveError, MergeStrategy, WorkspaceArchive, exportWorkspace, importWorkspace,
+  parseWorkspaceArchive, summarizeChanges
+} from '../services/workspaceArchive';
+
+interface WorkspaceTransferProps {
+  savedIdeas: BusinessIdea[];
+  history: BusinessIdea[];
+  onImported: (savedIdeas: BusinessIdea[], history: BusinessIdea[]) => void;
+  onClose: () => void;
+}
+
+const STRATEGIES: { id: MergeStrategy; label: string; description: string }[] = [
+  { id: 'keep-newest', label: 'Keep newest', description: 'When both sides have an item, keep whichever was edited last.' },
+  { id: 'keep-both', label: 'Keep both', description: 'Conflicting items are added as copies marked "(imported)".' },
+  { id: 'overwrite', label: 'Overwrite', description: 'Items in the archive replace local items with the same id.' },
+];
+
+const ACTION_STYLES: Record<ArchiveChange['action'], string> = {
+  added: 'bg-green-50 text-green-700',
+  updated: 'bg-blue-50 text-blue-700',
+  duplicated: 'bg-purple-50 text-purple-700',
+  kept: 'bg-slate-100 text-slate-600',
+  unchanged: 'bg-slate-50 text-slate-400',
+  skipped: 'bg-red-50 text-red-600',
+};
+
+const KIND_LABELS: Record<ArchiveChange['kind'], string> = {
+  idea: 'Saved idea',
+  history: 'History',
+  chat: 'Chat',
+  board: 'Board',
+  trends: 'Trends',
+};
+
+export const WorkspaceTransfer: React.FC<WorkspaceTransferProps> = ({ savedIdeas, history, onImported, onClose }) => {
+  const [pending, setPending] = useState<{ archive: WorkspaceArchive; skipped: ArchiveChange[]; fileName: string } | null>(null);
+  const [strategy, setStrategy] = useState<MergeStrategy>('keep-newest');
+  const [isWorking, setIsWorking] = useState(false);
+  const [report, setReport] = useState<ArchiveChange[] | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      const archive = await exportWorkspace(savedIdeas, history);
+      const blob = new Blob([JSON.stringify(archive)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `ideabrowser_workspace_${archive.exportedAt.slice(0, 10)}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      console.error("Workspace export failed", e);
+      alert("Failed to export the workspace.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setReport(null);
+    try {
+      setPending({ ...parseWorkspaceArchive(await file.text()), fileName: file.name });
+    } catch (err) {
+      console.error("Failed to read workspace archive", err);
+      alert(err instanceof ArchiveError ? err.message : "Could not read that file.");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    setIsWorking(true);
+    try {
+      const result = await importWorkspace(pending.archive, { savedIdeas, history }, strategy);
+      onImported(result.savedIdeas, result.history);
+      setReport([...pending.skipped, ...result.changes]);
+      setPending(null);
+    } catch (e) {
+      console.error("Workspace import failed", e);
+      alert("Failed to import the workspace.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const counts = report ? summarizeChanges(report) : null;
+  const visibleChanges = report ? report.filter(change => change.action !== 'unchanged') : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h2 className="text-xl font-bold text-slate-900 flex items-center gap-2"><FileArchive size={20} className="text-indigo-500" /> Workspace Archive</h2>
+          <button onClick={onClose} className="p-1.5 hover:bg-slate-100 rounded-full text-slate-400 hover:text-slate-600"><X size={18} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h3 className="font-bold text-slate-900">Export</h3>
+              <p className="text-xs text-slate-500 mt-1">
+                {savedIdeas.length} saved ideas and {history.length} history entries, with saved reports, chats, whiteboards and the trend cache, in one file.
+              </p>
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={isWorking}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 disabled:opacity-50 whitespace-nowrap"
+            >
+              <Download size={16} /> Export
+            </button>
+          </div>
+
+          <div className="border-t border-slate-100 pt-6">
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <div>
+                <h3 className="font-bold text-slate-900">Import</h3>
+                <p className="text-xs text-slate-500 mt-1">Merge an archive from another machine or teammate into this workspace.</p>
+              </div>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isWorking}
+                className="border border-slate-200 text-slate-700 px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 hover:bg-slate-50 disabled:opacity-50 whitespace-nowrap"
+              >
+                <Upload size={16} /> Choose File
+              </button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+            </div>
+
+            {pending && (
+              <div className="bg-slate-50 rounded-xl p-4 space-y-4">
+                <p className="text-sm text-slate-700">
+                  <span className="font-bold">{pending.fileName}</span>
+                  {pending.archive.exportedAt && ` exported ${new Date(pending.archive.exportedAt).toLocaleString()}`}:
+                  {' '}{pending.archive.savedIdeas.length} saved ideas, {pending.archive.history.length} history entries,
+                  {' '}{pending.archive.chats.length} chats, {pending.archive.boards.length} boards
+                  {pending.skipped.length > 0 && <span className="text-red-600"> ({pending.skipped.length} invalid entries will be skipped)</span>}
+                </p>
+                <div className="space-y-2">
+                  {STRATEGIES.map(option => (
+                    <label key={option.id} className="flex items-start gap-3 cursor-pointer">
+                      <input
+                        type="radio"
+                        name="merge-strategy"
+                        checked={strategy === option.id}
+                        onChange={() => setStrategy(option.id)}
+                        className="mt-1"
+                      />
+                      <span>
+                        <span className="text-sm font-bold text-slate-800">{option.label}</span>
+                        <span className="block text-xs text-slate-500">{option.description}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setPending(null)} className="px-4 py-2 text-sm text-slate-500 hover:text-slate-700">Cancel</button>
+                  <button
+                    onClick={handleImport}
+                    disabled={isWorking}
+                    className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 disabled:opacity-50"
+                  >
+                    {isWorking ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} Import
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {report && counts && (
+              <div className="space-y-3">
+                <p className="text-sm text-slate-700 flex items-center gap-2">
+                  <CheckCircle2 size={16} className="text-green-500" />
+                  Imported: {counts.added} added, {counts.updated} updated, {counts.duplicated} copied, {counts.kept} kept local, {counts.unchanged} unchanged, {counts.skipped} skipped.
+                </p>
+                {visibleChanges.length > 0 && (
+                  <ul className="divide-y divide-slate-50 border border-slate-100 rounded-xl max-h-64 overflow-y-auto">
+                    {visibleChanges.map((change, index) => (
+                      <li key={index} className="px-4 py-2 flex items-center justify-between gap-4 text-sm" title={change.reason}>
+                        <span className="text-slate-700 truncate">
+                          <span className="text-slate-400 text-xs mr-2">{KIND_LABELS[change.kind]}</span>
+                          {change.title}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase whitespace-nowrap ${ACTION_STYLES[change.action]}`}>{change.action}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+
+// Self-hostable sync server. Stores ideas, history, saved reports and boards as
+// versioned documents in a single JSON file. Every write bumps a global
+// revision; clients pull everything after the last revision they saw and push
+// with the revision they based their edit on, so concurrent edits surface as
+// 409 conflicts instead of silently overwriting each other.
+//
+//   PORT=8787 SYNC_TOKEN=secret SYNC_DATA_FILE=./server/data/workspace.json npm run server
+
+// `order` holds the id order of the idea lists, one document per list
+const COLLECTIONS = ['ideas', 'history', 'reports', 'boards', 'order'] as const;
+type Collection = typeof COLLECTIONS[number];
+
+interface StoredDocument {
+  collection: Collection;
+  id: string;
+  rev: number;
+  updatedAt: string; // Client edit time, used for conflict resolution
+  deleted: boolean;
+  data: unknown;
+}
+
+interface Store {
+  revision: number;
+  documents: Record<string, StoredDocument>; // Keyed by `${collection}/${id}`
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || '';
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE || 'server/data/workspace.json');
+// Boards can hold base64 media
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+class HttpError extends Error {
+  status: number;
+  body?: unknown;
+
+  constructor(status: number, message: string, body?: unknown) {
+    super(message);
+    this.status = status;
+    this.body = body;
+  }
+}
+
+const loadStore = async (): Promise<Store> => {
+  try {
+    return JSON.parse(await readFile(DATA_FILE, 'utf8'));
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return { revision: 0, documents: {} };
+    throw e;
+  }
+};
+
+let store: Store = await loadStore();
+let writes: Promise<unknown> = Promise.resolve();
+
+// Writes go to a temp file first so a crash never leaves half a store behind
+const persist = async (next: Store) => {
+  await mkdir(dirname(DATA_FILE), { recursive: true });
+  await writeFile(`${DATA_FILE}.tmp`, JSON.stringify(next));
+  await rename(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+// Runs writes one at a time; a failed write rejects only its own request
+const queueWrite = <T>(write: () => Promise<T>): Promise<T> => {
+  const result = writes.then(write);
+  writes = result.catch(() => undefined);
+  return result;
+};
+
+const readBody = (req: IncomingMessage): Promise<any> => new Promise((resolveBody, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolveBody(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+    } catch (e) {
+      reject(new HttpError(400, 'Body must be JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const send = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const parseCollection = (value: string): Collection => {
+  if (!(COLLECTIONS as readonly string[]).includes(value)) throw new HttpError(404, `Unknown collection "${value}"`);
+  return value as Collection;
+};
+
+// Rejects the write when the document changed since the revision the client based it on
+const checkBase = (existing: StoredDocument | undefined, baseRev: unknown) => {
+  const base = typeof baseRev === 'number' ? baseRev : 0;
+  if (existing && existing.rev !== base) {
+    throw new HttpError(409, 'Document changed on the server', { current: existing });
+  }
+};
+
+// The in-memory store only changes once the file is written, so a failed write is never served or acknowledged
+const writeDocument = (collection: Collection, id: string, body: any, deleted: boolean) => queueWrite(async () => {
+  const key = `${collection}/${id}`;
+  const existing = store.documents[key];
+  checkBase(existing, body.baseRev);
+  if (deleted && !existing) return { rev: store.revision };
+  const document: StoredDocument = {
+    collection,
+    id,
+    rev: store.revision + 1,
+    updatedAt: typeof body.updatedAt === 'string' ? body.updatedAt : new Date().toISOString(),
+    deleted,
+    data: deleted ? null : body.data,
+  };
+  const next = { revision: document.rev, documents: { ...store.documents, [key]: document } };
+  await persist(next);
+  store = next;
+  return { rev: document.rev };
+});
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  if (parts[0] !== 'api') throw new HttpError(404, 'Not found');
+
+  if (parts[1] === 'health' && req.method === 'GET') {
+    return send(res, 200, { ok: true, revision: store.revision });
+  }
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    throw new HttpError(401, 'Missing or invalid sync token');
+  }
+
+  // Everything changed after a revision, including deletions
+  if (parts[1] === 'sync' && parts.length === 2 && req.method === 'GET') {
+    const since = Number(url.searchParams.get('since')) || 0;
+    const changes = Object.values(store.documents).filter(document => document.rev > since).sort((a, b) => a.rev - b.rev);
+    return send(res, 200, { revision: store.revision, changes });
+  }
+
+  if (parts.length === 2 && req.method === 'GET') {
+    const collection = parseCollection(parts[1]);
+    return send(res, 200, Object.values(store.documents).filter(document => document.collection === collection && !document.deleted));
+  }
+
+  if (parts.length === 3) {
+    const collection = parseCollection(parts[1]);
+    const id = parts[2];
+    if (req.method === 'GET') {
+      const document = store.documents[`${collection}/${id}`];
+      if (!document || document.deleted) throw new HttpError(404, 'Not found');
+      return send(res, 200, document);
+    }
+    if (req.method === 'PUT') {
+      const body = await readBody(req);
+      if (body.data === undefined) throw new HttpError(400, 'Body needs a "data" field');
+      return send(res, 200, await writeDocument(collection, id, body, false));
+    }
+    if (req.method === 'DELETE') {
+      const baseRev = url.searchParams.has('baseRev') ? Number(url.searchParams.get('baseRev')) : undefined;
+      return send(res, 200, await writeDocument(collection, id, { baseRev, updatedAt: url.searchParams.get('updatedAt') || undefined }, true));
+    }
+  }
+
+  throw new HttpError(404, 'Not found');
+};
+
+const server = createServer(async (req, res) => {
+  // The app is served from a different origin during development
+  res.setHeader('Access-Control-Allow-Origin', process.env.SYNC_ALLOWED_ORIGIN || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  try {
+    await handle(req, res);
+  } catch (e) {
+    if (e instanceof HttpError) {
+      send(res, e.status, { error: e.message, ...(e.body as object || {}) });
+    } else {
+      console.error('Sync server error', e);
+      send(res, 500, { error: 'Internal server error' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sync server listening on http://localhost:${PORT} (data: ${DATA_FILE}${TOKEN ? ', token required' : ''})`);
+});
@@ -0,0 +1,165 @@
+import { Content, FunctionCall, GenerateContentConfig, Part } from '@google/genai';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { RequestPriority, resetCircuit, withScheduler } from './requestScheduler';
+import { withUsageLedger } from './usageLedger';
+import { createReplayProvider, getReplayFixture, SessionFixture, withRecorder } from './sessionRecording';
+
+// Every model call in the app goes through an AIProvider, so the services never
+// talk to a specific SDK directly and can run against offline fixtures.
+
+export type AIOperation =
+  | 'getDailyTrends'
+  | 'analyzeEmergingTrends'
+  | 'generateBusinessIdea'
+  | 'analyzeUserIdea'
+  | 'forkIdea'
+  | 'repairIdea'
+  | 'generateArtifact'
+  | 'generateSectionDeepDive'
+  | 'generateFullAnalysis'
+  | 'condenseSlides'
+  | 'financialAssumptions'
+  | 'regenerateLadderStep'
+  | 'ideaChat'
+  | 'ideaChatSearch'
+  | 'whiteboardChat';
+
+export interface AIRequest {
+  operation: AIOperation;
+  model: string;
+  contents: string | Part[];
+  config?: GenerateContentConfig;
+  signal?: AbortSignal;
+  priority?: RequestPriority; // Defaults to 'interactive' for chats, 'standard' otherwise
+  ideaId?: string; // Attributes the call to an idea in the usage ledger
+  promptVersion?: string; // Prompt registry reference, e.g. 'sectionDeepDive@1'
+}
+
+export interface AIUsage {
+  promptTokens?: number;
+  responseTokens?: number;
+  totalTokens?: number;
+}
+
+export interface AIResponse {
+  text: string;
+  sources: { title: string; uri: string }[];
+  groundedSegments?: string[]; // Response text spans backed by search results
+  functionCalls?: FunctionCall[];
+  usage?: AIUsage;
+}
+
+export interface AIChatOptions {
+  operation: AIOperation;
+  model: string;
+  config?: GenerateContentConfig;
+  history?: Content[];
+  ideaId?: string;
+}
+
+export interface AIChatSession {
+  sendMessage(params: { message: string | Part[]; signal?: AbortSignal }): Promise<AIResponse>;
+  // Each yielded chunk carries only the newly generated text
+  sendMessageStream(params: { message: string | Part[]; signal?: AbortSignal }): Promise<AsyncGenerator<AIResponse>>;
+  getHistory(): Content[];
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  generate(request: AIRequest): Promise<AIResponse>;
+  generateStream(request: AIRequest): Promise<AsyncGenerator<AIResponse>>;
+  createChat(options: AIChatOptions): AIChatSession;
+}
+
+export type AIProviderId = 'gemini' | 'mock' | 'replay';
+
+// Cancelled calls reject with a DOMException named 'AbortError', matching fetch,
+// so callers can tell a cancellation apart from a real failure.
+export const createAbortError = (): Error =>
+  new DOMException('The AI request was cancelled', 'AbortError');
+
+export const isAbortError = (e: unknown): boolean =>
+  e instanceof Error && e.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+/** setTimeout as a promise that rejects early if the signal fires. */
+export const waitFor = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const PROVIDER_KEY = 'aiProvider';
+
+export const hasGeminiKey = (): boolean =>
+  typeof process !== 'undefined' && !!process.env && !!process.env.API_KEY;
+
+const readStoredProviderId = (): AIProviderId => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_KEY);
+    if (stored === 'mock') return 'mock';
+    if (stored === 'replay' && getReplayFixture()) return 'replay';
+    if (stored === 'gemini' && hasGeminiKey()) return 'gemini';
+  } catch (e) {
+    console.error("Failed to read AI provider preference", e);
+  }
+  // Without a key the app still runs, just against the offline fixtures.
+  return hasGeminiKey() ? 'gemini' : 'mock';
+};
+
+let activeProviderId: AIProviderId = readStoredProviderId();
+let activeProvider: AIProvider | null = null;
+let activeFixture: SessionFixture | null = null;
+const listeners = new Set<(id: AIProviderId) => void>();
+
+export const getActiveProviderId = (): AIProviderId => activeProviderId;
+
+const createBaseProvider = (id: AIProviderId): AIProvider => {
+  if (id === 'replay') return createReplayProvider(getReplayFixture() as SessionFixture);
+  // Recorded sessions capture what the provider actually returned
+  return withRecorder(id === 'gemini' ? createGeminiProvider(process.env.API_KEY as string) : createMockProvider());
+};
+
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider || activeProvider.id !== activeProviderId || (activeProviderId === 'replay' && activeFixture !== getReplayFixture())) {
+    activeFixture = getReplayFixture();
+    // The ledger sits inside the scheduler so every retry attempt is recorded
+    activeProvider = withScheduler(withUsageLedger(createBaseProvider(activeProviderId)));
+  }
+  return activeProvider;
+};
+
+export const setActiveProvider = (id: AIProviderId) => {
+  if (id === 'gemini' && !hasGeminiKey()) {
+    throw new Error("Gemini API key is required to use the live provider");
+  }
+  if (id === 'replay' && !getReplayFixture()) {
+    throw new Error("Load a recorded session before switching to replay");
+  }
+  activeProviderId = id;
+  // Failures of the previous provider say nothing about the new one
+  resetCircuit();
+  try {
+    localStorage.setItem(PROVIDER_KEY, id);
+  } catch (e) {
+    console.error("Failed to persist AI provider preference", e);
+  }
+  listeners.forEach(listener => listener(id));
+};
+
+export const subscribeToProvider = (listener: (id: AIProviderId) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
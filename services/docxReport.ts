@@ -0,0 +1,417 @@
+import {
+  AlignmentType, BorderStyle, Document, ExternalHyperlink, HeadingLevel, ImageRun, LevelFormat, Packer,
+  Paragraph, ParagraphChild, ShadingType, Table, TableCell, TableRow, TextRun, WidthType
+} from 'docx';
+import { BusinessIdea, TrendPoint } from '../types';
+import { MarkdownBlock, MarkdownInline, MarkdownList, inlineText, parseMarkdown } from './markdown';
+import { PROVENANCE_LABELS, ProvenanceField, getProvenance } from './provenance';
+
+// Word export of the research dossier and of saved reports, for stakeholders
+// who redline in Word. Markdown headings become real Heading styles and
+// markdown tables become Word tables. In the dossier, the KPI, business-fit
+// and sources sections are rebuilt from the idea itself as tables and a
+// bibliography, and the trend and KPI charts are embedded as images.
+
+type SavedReport = NonNullable<BusinessIdea['savedReports']>[number];
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  code?: boolean;
+}
+
+type Alignment = (typeof AlignmentType)[keyof typeof AlignmentType];
+
+// What to emit in place of a dossier section; matched against H2 text
+type SectionRebuild = 'kpi' | 'businessFit' | 'sources';
+
+const FONT = 'Calibri';
+const CODE_FONT = 'Consolas';
+const ORDERED_LIST = 'ordered-list';
+const COLORS = { muted: '64748B', border: 'CBD5E1', shade: 'F1F5F9', code: 'F8FAFC' };
+
+// Chart images are drawn at 2x and placed at the width of an A4 text column
+const CHART = { width: 600, height: 260, scale: 2 };
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4, HeadingLevel.HEADING_5, HeadingLevel.HEADING_6,
+];
+
+const KPI_ROWS: { key: keyof BusinessIdea['kpi']; label: string }[] = [
+  { key: 'opportunity', label: 'Opportunity' },
+  { key: 'problem', label: 'Problem Severity' },
+  { key: 'feasibility', label: 'Feasibility' },
+  { key: 'whyNow', label: 'Why Now' },
+];
+
+const REBUILT_SECTIONS: { pattern: RegExp; rebuild: SectionRebuild }[] = [
+  { pattern: /kpi scorecard/i, rebuild: 'kpi' },
+  { pattern: /business fit/i, rebuild: 'businessFit' },
+  { pattern: /sources|references/i, rebuild: 'sources' },
+];
+
+// --- Charts ---
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array | null> =>
+  new Promise(resolve => canvas.toBlob(blob => {
+    if (!blob) return resolve(null);
+    blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), () => resolve(null));
+  }, 'image/png'));
+
+const createChartCanvas = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CHART.width * CHART.scale;
+  canvas.height = CHART.height * CHART.scale;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.scale(CHART.scale, CHART.scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, CHART.width, CHART.height);
+  ctx.font = '11px sans-serif';
+  return { canvas, ctx };
+};
+
+const drawTrendChart = async (data: TrendPoint[]): Promise<Uint8Array | null> => {
+  const chart = data.length > 1 ? createChartCanvas() : null;
+  if (!chart) return null;
+  const { canvas, ctx } = chart;
+  const plot = { left: 40, right: CHART.width - 16, top: 16, bottom: CHART.height - 28 };
+  const max = Math.max(...data.map(point => point.value), 1);
+  const x = (idx: number) => plot.left + (idx / (data.length - 1)) * (plot.right - plot.left);
+  const y = (value: number) => plot.bottom - (value / max) * (plot.bottom - plot.top);
+
+  ctx.strokeStyle = '#e2e8f0';
+  ctx.fillStyle = '#64748b';
+  ctx.lineWidth = 1;
+  for (let step = 0; step <= 4; step++) {
+    const value = (max / 4) * step;
+    ctx.beginPath();
+    ctx.moveTo(plot.left, y(value));
+    ctx.lineTo(plot.right, y(value));
+    ctx.stroke();
+    ctx.textAlign = 'right';
+    ctx.fillText(String(Math.round(value)), plot.left - 6, y(value) + 4);
+  }
+  const labelEvery = Math.ceil(data.length / 8);
+  ctx.textAlign = 'center';
+  data.forEach((point, idx) => {
+    if (idx % labelEvery === 0) ctx.fillText(point.date, x(idx), CHART.height - 10);
+  });
+
+  ctx.beginPath();
+  data.forEach((point, idx) => idx === 0 ? ctx.moveTo(x(idx), y(point.value)) : ctx.lineTo(x(idx), y(point.value)));
+  ctx.lineTo(plot.right, plot.bottom);
+  ctx.lineTo(plot.left, plot.bottom);
+  ctx.closePath();
+  ctx.fillStyle = 'rgba(37, 99, 235, 0.12)';
+  ctx.fill();
+
+  ctx.beginPath();
+  data.forEach((point, idx) => idx === 0 ? ctx.moveTo(x(idx), y(point.value)) : ctx.lineTo(x(idx), y(point.value)));
+  ctx.strokeStyle = '#2563eb';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  return canvasToPng(canvas);
+};
+
+const drawKpiChart = async (idea: BusinessIdea): Promise<Uint8Array | null> => {
+  const bars = [
+    ...KPI_ROWS.map(({ key, label }) => ({ label, score: idea.kpi?.[key]?.score })),
+    { label: 'Execution Difficulty', score: idea.businessFit?.executionDifficulty },
+    { label: 'Go-To-Market', score: idea.businessFit?.goToMarket },
+  ].filter(bar => typeof bar.score === 'number');
+  const chart = bars.length > 0 ? createChartCanvas() : null;
+  if (!chart) return null;
+  const { canvas, ctx } = chart;
+  const plot = { left: 140, right: CHART.width - 40, top: 12 };
+  const rowHeight = (CHART.height - plot.top * 2) / bars.length;
+
+  bars.forEach((bar, idx) => {
+    const top = plot.top + idx * rowHeight;
+    const barHeight = Math.min(rowHeight * 0.6, 22);
+    const middle = top + rowHeight / 2;
+    const width = (Math.max(0, Math.min(bar.score, 10)) / 10) * (plot.right - plot.left);
+    ctx.fillStyle = '#f1f5f9';
+    ctx.fillRect(plot.left, middle - barHeight / 2, plot.right - plot.left, barHeight);
+    ctx.fillStyle = bar.score >= 7 ? '#16a34a' : bar.score >= 4 ? '#2563eb' : '#dc2626';
+    ctx.fillRect(plot.left, middle - barHeight / 2, width, barHeight);
+    ctx.fillStyle = '#334155';
+    ctx.textAlign = 'right';
+    ctx.fillText(bar.label, plot.left - 10, middle + 4);
+    ctx.textAlign = 'left';
+    ctx.fillText(`${bar.score}/10`, plot.right + 6, middle + 4);
+  });
+
+  return canvasToPng(canvas);
+};
+
+const chartParagraph = (png: Uint8Array | null, caption: string): Paragraph[] => png ? [
+  new Paragraph({
+    alignment: AlignmentType.CENTER,
+    children: [new ImageRun({
+      type: 'png',
+      data: png,
+      transformation: { width: CHART.width, height: CHART.height },
+      altText: { name: caption, description: caption, title: caption },
+    })],
+  }),
+  new Paragraph({
+    alignment: AlignmentType.CENTER,
+    children: [new TextRun({ text: caption, italics: true, size: 18, color: COLORS.muted })],
+  }),
+] : [];
+
+// --- Markdown ---
+
+const toRuns = (nodes: MarkdownInline[], style: RunStyle = {}): ParagraphChild[] => nodes.flatMap((node): ParagraphChild[] => {
+  const run = (text: string, extra: RunStyle = {}) => {
+    const merged = { ...style, ...extra };
+    return new TextRun({
+      text,
+      bold: merged.bold,
+      italics: merged.italics,
+      strike: merged.strike,
+      font: merged.code ? CODE_FONT : undefined,
+      shading: merged.code ? { type: ShadingType.CLEAR, fill: COLORS.shade, color: 'auto' } : undefined,
+    });
+  };
+  switch (node.type) {
+    case 'text': return [run(node.text)];
+    case 'strong': return toRuns(node.children, { ...style, bold: true });
+    case 'em': return toRuns(node.children, { ...style, italics: true });
+    case 'strike': return toRuns(node.children, { ...style, strike: true });
+    case 'code': return [run(node.text, { code: true })];
+    case 'break': return [new TextRun({ text: '', break: 1 })];
+    case 'link':
+      return [new ExternalHyperlink({
+        link: node.href,
+        children: [new TextRun({ text: inlineText(node.children) || node.href, style: 'Hyperlink', bold: style.bold, italics: style.italics })],
+      })];
+  }
+});
+
+const cellBorders = {
+  top: { style: BorderStyle.SINGLE, size: 4, color: COLORS.border },
+  bottom: { style: BorderStyle.SINGLE, size: 4, color: COLORS.border },
+  left: { style: BorderStyle.SINGLE, size: 4, color: COLORS.border },
+  right: { style: BorderStyle.SINGLE, size: 4, color: COLORS.border },
+};
+
+const buildTable = (header: ParagraphChild[][], rows: ParagraphChild[][][], align: (Alignment | undefined)[] = []): Table => {
+  const cell = (children: ParagraphChild[], col: number, isHeader: boolean) => new TableCell({
+    borders: cellBorders,
+    shading: isHeader ? { type: ShadingType.CLEAR, fill: COLORS.shade, color: 'auto' } : undefined,
+    margins: { top: 60, bottom: 60, left: 100, right: 100 },
+    children: [new Paragraph({ alignment: align[col], children })],
+  });
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({ tableHeader: true, children: header.map((children, col) => cell(children, col, true)) }),
+      ...rows.map(row => new TableRow({ children: header.map((_, col) => cell(row[col] || [], col, false)) })),
+    ],
+  });
+};
+
+const textCell = (text: string, bold = false): ParagraphChild[] => [new TextRun({ text, bold })];
+
+const TABLE_ALIGN: Record<string, Alignment> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+};
+
+// Collects document children; numbered lists each get their own instance so numbering restarts
+const createWriter = () => {
+  const children: (Paragraph | Table)[] = [];
+  let listInstance = 0;
+
+  const heading = (level: number, runs: ParagraphChild[]) => {
+    children.push(new Paragraph({ heading: HEADING_LEVELS[Math.min(level, 6) - 1], children: runs }));
+  };
+
+  const list = (md: MarkdownList, level = 0, instance = ++listInstance) => {
+    md.items.forEach(item => {
+      const checkbox = item.checked === undefined ? [] : [new TextRun(item.checked ? '\u2612 ' : '\u2610 ')];
+      children.push(new Paragraph({
+        ...(md.ordered ? { numbering: { reference: ORDERED_LIST, level, instance } } : { bullet: { level } }),
+        children: [...checkbox, ...toRuns(item.children)],
+      }));
+      if (item.sublist) list(item.sublist, Math.min(level + 1, 8));
+    });
+  };
+
+  const block = (md: MarkdownBlock, quoted = false): void => {
+    switch (md.type) {
+      case 'heading':
+        return heading(md.level, toRuns(md.children));
+      case 'paragraph':
+        children.push(new Paragraph({
+          indent: quoted ? { left: 720 } : undefined,
+          children: toRuns(md.children, quoted ? { italics: true } : {}),
+        }));
+        return;
+      case 'code':
+        children.push(new Paragraph({
+          shading: { type: ShadingType.CLEAR, fill: COLORS.code, color: 'auto' },
+          border: { left: { style: BorderStyle.SINGLE, size: 12, color: COLORS.border, space: 6 } },
+          children: md.text.split('\n').map((line, idx) => new TextRun({ text: line, font: CODE_FONT, size: 18, break: idx > 0 ? 1 : undefined })),
+        }));
+        return;
+      case 'quote':
+        return md.children.forEach(child => block(child, true));
+      case 'table':
+        children.push(
+          buildTable(
+            md.header.map(cell => toRuns(cell, { bold: true })),
+            md.rows.map(row => row.map(cell => toRuns(cell))),
+            md.align.map(align => align ? TABLE_ALIGN[align] : undefined)
+          ),
+          new Paragraph({ children: [] })
+        );
+        return;
+      case 'hr':
+        children.push(new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: COLORS.border, space: 1 } }, children: [] }));
+        return;
+      case 'list':
+        return list(md);
+    }
+  };
+
+  const push = (...items: (Paragraph | Table)[]) => {
+    children.push(...items);
+  };
+
+  return { children, heading, block, push };
+};
+
+// --- Idea data ---
+
+const sourceLabel = (idea: BusinessIdea, path: ProvenanceField) => {
+  const entry = getProvenance(idea, path);
+  return entry ? PROVENANCE_LABELS[entry.source] : '';
+};
+
+const kpiTable = (idea: BusinessIdea) => buildTable(
+  ['Metric', 'Score', 'Rating', 'Source'].map(text => textCell(text, true)),
+  KPI_ROWS.map(({ key, label }) => [
+    textCell(label, true),
+    textCell(`${idea.kpi?.[key]?.score ?? '-'}/10`),
+    textCell(idea.kpi?.[key]?.label || ''),
+    textCell(sourceLabel(idea, `kpi.${key}`)),
+  ])
+);
+
+const businessFitTable = (idea: BusinessIdea) => {
+  const fit = idea.businessFit || ({} as BusinessIdea['businessFit']);
+  return buildTable(
+    ['Factor', 'Rating', 'Analysis', 'Source'].map(text => textCell(text, true)),
+    [
+      ['Revenue Potential', fit.revenuePotential || '-', fit.revenuePotentialDescription, 'businessFit.revenuePotential'],
+      ['Execution Difficulty', `${fit.executionDifficulty ?? '-'}/10`, fit.executionDifficultyDescription, 'businessFit.executionDifficulty'],
+      ['Go-To-Market', `${fit.goToMarket ?? '-'}/10`, fit.goToMarketDescription, 'businessFit.goToMarket'],
+      ['Founder Fit', '', fit.founderFitDescription, 'businessFit.founderFitDescription'],
+    ].map(([label, rating, analysis, path]) => [
+      textCell(label, true),
+      textCell(rating),
+      textCell(analysis || ''),
+      textCell(sourceLabel(idea, path as ProvenanceField)),
+    ])
+  );
+};
+
+// Numbered like a reference list so redlines can cite "[3]"
+const bibliography = (idea: BusinessIdea): Paragraph[] => {
+  const sources = idea.sources || [];
+  if (sources.length === 0) {
+    return [new Paragraph({ children: [new TextRun({ text: 'No direct sources linked.', italics: true, color: COLORS.muted })] })];
+  }
+  return sources.map((source, idx) => new Paragraph({
+    indent: { left: 540, hanging: 540 },
+    children: [
+      new TextRun(`[${idx + 1}]\t`),
+      new TextRun({ text: source.title || source.uri }),
+      new TextRun('. '),
+      new ExternalHyperlink({ link: source.uri, children: [new TextRun({ text: source.uri, style: 'Hyperlink' })] }),
+    ],
+  }));
+};
+
+const createDocument = (title: string, children: (Paragraph | Table)[]) => new Document({
+  title,
+  creator: 'IdeaBrowser',
+  styles: { default: { document: { run: { font: FONT, size: 22 } } } },
+  numbering: {
+    config: [{
+      reference: ORDERED_LIST,
+      levels: Array.from({ length: 9 }, (_, level) => ({
+        level,
+        format: LevelFormat.DECIMAL,
+        text: `%${level + 1}.`,
+        alignment: AlignmentType.START,
+        style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+      })),
+    }],
+  },
+  sections: [{ children }],
+});
+
+/**
+ * Builds the dossier from handleDownloadDossier as a .docx. The markdown is
+ * converted block by block; sections listed in REBUILT_SECTIONS are replaced
+ * with tables or a bibliography built from the idea.
+ */
+export const buildDossierDocx = async (idea: BusinessIdea, markdown: string): Promise<Blob> => {
+  const [trendChart, kpiChart] = await Promise.all([drawTrendChart(idea.trendData || []), drawKpiChart(idea)]);
+  const writer = createWriter();
+  let skipping = false;
+  let pendingChart: Paragraph[] = [];
+
+  const flushChart = () => {
+    writer.push(...pendingChart);
+    pendingChart = [];
+  };
+
+  for (const block of parseMarkdown(markdown)) {
+    if (block.type === 'heading' && block.level <= 2) {
+      flushChart();
+      skipping = false;
+      const text = inlineText(block.children);
+      const rebuild = block.level === 2 ? REBUILT_SECTIONS.find(section => section.pattern.test(text))?.rebuild : undefined;
+      if (block.level === 1) {
+        writer.push(new Paragraph({ heading: HeadingLevel.TITLE, children: toRuns(block.children) }));
+        continue;
+      }
+      writer.heading(2, toRuns(block.children));
+      if (/market trend/i.test(text)) pendingChart = chartParagraph(trendChart, `Search interest for "${idea.trendKeyword}"`);
+      if (rebuild === 'kpi') writer.push(kpiTable(idea), new Paragraph({ children: [] }), ...chartParagraph(kpiChart, 'Scorecard overview'));
+      if (rebuild === 'businessFit') writer.push(businessFitTable(idea), new Paragraph({ children: [] }));
+      if (rebuild === 'sources') writer.push(...bibliography(idea));
+      skipping = !!rebuild;
+      continue;
+    }
+    if (skipping && block.type !== 'hr') continue;
+    // Keep the chart inside its section, before the closing rule
+    if (block.type === 'hr') flushChart();
+    writer.block(block);
+  }
+  flushChart();
+
+  return Packer.toBlob(createDocument(`${idea.title} - Research Dossier`, writer.children));
+};
+
+/** Builds one saved report as a .docx, followed by the idea's sources as a bibliography. */
+export const buildSavedReportDocx = async (idea: BusinessIdea, report: SavedReport): Promise<Blob> => {
+  const writer = createWriter();
+  writer.push(
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(report.title)] }),
+    new Paragraph({ children: [new TextRun({ text: `${idea.title} · ${report.date}`, color: COLORS.muted })] })
+  );
+  parseMarkdown(report.content).forEach(block => writer.block(block));
+  writer.heading(1, [new TextRun('Bibliography')]);
+  writer.push(...bibliography(idea));
+  return Packer.toBlob(createDocument(report.title, writer.children));
+};
@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FinancialAssumptions, ValueLadderStep } from '../types';
+import { computeModel, defaultStepAssumption, getAssumptions, mergeAssumptions, modelToCsv, parsePrice } from './financialModel';
+import { MOCK_IDEA_RESPONSE } from './mockFixtures';
+
+const step = (pricing: ValueLadderStep['pricing'], price: string): ValueLadderStep => ({
+  type: 'Core Offer', title: 'Team plan', description: '', price, valueProvided: '', goal: '', pricing,
+});
+
+test('a free step keeps no price from a stale amount', () => {
+  const assumption = defaultStepAssumption(step({ kind: 'free', amount: 49, currency: '$', period: 'month' }, 'Free'), 1);
+  assert.deepEqual(assumption, { price: 0, period: 'month', conversion: 20 });
+});
+
+test('a custom step keeps no price from a stale amount', () => {
+  const assumption = defaultStepAssumption(step({ kind: 'custom', amount: 499, currency: '$', period: 'year' }, 'Custom'), 2);
+  assert.equal(assumption.price, 0);
+});
+
+test('a paid step uses its structured amount', () => {
+  const assumption = defaultStepAssumption(step({ kind: 'paid', amount: 29, currency: '$', period: 'month' }, '$29/mo'), 0);
+  assert.deepEqual(assumption, { price: 29, period: 'month', conversion: 3 });
+});
+
+test('ladder price text is read into an amount, period and currency', () => {
+  const read = (text: string) => {
+    const { amount, period, currency } = parsePrice(text);
+    return { amount, period, currency };
+  };
+  assert.deepEqual(read('$9/mo'), { amount: 9, period: 'month', currency: '$' });
+  assert.deepEqual(read('$49-$99'), { amount: 74, period: 'one-time', currency: '$' });
+  assert.deepEqual(read('€1.5k one-time'), { amount: 1500, period: 'one-time', currency: '€' });
+  assert.deepEqual(read('$990/year'), { amount: 990, period: 'year', currency: '$' });
+  assert.deepEqual(read('USD 20 per month'), { amount: 20, period: 'month', currency: '$' });
+  assert.deepEqual(read('3 seats for $10'), { amount: 10, period: 'one-time', currency: '$' });
+  assert.deepEqual(read('Contact us'), { amount: null, period: 'one-time', currency: '$' });
+});
+
+test('weekly prices are converted to monthly', () => {
+  assert.deepEqual(parsePrice('$12/week'), { amount: 52, period: 'month', currency: '$', free: false });
+});
+
+test('free offers are free even when they mention a number', () => {
+  assert.deepEqual(parsePrice('Free 14-day trial'), { amount: 0, period: 'one-time', currency: '$', free: true });
+});
+
+const assumptions = (overrides: Partial<FinancialAssumptions> = {}): FinancialAssumptions => ({
+  currency: '$',
+  monthlyVisitors: 1000,
+  visitorGrowth: 0,
+  monthlyChurn: 0,
+  fixedCosts: 0,
+  variableCosts: 0,
+  marketingSpend: 100,
+  // 10% of visitors take the free step and 10% of those subscribe at $100/mo
+  steps: [{ price: 0, period: 'one-time', conversion: 10 }, { price: 100, period: 'month', conversion: 10 }],
+  ...overrides,
+});
+
+test('subscribers flow down the ladder and accumulate', () => {
+  const result = computeModel(assumptions(), 3);
+  assert.deepEqual(result.months.map(row => row.subscribers), [10, 20, 30]);
+  assert.deepEqual(result.months.map(row => row.mrr), [1000, 2000, 3000]);
+  assert.equal(result.totalRevenue, 6000);
+  assert.equal(result.finalMrr, 3000);
+  assert.equal(result.cac, 10);
+  assert.equal(result.cacPaybackMonths, 1);
+  assert.equal(result.breakEvenMonth, 1);
+});
+
+test('churn removes a share of subscribers each month', () => {
+  const result = computeModel(assumptions({ monthlyChurn: 50 }), 3);
+  assert.deepEqual(result.months.map(row => row.subscribers), [10, 15, 17.5]);
+});
+
+test('yearly plans count towards MRR at a twelfth of their price', () => {
+  const result = computeModel(assumptions({ steps: [{ price: 1200, period: 'year', conversion: 1 }] }), 1);
+  assert.equal(result.months[0].mrr, 1000);
+  assert.equal(result.months[0].oneTimeRevenue, 0);
+});
+
+test('costs push break-even out, and it is null when the model never gets there', () => {
+  const slow = computeModel(assumptions({ fixedCosts: 2500, variableCosts: 20 }), 6);
+  // Monthly profit is 0.8 * 1000 * month - 2600, so the first profitable month is the fourth
+  assert.equal(slow.breakEvenMonth, 4);
+  assert.equal(slow.cumulativeBreakEvenMonth, 6);
+
+  const free = computeModel(assumptions({ steps: [{ price: 0, period: 'one-time', conversion: 10 }] }), 12);
+  assert.equal(free.breakEvenMonth, null);
+  assert.equal(free.cac, null);
+  assert.equal(free.cacPaybackMonths, null);
+});
+
+test('the CSV export has a header and one row per month', () => {
+  const lines = modelToCsv(computeModel(assumptions(), 2)).split('\n');
+  assert.equal(lines.length, 3);
+  assert.equal(lines[0].split(',')[0], 'Month');
+  assert.equal(lines[2].split(',')[4], '2000');
+});
+
+test('proposed assumptions are kept within range', () => {
+  const merged = mergeAssumptions(assumptions(), { monthlyChurn: 150, visitorGrowth: Number.NaN, conversions: [-5, 40] });
+  assert.equal(merged.monthlyChurn, 100);
+  assert.equal(merged.visitorGrowth, 0);
+  assert.deepEqual(merged.steps.map(step => step.conversion), [0, 40]);
+});
+
+test('saved assumptions follow ladder steps added since they were saved', () => {
+  const idea = { ...MOCK_IDEA_RESPONSE, id: 'idea-1', date: 'Today', priceRange: '$', financialModel: assumptions({ steps: [{ price: 5, period: 'month', conversion: 7 }] }) };
+  const { steps } = getAssumptions(idea);
+  assert.equal(steps.length, idea.sections.offer.length);
+  assert.deepEqual(steps[0], { price: 5, period: 'month', conversion: 7 });
+  assert.equal(steps[1].conversion, 20);
+});
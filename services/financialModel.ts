@@ -0,0 +1,248 @@
+import { BillingPeriod, BusinessIdea, FinancialAssumptions, FinancialStepAssumption, ValueLadderStep } from '../types';
+
+// Turns the value ladder into a 36-month model. Visitors flow down the ladder
+// through per-step conversion rates; recurring steps accumulate subscribers
+// (less churn) and one-time steps are paid once. Yearly plans are recognised
+// monthly, so MRR includes them at a twelfth of their price.
+
+export const MODEL_MONTHS = 36;
+
+export interface ParsedPrice {
+  amount: number | null; // null when the text has no figure, e.g. "Custom" or "Contact us"
+  period: BillingPeriod;
+  currency: string;
+  free: boolean;
+}
+
+export interface ModelMonth {
+  month: number;
+  visitors: number;
+  newCustomers: number; // Entered the first paid step this month
+  subscribers: number; // Active on any recurring step
+  mrr: number;
+  oneTimeRevenue: number;
+  revenue: number;
+  costs: number;
+  profit: number;
+  cumulativeProfit: number;
+}
+
+export interface ModelResult {
+  months: ModelMonth[];
+  totalRevenue: number;
+  finalMrr: number;
+  cac: number | null; // Blended marketing spend per new paying customer
+  cacPaybackMonths: number | null; // null when a customer never pays back their CAC
+  breakEvenMonth: number | null; // First month with a profit
+  cumulativeBreakEvenMonth: number | null; // First month the running total turns positive
+}
+
+const CURRENCY_SYMBOLS: Record<string, string> = { usd: '$', eur: '€', gbp: '£', jpy: '¥', inr: '₹' };
+
+// Beyond this a customer is treated as never paying back
+const MAX_PAYBACK_MONTHS = 120;
+
+const DEFAULT_ASSUMPTIONS: Omit<FinancialAssumptions, 'steps' | 'currency'> = {
+  monthlyVisitors: 5000,
+  visitorGrowth: 5,
+  monthlyChurn: 5,
+  fixedCosts: 5000,
+  variableCosts: 20,
+  marketingSpend: 2000,
+};
+
+const FIGURE = String.raw`(\d[\d,]*(?:\.\d+)?)\s*([km])?(?![a-z])`;
+
+const toNumber = (digits: string, suffix?: string) => {
+  const value = parseFloat(digits.replace(/,/g, ''));
+  const multiplier = suffix?.toLowerCase() === 'k' ? 1_000 : suffix?.toLowerCase() === 'm' ? 1_000_000 : 1;
+  return value * multiplier;
+};
+
+/**
+ * Reads free-text ladder prices such as "$9/mo", "Free", "$49-$99", "€1.5k one-time"
+ * or "$990/year". Ranges use their midpoint and weekly prices are converted to monthly.
+ */
+export const parsePrice = (text: string): ParsedPrice => {
+  const lower = (text || '').toLowerCase();
+  const symbol = lower.match(/[$€£¥₹]/)?.[0];
+  const code = lower.match(/\b(usd|eur|gbp|jpy|inr)\b/)?.[1];
+  const currency = symbol || (code && CURRENCY_SYMBOLS[code]) || '$';
+
+  // Figures next to a currency sign win, so "3 seats for $10" reads as 10 and "Free 14-day trial" as free
+  const priced = [...lower.matchAll(new RegExp(`[$€£¥₹]\\s*${FIGURE}`, 'g'))];
+  const bare = /\bfree\b/.test(lower) ? [] : [...lower.matchAll(new RegExp(FIGURE, 'g'))];
+  const figures = (priced.length ? priced : bare).map(match => toNumber(match[1], match[2]));
+  const isRange = figures.length >= 2 && /\d\s*[km]?\s*(-|–|to)\s*[$€£¥₹]?\s*\d/.test(lower);
+  let amount: number | null = figures.length ? (isRange ? (figures[0] + figures[1]) / 2 : figures[0]) : null;
+
+  let period: BillingPeriod = 'one-time';
+  if (/\/\s*(mo|month)|per\s+month|monthly|a\s+month|\bmo\b/.test(lower)) period = 'month';
+  else if (/\/\s*(yr|year)|per\s+year|annual|yearly|a\s+year/.test(lower)) period = 'year';
+  else if (/\/\s*(wk|week)|per\s+week|weekly/.test(lower)) {
+    period = 'month';
+    if (amount !== null) amount = (amount * 52) / 12;
+  }
+
+  const free = (figures.length === 0 && /\bfree\b/.test(lower)) || amount === 0;
+  return { amount: free ? 0 : amount, period, currency, free };
+};
+
+const monthlyValue = (step: FinancialStepAssumption) =>
+  step.period === 'month' ? step.price : step.period === 'year' ? step.price / 12 : 0;
+
+// Structured pricing only carries an amount for paid steps; a free or custom step may keep a stale one
+const stepPrice = (step: ValueLadderStep): ParsedPrice => {
+  const { pricing } = step;
+  if (!pricing) return parsePrice(step.price);
+  const paid = pricing.kind === 'paid';
+  return { amount: paid ? pricing.amount : null, period: pricing.period, currency: pricing.currency, free: pricing.kind === 'free' };
+};
+
+/** Funnel starting point for one ladder step, from its structured pricing or parsed price text. */
+export const defaultStepAssumption = (step: ValueLadderStep, idx: number): FinancialStepAssumption => {
+  const price = stepPrice(step);
+  return {
+    price: price.amount ?? 0,
+    period: price.period,
+    conversion: idx === 0 ? 3 : 20,
+  };
+};
+
+/** Starting assumptions for an idea: ladder prices and generic funnel rates. */
+export const defaultAssumptions = (idea: BusinessIdea): FinancialAssumptions => {
+  const offer = idea.sections?.offer || [];
+  return {
+    ...DEFAULT_ASSUMPTIONS,
+    currency: offer.map(stepPrice).find(price => price.amount)?.currency || '$',
+    steps: offer.map(defaultStepAssumption),
+  };
+};
+
+/**
+ * Returns the idea's saved assumptions, with steps added or dropped to match
+ * the current ladder (new steps start from their parsed price).
+ */
+export const getAssumptions = (idea: BusinessIdea): FinancialAssumptions => {
+  const defaults = defaultAssumptions(idea);
+  const saved = idea.financialModel;
+  if (!saved) return defaults;
+  return { ...defaults, ...saved, steps: defaults.steps.map((step, idx) => saved.steps?.[idx] || step) };
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/** Applies a partial proposal (e.g. from the AI) on top of the current assumptions, keeping values in range. */
+export const mergeAssumptions = (
+  base: FinancialAssumptions,
+  proposal: Partial<Omit<FinancialAssumptions, 'steps'>> & { conversions?: number[] }
+): FinancialAssumptions => ({
+  ...base,
+  monthlyVisitors: clamp(proposal.monthlyVisitors, 0, 100_000_000, base.monthlyVisitors),
+  visitorGrowth: clamp(proposal.visitorGrowth, -50, 100, base.visitorGrowth),
+  monthlyChurn: clamp(proposal.monthlyChurn, 0, 100, base.monthlyChurn),
+  fixedCosts: clamp(proposal.fixedCosts, 0, 100_000_000, base.fixedCosts),
+  variableCosts: clamp(proposal.variableCosts, 0, 100, base.variableCosts),
+  marketingSpend: clamp(proposal.marketingSpend, 0, 100_000_000, base.marketingSpend),
+  steps: base.steps.map((step, idx) => ({ ...step, conversion: clamp(proposal.conversions?.[idx], 0, 100, step.conversion) })),
+});
+
+// Months for one new paying customer's gross profit to cover the CAC
+const paybackMonths = (assumptions: FinancialAssumptions, firstPaid: number, cac: number): number | null => {
+  const margin = 1 - assumptions.variableCosts / 100;
+  const retention = 1 - assumptions.monthlyChurn / 100;
+  let reach = 1;
+  let upfront = 0;
+  let recurring = 0;
+  assumptions.steps.forEach((step, idx) => {
+    if (idx < firstPaid) return;
+    if (idx > firstPaid) reach *= step.conversion / 100;
+    if (step.period === 'one-time') upfront += reach * step.price * margin;
+    else recurring += reach * monthlyValue(step) * margin;
+  });
+  let recovered = upfront;
+  if (recovered >= cac) return 0;
+  for (let month = 1; month <= MAX_PAYBACK_MONTHS; month++) {
+    recovered += recurring * Math.pow(retention, month - 1);
+    if (recovered >= cac) return month;
+  }
+  return null;
+};
+
+export const computeModel = (assumptions: FinancialAssumptions, months = MODEL_MONTHS): ModelResult => {
+  const { steps } = assumptions;
+  const retention = 1 - assumptions.monthlyChurn / 100;
+  const firstPaid = steps.findIndex(step => step.price > 0);
+  const subscribers = steps.map(() => 0);
+  const rows: ModelMonth[] = [];
+  let cumulativeProfit = 0;
+
+  for (let month = 1; month <= months; month++) {
+    const visitors = assumptions.monthlyVisitors * Math.pow(1 + assumptions.visitorGrowth / 100, month - 1);
+    let reach = visitors;
+    let oneTimeRevenue = 0;
+    let mrr = 0;
+    let newCustomers = 0;
+    steps.forEach((step, idx) => {
+      reach *= step.conversion / 100;
+      if (idx === firstPaid) newCustomers = reach;
+      if (step.period === 'one-time') {
+        oneTimeRevenue += reach * step.price;
+      } else {
+        subscribers[idx] = subscribers[idx] * retention + reach;
+        mrr += subscribers[idx] * monthlyValue(step);
+      }
+    });
+    const revenue = mrr + oneTimeRevenue;
+    const costs = assumptions.fixedCosts + assumptions.marketingSpend + revenue * assumptions.variableCosts / 100;
+    const profit = revenue - costs;
+    cumulativeProfit += profit;
+    rows.push({
+      month,
+      visitors,
+      newCustomers,
+      subscribers: steps.reduce((sum, step, idx) => step.period === 'one-time' ? sum : sum + subscribers[idx], 0),
+      mrr,
+      oneTimeRevenue,
+      revenue,
+      costs,
+      profit,
+      cumulativeProfit,
+    });
+  }
+
+  const totalNewCustomers = rows.reduce((sum, row) => sum + row.newCustomers, 0);
+  const cac = totalNewCustomers > 0 ? (assumptions.marketingSpend * months) / totalNewCustomers : null;
+  return {
+    months: rows,
+    totalRevenue: rows.reduce((sum, row) => sum + row.revenue, 0),
+    finalMrr: rows[rows.length - 1]?.mrr || 0,
+    cac,
+    cacPaybackMonths: cac !== null && firstPaid >= 0 ? paybackMonths(assumptions, firstPaid, cac) : null,
+    breakEvenMonth: rows.find(row => row.profit >= 0)?.month ?? null,
+    cumulativeBreakEvenMonth: rows.find(row => row.cumulativeProfit >= 0)?.month ?? null,
+  };
+};
+
+const CSV_COLUMNS: { header: string; value: (row: ModelMonth) => number }[] = [
+  { header: 'Month', value: row => row.month },
+  { header: 'Visitors', value: row => Math.round(row.visitors) },
+  { header: 'New Paying Customers', value: row => Math.round(row.newCustomers * 10) / 10 },
+  { header: 'Subscribers', value: row => Math.round(row.subscribers * 10) / 10 },
+  { header: 'MRR', value: row => Math.round(row.mrr * 100) / 100 },
+  { header: 'One-Time Revenue', value: row => Math.round(row.oneTimeRevenue * 100) / 100 },
+  { header: 'Revenue', value: row => Math.round(row.revenue * 100) / 100 },
+  { header: 'Costs', value: row => Math.round(row.costs * 100) / 100 },
+  { header: 'Profit', value: row => Math.round(row.profit * 100) / 100 },
+  { header: 'Cumulative Profit', value: row => Math.round(row.cumulativeProfit * 100) / 100 },
+];
+
+export const modelToCsv = (result: ModelResult): string =>
+  [CSV_COLUMNS.map(column => column.header).join(','), ...result.months.map(row => CSV_COLUMNS.map(column => column.value(row)).join(','))].join('\n');
+
+export const formatMoney = (value: number, currency: string) => {
+  const abs = Math.abs(value);
+  const text = abs >= 1_000_000 ? `${(abs / 1_000_000).toFixed(1)}M` : abs >= 10_000 ? `${(abs / 1_000).toFixed(0)}K` : abs.toFixed(0);
+  return `${value < 0 ? '-' : ''}${currency}${text}`;
+};
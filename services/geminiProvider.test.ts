@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createGeminiProvider } from './geminiProvider';
+
+// The real SDK builds the request; fetch is stubbed so the body it sends can be inspected
+const captureRequests = () => {
+  const bodies: any[] = [];
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(String(init.body)));
+    return new Response(JSON.stringify({
+      candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }] } }],
+    }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+  return bodies;
+};
+
+test('chat messages sent with a signal keep the chat config', async () => {
+  const bodies = captureRequests();
+  const chat = createGeminiProvider('test-key').createChat({
+    operation: 'ideaChat',
+    model: 'gemini-3.5-flash',
+    config: {
+      systemInstruction: 'You are discussing ShiftLoop.',
+      tools: [{ functionDeclarations: [{ name: 'add_tags', description: 'Add tags' }] }],
+    },
+  });
+
+  await chat.sendMessage({ message: 'Hi', signal: new AbortController().signal });
+
+  assert.equal(bodies.length, 1);
+  assert.equal(bodies[0].systemInstruction.parts[0].text, 'You are discussing ShiftLoop.');
+  assert.equal(bodies[0].tools[0].functionDeclarations[0].name, 'add_tags');
+});
+
+test('chat history carries over between messages', async () => {
+  const bodies = captureRequests();
+  const chat = createGeminiProvider('test-key').createChat({
+    operation: 'ideaChat',
+    model: 'gemini-3.5-flash',
+    history: [{ role: 'user', parts: [{ text: 'First' }] }, { role: 'model', parts: [{ text: 'Reply' }] }],
+  });
+
+  await chat.sendMessage({ message: 'Second', signal: new AbortController().signal });
+
+  assert.deepEqual(bodies[0].contents.map((c: any) => c.parts[0].text), ['First', 'Reply', 'Second']);
+});
@@ -0,0 +1,80 @@
+import { GoogleGenAI, GenerateContentConfig, GenerateContentResponse, Part } from '@google/genai';
+import { AIProvider, AIResponse } from './aiProvider';
+
+const toContents = (contents: string | Part[]) =>
+  typeof contents === 'string' ? contents : { parts: contents };
+
+const withSignal = (config: GenerateContentConfig | undefined, signal?: AbortSignal): GenerateContentConfig | undefined =>
+  signal ? { ...config, abortSignal: signal } : config;
+
+const toAIResponse = (response: GenerateContentResponse): AIResponse => {
+  // Extract grounding sources so callers don't need to know the SDK response shape
+  const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
+    ?.filter((c: any) => c.web?.uri && c.web?.title)
+    .map((c: any) => ({ title: c.web!.title!, uri: c.web!.uri! })) || [];
+
+  const groundedSegments = response.candidates?.[0]?.groundingMetadata?.groundingSupports
+    ?.map(support => support.segment?.text)
+    .filter((text): text is string => !!text) || [];
+
+  const usage = response.usageMetadata;
+
+  return {
+    text: response.text || '',
+    sources,
+    groundedSegments,
+    functionCalls: response.functionCalls,
+    usage: usage && {
+      promptTokens: usage.promptTokenCount,
+      responseTokens: usage.candidatesTokenCount,
+      totalTokens: usage.totalTokenCount,
+    },
+  };
+};
+
+async function* toAIResponseStream(stream: AsyncGenerator<GenerateContentResponse>): AsyncGenerator<AIResponse> {
+  for await (const chunk of stream) {
+    yield toAIResponse(chunk);
+  }
+}
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    label: 'Gemini (Live)',
+    generate: async (request) => {
+      const response = await ai.models.generateContent({
+        model: request.model,
+        contents: toContents(request.contents),
+        config: withSignal(request.config, request.signal),
+      });
+      return toAIResponse(response);
+    },
+    generateStream: async (request) => {
+      const stream = await ai.models.generateContentStream({
+        model: request.model,
+        contents: toContents(request.contents),
+        config: withSignal(request.config, request.signal),
+      });
+      return toAIResponseStream(stream);
+    },
+    createChat: (options) => {
+      const chat = ai.chats.create({
+        model: options.model,
+        config: options.config,
+        history: options.history,
+      });
+      // A per-message config replaces the chat's config in the SDK, so the signal
+      // is merged into it to keep the system instruction and tools
+      return {
+        sendMessage: async ({ message, signal }) =>
+          toAIResponse(await chat.sendMessage({ message, config: withSignal(options.config, signal) })),
+        sendMessageStream: async ({ message, signal }) =>
+          toAIResponseStream(await chat.sendMessageStream({ message, config: withSignal(options.config, signal) })),
+        getHistory: () => chat.getHistory(),
+      };
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MOCK_IDEA_RESPONSE } from './mockFixtures';
+
+// Runs the idea chat against the live Gemini provider with fetch stubbed, so
+// the test sees the request the SDK really sends and the reply it parses.
+const store: Record<string, string> = { aiProvider: 'gemini' };
+(globalThis as any).localStorage = {
+  getItem: (key: string) => store[key] ?? null,
+  setItem: (key: string, value: string) => { store[key] = value; },
+  removeItem: (key: string) => { delete store[key]; },
+};
+process.env.API_KEY = 'test-key';
+
+const idea = { ...MOCK_IDEA_RESPONSE, id: 'idea-1', date: 'Today', priceRange: '$' };
+
+const functionCallStream = () => {
+  const chunk = {
+    candidates: [{
+      content: {
+        role: 'model',
+        parts: [
+          { text: 'Here is a change.' },
+          { functionCall: { name: 'add_tags', args: { tags: ['Staffing'] } } },
+        ],
+      },
+    }],
+  };
+  return new Response(`data: ${JSON.stringify(chunk)}\n\n`, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+test('idea chat sends its edit tools to the live provider and surfaces the calls', async () => {
+  const bodies: any[] = [];
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(String(init.body)));
+    return functionCallStream();
+  }) as typeof fetch;
+
+  const { getActiveProviderId } = await import('./aiProvider');
+  const { createIdeaChatSession, toChatHistory } = await import('./geminiService');
+  const { editDecisionResponse, toIdeaEdits } = await import('./ideaEdits');
+  assert.equal(getActiveProviderId(), 'gemini');
+
+  const chat = createIdeaChatSession(idea, toChatHistory([{ role: 'user', text: 'Hi' }, { role: 'model', text: 'Hello' }]));
+  const stream = await chat.sendMessageStream({ message: 'Add a staffing tag', signal: new AbortController().signal });
+  const calls = [];
+  for await (const chunk of stream) calls.push(...(chunk.functionCalls || []));
+
+  assert.equal(bodies.length, 1);
+  const tools = bodies[0].tools[0].functionDeclarations.map((declaration: any) => declaration.name);
+  assert.deepEqual(tools, ['update_section', 'adjust_kpi', 'add_ladder_steps', 'replace_ladder_step', 'add_tags', 'search_web']);
+  assert.match(bodies[0].systemInstruction.parts[0].text, /ShiftLoop/);
+  assert.equal(bodies[0].contents.length, 3);
+  assert.deepEqual(calls, [{ name: 'add_tags', args: { tags: ['Staffing'] } }]);
+
+  // The user's decision answers the call in the next turn
+  const { edits } = toIdeaEdits(idea, calls);
+  for await (const _ of await chat.sendMessageStream({ message: [editDecisionResponse(edits[0], false)], signal: new AbortController().signal })) { /* drain */ }
+  const answer = bodies[1].contents[bodies[1].contents.length - 1];
+  assert.equal(answer.role, 'user');
+  assert.equal(answer.parts[0].functionResponse.name, 'add_tags');
+  assert.match(answer.parts[0].functionResponse.response.output, /rejected/);
+});
+
+test('idea chat searches run as a separate grounded request', async () => {
+  const bodies: any[] = [];
+  globalThis.fetch = (async (_url: string, init: RequestInit) => {
+    bodies.push(JSON.parse(String(init.body)));
+    return new Response(JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text: 'Three competitors.' }] } }] }), { status: 200 });
+  }) as typeof fetch;
+
+  const { searchForIdeaChat } = await import('./geminiService');
+  const result = await searchForIdeaChat(idea, 'shift scheduling competitors');
+
+  assert.equal(result.text, 'Three competitors.');
+  assert.deepEqual(bodies[0].tools, [{ googleSearch: {} }]);
+  assert.match(bodies[0].contents[0].parts[0].text, /shift scheduling competitors/);
+});
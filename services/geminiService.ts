@@ -1,38 +1,14 @@
 
-// Fix: Use the correct imports and follow SDK guidelines for model selection and initialization.
-import { GoogleGenAI, Chat, Part, FunctionDeclaration, Type, Schema, GenerateContentResponse } from '@google/genai';
-import { BusinessIdea } from '../types';
+import { Content, Part, FunctionDeclaration, Type, Schema } from '@google/genai';
+import { BusinessIdea, ChatMessage, FinancialAssumptions, ValueLadderStep } from '../types';
 import { getDailyTrends } from './trendService';
-
-// Fix: Always use process.env.API_KEY directly in the initialization.
-// Recommendation: Avoid global instances if multiple keys might be used, but for basic usage this is standard.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-// Retry logic helper for 503/Timeout errors
-const withRetry = async <T>(fn: () => Promise<T>, retries = 3, baseDelay = 1000): Promise<T> => {
-  let lastError: any;
-  for (let i = 0; i < retries; i++) {
-    try {
-      return await fn();
-    } catch (e: any) {
-      lastError = e;
-      // Check for 503 Service Unavailable, 504 Gateway Timeout, or "Deadline expired" message
-      const isRetryable = 
-        e.status === 503 || 
-        e.status === 504 || 
-        (e.message && e.message.includes('Deadline expired'));
-
-      if (!isRetryable) {
-        throw e;
-      }
-      
-      console.warn(`Gemini API Attempt ${i + 1} failed with transient error. Retrying in ${baseDelay * Math.pow(2, i)}ms...`);
-      // Exponential backoff
-      await new Promise(resolve => setTimeout(resolve, baseDelay * Math.pow(2, i)));
-    }
-  }
-  throw lastError;
-};
+import { getAIProvider, AIChatSession, AIRequest, AIResponse, isAbortError } from './aiProvider';
+import { AIUnavailableError, RequestPriority } from './requestScheduler';
+import { getCachedResponse, getIdeaRevision, getResponseCacheKey, putCachedResponse } from './responseCache';
+import { IdeaParseError, IdeaValidationError, ModelIdea, getRepairKeys, mergeRepair, validateBusinessIdea } from './ideaValidation';
+import { buildModelProvenance } from './provenance';
+import { EDITABLE_KPIS, EDITABLE_SECTIONS } from './ideaEdits';
+import { ArtifactTemplate, DeepDiveSection, PROMPTS, SlideSource, renderPrompt } from './promptRegistry';
 
 // Define the schema for the Business Idea to ensure structured JSON output
 const businessIdeaSchema: Schema = {
@@ -118,123 +94,118 @@ const businessIdeaSchema: Schema = {
 };
 
 
-const parseGeminiResponse = (text: string): Partial<BusinessIdea> => {
+export const parseGeminiResponse = (text: string): unknown => {
   // If responseMimeType is application/json, text should be valid JSON.
   // We still handle code blocks just in case, but usually it's raw JSON.
   const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || text.match(/```\n([\s\S]*?)\n```/);
-  let parsedIdea: Partial<BusinessIdea> = {};
-  
-  if (jsonMatch && jsonMatch[1]) {
-    try {
-      parsedIdea = JSON.parse(jsonMatch[1]);
-    } catch (e) {
-      console.error("JSON Parse Error (Match):", e);
-    }
-  } else {
-     try {
-       parsedIdea = JSON.parse(text);
-     } catch (e) {
-       console.error("Failed to parse Gemini response raw:", text.substring(0, 100) + "...", e);
-     }
+  const jsonText = jsonMatch && jsonMatch[1] ? jsonMatch[1] : text;
+
+  try {
+    return JSON.parse(jsonText);
+  } catch (e) {
+    console.error("Failed to parse Gemini response raw:", text.substring(0, 100) + "...", e);
+    throw new IdeaParseError(`The AI response was not valid JSON: ${e instanceof Error ? e.message : String(e)}`, text);
   }
-  return parsedIdea;
 };
 
-const hydrateIdea = (parsedIdea: Partial<BusinessIdea>, sources: any[]): BusinessIdea => {
-  const randomTrendBase = Math.floor(Math.random() * 100);
-  
-  // Robust fallback for deeply nested objects to prevent "N/A"
-  const defaultKpi = {
-       opportunity: { score: 8, label: 'High' },
-       problem: { score: 7, label: 'Moderate' },
-       feasibility: { score: 7, label: 'Doable' },
-       whyNow: { score: 9, label: 'Now' }
-  };
-  
-  const defaultBusinessFit = {
-        revenuePotential: '$$',
-        revenuePotentialDescription: 'Moderate revenue potential with standard subscription models.',
-        executionDifficulty: 5,
-        executionDifficultyDescription: 'Standard development complexity.',
-        goToMarket: 5,
-        goToMarketDescription: 'Requires standard social media marketing.',
-        founderFitDescription: 'Generalist founder with some industry knowledge.'
-  };
+// Re-prompts the model for only the fields that failed validation. If the
+// repaired output still doesn't validate we surface the issues instead of
+// inventing values.
+const ensureValidIdea = async (parsedIdea: unknown, modelId: string, signal?: AbortSignal): Promise<{ idea: ModelIdea; repairedKeys: string[] }> => {
+  const issues = validateBusinessIdea(parsedIdea);
+  if (issues.length === 0) return { idea: parsedIdea as ModelIdea, repairedKeys: [] };
 
-  const defaultSections = {
-        offer: [],
-        whyNow: 'Research data unavailable. Try regenerating.',
-        proofAndSignals: 'Research data unavailable.',
-        marketGap: 'Research data unavailable.',
-        executionPlan: 'Research data unavailable.'
-  };
+  const repairKeys = getRepairKeys(issues);
+  if (repairKeys.length === 0) throw new IdeaValidationError(issues);
 
-  const defaultCommunity = {
-        reddit: 'N/A',
-        facebook: 'N/A',
-        youtube: 'N/A',
-        other: 'N/A'
+  console.warn("Idea failed validation, requesting repair for:", repairKeys, issues);
+
+  const original = parsedIdea as Record<string, any>;
+  const repairSchema: Schema = {
+    type: Type.OBJECT,
+    properties: Object.fromEntries(repairKeys.map(key => [key, businessIdeaSchema.properties![key]])),
+    required: repairKeys,
   };
 
+  const prompt = renderPrompt(PROMPTS.repairIdea, {
+    title: original.title,
+    description: original.description,
+    issues: issues.map(i => i.message),
+    repairKeys,
+  });
+
+  let repaired: Record<string, any>;
+  try {
+    const response = await getAIProvider().generate({
+      operation: 'repairIdea',
+      model: modelId,
+      contents: prompt.text,
+      promptVersion: prompt.ref,
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: repairSchema,
+        temperature: 0.4,
+      },
+      signal,
+    });
+    repaired = parseGeminiResponse(response.text) as Record<string, any>;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Idea repair failed:", error);
+    throw new IdeaValidationError(issues);
+  }
+
+  const merged = mergeRepair(original, repaired || {}, repairKeys);
+  const remainingIssues = validateBusinessIdea(merged);
+  if (remainingIssues.length > 0) {
+    throw new IdeaValidationError(remainingIssues);
+  }
+  return { idea: merged as ModelIdea, repairedKeys: repairKeys };
+};
+
+export const hydrateIdea = ({ idea, repairedKeys }: { idea: ModelIdea; repairedKeys: string[] }, response: AIResponse, promptVersion: string): BusinessIdea => {
   return {
+    ...idea,
     id: Math.random().toString(36).substr(2, 9),
     date: new Date().toLocaleDateString('en-US', { month: 'numeric', day: 'numeric', year: 'numeric' }),
-    title: parsedIdea.title || 'Untitled Idea',
-    tags: parsedIdea.tags || ['Analysis', 'AI Generated'],
-    description: parsedIdea.description || 'No description provided.',
-    priceRange: parsedIdea.priceRange || 'Variable',
-    trendKeyword: parsedIdea.trendKeyword || 'Market Trend',
-    trendVolume: parsedIdea.trendVolume || '5.5K',
-    trendGrowth: parsedIdea.trendGrowth || '+85%',
-    relatedKeywords: parsedIdea.relatedKeywords || [parsedIdea.trendKeyword || 'Startup Idea'],
-    trendData: parsedIdea.trendData || [
-      { date: '2022', value: randomTrendBase }, 
-      { date: '2023', value: randomTrendBase + 20 }, 
-      { date: '2024', value: randomTrendBase + 50 }, 
-      { date: '2025', value: randomTrendBase + 80 }, 
-      { date: '2026', value: randomTrendBase + 60 }
-    ],
-    kpi: parsedIdea.kpi ? { ...defaultKpi, ...parsedIdea.kpi } : defaultKpi,
-    businessFit: parsedIdea.businessFit ? { ...defaultBusinessFit, ...parsedIdea.businessFit } : defaultBusinessFit,
-    sections: parsedIdea.sections ? { ...defaultSections, ...parsedIdea.sections } : defaultSections,
-    communitySignals: parsedIdea.communitySignals ? { ...defaultCommunity, ...parsedIdea.communitySignals } : defaultCommunity,
-    sources: sources
+    priceRange: idea.priceRange || 'Variable',
+    sources: response.sources,
+    promptVersion,
+    provenance: buildModelProvenance(idea, {
+      groundedSegments: response.groundedSegments,
+      repairedKeys,
+      defaultedFields: idea.priceRange ? [] : ['priceRange'],
+    }),
   };
 }
 
-export const analyzeEmergingTrends = async (onProgress?: (status: string) => void): Promise<string> => {
+export const analyzeEmergingTrends = async (onProgress?: (status: string) => void, signal?: AbortSignal): Promise<string> => {
   const modelId = 'gemini-3.1-pro-preview';
   
   if (onProgress) onProgress("Scanning global data sources (Trends, News, Social)...");
 
-  const prompt = `
-    Act as an advanced trend analysis module.
-    Search the web (including news sites, Reddit, and social media discussions) for emerging business opportunities, breakout trends, or rising problems in the last 24-48 hours.
-    Pull data from multiple perspectives:
-    1. Search Trends (What are people suddenly searching for?)
-    2. Social Media & Forums (What is trending on Reddit/Twitter/LinkedIn?)
-    3. News APIs/Sources (What are the latest tech/business news catalysts?)
-
-    Synthesize a comprehensive "Trend Intelligence Report" detailing 3 distinct emerging opportunities. Include data points, search volume estimates, and the core problem for each.
-  `;
+  const prompt = renderPrompt(PROMPTS.emergingTrends, {});
 
   try {
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
+    const response = await getAIProvider().generate({
+      operation: 'analyzeEmergingTrends',
       model: modelId,
-      contents: prompt,
+      contents: prompt.text,
+      promptVersion: prompt.ref,
       config: {
         tools: [{ googleSearch: {} }],
         temperature: 0.7,
       },
-    }));
+      signal,
+    });
     return response.text || "No trends found.";
   } catch (error) {
-    console.error("Trend Analysis Error:", error);
+    if (!isAbortError(error)) console.error("Trend Analysis Error:", error);
     throw error;
   }
 };
 
-export const generateBusinessIdea = async (onProgress?: (status: string) => void): Promise<BusinessIdea> => {
+export const generateBusinessIdea = async (onProgress?: (status: string) => void, signal?: AbortSignal): Promise<BusinessIdea> => {
   const modelId = 'gemini-3.5-flash';
 
   const today = new Date().toLocaleDateString('en-US', {
@@ -248,246 +219,451 @@ export const generateBusinessIdea = async (onProgress?: (status: string) => void
   let trendReport = "";
   try {
       if (onProgress) onProgress("Retrieving daily business trends...");
-      const trends = await getDailyTrends();
+      const trends = await getDailyTrends(false, signal);
       trendReport = JSON.stringify(trends, null, 2);
   } catch (err) {
+      if (isAbortError(err)) throw err;
       console.warn("Could not fetch daily trends, falling back to general generation.", err);
       trendReport = "Use your knowledge of current tech and business to generate an idea.";
   }
 
   if (onProgress) onProgress("Synthesizing data-driven business idea...");
 
-  const prompt = `
-    Act as a world-class venture capitalist and trend analyst. Today is ${today}.
-    
-    Here is the latest Trend Intelligence Report pulled from our Daily Trends Module:
-    ${trendReport}
-    
-    1. Select the most promising breakout business trend or rising problem from the report above.
-    2. Synthesize a complete, robust business idea ("The Idea of Tomorrow") that solves this problem.
-    3. **CRITICAL:** Create a UNIQUE, CREATIVE, and CATCHY one-word or two-word brand name for this startup. Do not use generic descriptive names.
-    4. Conduct a keyword analysis for related search terms.
-    5. Provide community validation signals based on the report.
-    
-    Output MUST be valid JSON adhering to the provided schema.
-  `;
+  const prompt = renderPrompt(PROMPTS.generateIdea, { today, trendReport });
 
   try {
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
+    const response = await getAIProvider().generate({
+      operation: 'generateBusinessIdea',
       model: modelId,
-      contents: prompt,
+      contents: prompt.text,
+      promptVersion: prompt.ref,
       config: {
         tools: [{ googleSearch: {} }],
         responseMimeType: 'application/json',
         responseSchema: businessIdeaSchema,
         temperature: 0.8, 
       },
-    }));
+      signal,
+    });
 
-    const parsedIdea = parseGeminiResponse(response.text || '');
-    
-    // Extract sources
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-      ?.filter((c: any) => c.web?.uri && c.web?.title)
-      .map((c: any) => ({ title: c.web!.title!, uri: c.web!.uri! })) || [];
+    const parsedIdea = parseGeminiResponse(response.text);
+    const validIdea = await ensureValidIdea(parsedIdea, modelId, signal);
 
-    return hydrateIdea(parsedIdea, sources);
+    return hydrateIdea(validIdea, response, prompt.ref);
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (!isAbortError(error)) console.error("Gemini API Error:", error);
     throw error;
   }
 };
 
-export const analyzeUserIdea = async (userDescription: string, media?: { data: string, mimeType: string }): Promise<BusinessIdea> => {
+export const analyzeUserIdea = async (userDescription: string, media?: { data: string, mimeType: string }, signal?: AbortSignal): Promise<BusinessIdea> => {
   const modelId = 'gemini-3.5-flash';
 
-  const prompt = `
-    Act as a VC expert. Analyze the following idea concept: "${userDescription}"
-    ${media ? 'Also analyze the provided media for additional context.' : ''}
+  const prompt = renderPrompt(PROMPTS.analyzeUserIdea, { userDescription, hasMedia: !!media });
 
-    1. Search for real-time market data to validate this idea.
-    2. **CRITICAL:** Create a UNIQUE, CREATIVE, and CATCHY name for this startup if one isn't provided.
-    3. Provide a robust, detailed analysis including a 5-step Value Ladder.
-    
-    Output MUST be valid JSON adhering to the provided schema.
-  `;
-
-  const parts: Part[] = [{ text: prompt }];
+  const parts: Part[] = [{ text: prompt.text }];
   if (media) {
       parts.unshift({ inlineData: { data: media.data, mimeType: media.mimeType }});
   }
 
   try {
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
+    const response = await getAIProvider().generate({
+      operation: 'analyzeUserIdea',
       model: modelId,
-      contents: { parts },
+      contents: parts,
+      promptVersion: prompt.ref,
       config: {
         tools: [{ googleSearch: {} }],
         responseMimeType: 'application/json',
         responseSchema: businessIdeaSchema,
         temperature: 0.7,
       },
-    }));
+      signal,
+    });
 
-    const parsedIdea = parseGeminiResponse(response.text || '');
-    
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-      ?.filter((c: any) => c.web?.uri && c.web?.title)
-      .map((c: any) => ({ title: c.web!.title!, uri: c.web!.uri! })) || [];
+    const parsedIdea = parseGeminiResponse(response.text);
+    const validIdea = await ensureValidIdea(parsedIdea, modelId, signal);
 
-    return hydrateIdea(parsedIdea, sources);
+    return hydrateIdea(validIdea, response, prompt.ref);
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (!isAbortError(error)) console.error("Gemini API Error:", error);
     throw error;
   }
 };
 
-export const createIdeaChatSession = (idea: BusinessIdea): Chat => {
+const ladderStepDeclaration: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    type: { type: Type.STRING, description: "Funnel role, e.g. 'Lead Magnet' or 'Core Offer'" },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    price: { type: Type.STRING, description: "Short price text, e.g. 'Free', '$29/mo', '$499'" },
+    valueProvided: { type: Type.STRING },
+    goal: { type: Type.STRING }
+  },
+  required: ['type', 'title', 'description', 'price', 'valueProvided', 'goal']
+};
+
+// Every call becomes a proposed edit that the user accepts or rejects (see ideaEdits)
+const ideaEditTools: FunctionDeclaration[] = [
+  {
+    name: 'update_section',
+    description: 'Rewrite the idea description or one report section',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        section: { type: Type.STRING, enum: Object.keys(EDITABLE_SECTIONS) },
+        content: { type: Type.STRING, description: 'The full new text of the section' },
+        rationale: { type: Type.STRING }
+      },
+      required: ['section', 'content']
+    }
+  },
+  {
+    name: 'adjust_kpi',
+    description: 'Change a KPI score (0-10) and explain why',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        kpi: { type: Type.STRING, enum: Object.keys(EDITABLE_KPIS) },
+        score: { type: Type.NUMBER },
+        label: { type: Type.STRING, description: "Short verdict, e.g. 'Strong' or 'Risky'" },
+        rationale: { type: Type.STRING }
+      },
+      required: ['kpi', 'score', 'rationale']
+    }
+  },
+  {
+    name: 'add_ladder_steps',
+    description: 'Add steps to the value ladder',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        steps: { type: Type.ARRAY, items: ladderStepDeclaration },
+        position: { type: Type.NUMBER, description: '1-based position of the first new step; omit to add at the top of the ladder' },
+        rationale: { type: Type.STRING }
+      },
+      required: ['steps']
+    }
+  },
+  {
+    name: 'replace_ladder_step',
+    description: 'Replace one value ladder step',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        stepNumber: { type: Type.NUMBER, description: '1-based position of the step to replace' },
+        step: ladderStepDeclaration,
+        rationale: { type: Type.STRING }
+      },
+      required: ['stepNumber', 'step']
+    }
+  },
+  {
+    name: 'add_tags',
+    description: 'Add tags to the idea',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+        rationale: { type: Type.STRING }
+      },
+      required: ['tags']
+    }
+  }
+];
+
+export const IDEA_CHAT_SEARCH_TOOL = 'search_web';
+
+// Search grounding can't share a request with function declarations, so the
+// chat asks for a lookup through this tool and searchForIdeaChat answers it
+const ideaChatSearchTool: FunctionDeclaration = {
+  name: IDEA_CHAT_SEARCH_TOOL,
+  description: 'Search the web for current facts: competitors, prices, regulations, market data or news',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: { type: Type.STRING, description: 'What to look up, as a specific question' }
+    },
+    required: ['query']
+  }
+};
+
+/** Chat history for a stored thread, in the shape the chat session takes. */
+export const toChatHistory = (messages: ChatMessage[]): Content[] =>
+  messages.map(message => ({ role: message.role, parts: [{ text: message.text }] }));
+
+// Pass a stored thread's history, or the history of the previous session when
+// the idea changed mid-conversation, to carry the conversation over.
+export const createIdeaChatSession = (idea: BusinessIdea, history: Content[] = []): AIChatSession => {
   const modelId = 'gemini-3.5-flash';
   
-  const systemInstruction = `
-    You are an expert Business Consultant. You are discussing "${idea.title}".
-    Context: ${JSON.stringify(idea, null, 2)}
-    Focus on human-centric design and cognitive load reduction in your advice.
-  `;
+  const systemInstruction = renderPrompt(PROMPTS.ideaChat, { idea });
 
-  return ai.chats.create({
+  return getAIProvider().createChat({
+    operation: 'ideaChat',
     model: modelId,
+    ideaId: idea.id,
+    history,
     config: {
-      systemInstruction: systemInstruction,
+      systemInstruction: systemInstruction.text,
       temperature: 0.7,
-      tools: [{ googleSearch: {} }]
+      tools: [{ functionDeclarations: [...ideaEditTools, ideaChatSearchTool] }]
     }
   });
 };
 
-export const forkIdea = async (originalIdea: BusinessIdea, chatHistory: {role: string, text: string}[]): Promise<BusinessIdea> => {
+/** Runs a search_web call from the idea chat as its own grounded request. */
+export const searchForIdeaChat = (idea: BusinessIdea, query: string, signal?: AbortSignal): Promise<AIResponse> => {
+  const prompt = renderPrompt(PROMPTS.ideaChatSearch, { idea, query });
+  return getAIProvider().generate({
+    ...promptRequest('ideaChatSearch', idea, prompt),
+    config: { tools: [{ googleSearch: {} }] },
+    signal,
+    priority: 'interactive',
+  });
+};
+
+export const forkIdea = async (originalIdea: BusinessIdea, chatHistory: {role: string, text: string}[], signal?: AbortSignal): Promise<BusinessIdea> => {
   const modelId = 'gemini-3.5-flash';
 
   const historyText = chatHistory.map(msg => `${msg.role.toUpperCase()}: ${msg.text}`).join('\n\n');
 
-  const prompt = `
-    Act as a world-class venture capitalist and trend analyst. 
-    The user has been discussing a business idea called "${originalIdea.title}" and wants to pivot or "fork" this idea into a specific niche based on the following conversation:
-    
-    ORIGINAL IDEA:
-    ${originalIdea.description}
-    
-    CONVERSATION HISTORY:
-    ${historyText}
-    
-    Based on the conversation, generate a NEW, distinct business idea that focuses on the niche or pivot discussed. 
-    1. Create a UNIQUE, CREATIVE, and CATCHY brand name for this new niche startup.
-    2. Provide a complete analysis for this new niche idea.
-    
-    Output MUST be valid JSON adhering to the provided schema.
-  `;
+  const prompt = renderPrompt(PROMPTS.forkIdea, { idea: originalIdea, historyText });
 
   try {
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
+    const response = await getAIProvider().generate({
+      operation: 'forkIdea',
       model: modelId,
-      contents: prompt,
+      ideaId: originalIdea.id,
+      contents: prompt.text,
+      promptVersion: prompt.ref,
       config: {
         tools: [{ googleSearch: {} }],
         responseMimeType: 'application/json',
         responseSchema: businessIdeaSchema,
         temperature: 0.8, 
       },
-    }));
+      signal,
+    });
 
-    const parsedIdea = parseGeminiResponse(response.text || '');
-    
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-      ?.filter((c: any) => c.web?.uri && c.web?.title)
-      .map((c: any) => ({ title: c.web!.title!, uri: c.web!.uri! })) || [];
+    const parsedIdea = parseGeminiResponse(response.text);
+    const validIdea = await ensureValidIdea(parsedIdea, modelId, signal);
 
-    return hydrateIdea(parsedIdea, sources);
+    return { ...hydrateIdea(validIdea, response, prompt.ref), parentId: originalIdea.id };
   } catch (error) {
-    console.error("Gemini API Error:", error);
+    if (!isAbortError(error)) console.error("Gemini API Error:", error);
     throw error;
   }
 };
 
-export const generateArtifact = async (idea: BusinessIdea, type: string): Promise<string> => {
-  const modelId = 'gemini-3.5-flash';
-  let prompt = `Generate a robust ${type} for the business idea "${idea.title}".
-  
-Business Description:
-${idea.description}
+// Shared request builders so the blocking and streaming variants send identical prompts
+const promptRequest = (
+  operation: AIRequest['operation'],
+  idea: BusinessIdea,
+  prompt: { text: string; ref: string }
+): AIRequest => ({
+  operation,
+  model: 'gemini-3.5-flash',
+  ideaId: idea.id,
+  contents: prompt.text,
+  promptVersion: prompt.ref,
+  config: { tools: [{ googleSearch: {} }] }
+});
+
+const buildArtifactRequest = (idea: BusinessIdea, artifact: ArtifactTemplate): AIRequest =>
+  promptRequest('generateArtifact', idea, renderPrompt(PROMPTS.artifact, { idea, artifact }));
+
+const buildSectionDeepDiveRequest = (idea: BusinessIdea, section: DeepDiveSection): AIRequest =>
+  promptRequest('generateSectionDeepDive', idea, renderPrompt(PROMPTS.sectionDeepDive, { idea, section }));
+
+const buildFullAnalysisRequest = (idea: BusinessIdea): AIRequest =>
+  promptRequest('generateFullAnalysis', idea, renderPrompt(PROMPTS.fullAnalysis, { idea }));
+
+export interface StreamedText {
+  text: string;
+  cachedAt?: string; // Set when the text came from the response cache
+  promptVersion?: string; // Registry reference of the prompt that produced the text
+}
 
-Target Audience / Tags: ${idea.tags.join(', ')}
+const lookupCachedResponse = async (request: AIRequest, idea: BusinessIdea, regenerate: boolean) => {
+  const key = await getResponseCacheKey(request, await getIdeaRevision(idea));
+  return { key, cached: regenerate ? null : await getCachedResponse(key) };
+};
 
-Focus on high-quality, actionable advice that is specifically tailored to this exact business concept. Do not make generic assumptions.`;
+// Serves the cached text when this exact prompt was already answered for this
+// revision of the idea; regenerate skips the lookup and overwrites the entry.
+const generateCachedText = async (request: AIRequest, idea: BusinessIdea, regenerate: boolean): Promise<string> => {
+  const { key, cached } = await lookupCachedResponse(request, idea, regenerate);
+  if (cached) return cached.text;
+  const response = await getAIProvider().generate(request);
+  if (response.text) await putCachedResponse(key, request, response.text);
+  return response.text || "Analysis failed.";
+};
 
-  if (type === 'coding-prompts') {
-    prompt += `\n\nSpecifically, create a comprehensive "Master System Prompt" and coding agent prompts (for tools like Cursor, Windsurf, or Bolt) that a developer can use to build this exact application. Include architecture, tech stack recommendations, and step-by-step implementation prompts.`;
+// Yields the accumulated text after every chunk, so callers can render it directly.
+// Only complete streams are cached; stopping early leaves the cache untouched.
+async function* streamText(request: AIRequest, idea: BusinessIdea, signal?: AbortSignal, regenerate = false): AsyncGenerator<StreamedText> {
+  const { key, cached } = await lookupCachedResponse(request, idea, regenerate);
+  if (cached) {
+    yield { text: cached.text, cachedAt: cached.createdAt, promptVersion: request.promptVersion };
+    return;
+  }
+  // Someone is watching the text arrive, so streams go ahead of queued background work
+  const stream = await getAIProvider().generateStream({ ...request, signal, priority: 'interactive' });
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk.text;
+    yield { text, promptVersion: request.promptVersion };
   }
+  if (text) await putCachedResponse(key, request, text);
+}
 
+// Cancellation is rethrown rather than turned into a fallback message, so a
+// stale result never lands in the UI. So is a paused provider, so exports that
+// combine many sections can stop and say why instead of embedding fallbacks.
+export const generateArtifact = async (idea: BusinessIdea, artifact: ArtifactTemplate, signal?: AbortSignal, priority?: RequestPriority, regenerate = false): Promise<string> => {
   try {
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelId,
-        contents: prompt,
-        config: { tools: [{ googleSearch: {} }] }
-    }));
-    return response.text || "Analysis failed.";
+    return await generateCachedText({ ...buildArtifactRequest(idea, artifact), signal, priority }, idea, regenerate);
   } catch (e) {
+    if (isAbortError(e) || e instanceof AIUnavailableError) throw e;
     console.error("Artifact generation error", e);
     return "Sorry, I couldn't generate that right now.";
   }
 };
 
-export const generateSectionDeepDive = async (idea: BusinessIdea, section: string): Promise<string> => {
-  const modelId = 'gemini-3.5-flash';
-  const prompt = `Provide a detailed deep dive analysis for the "${section}" of the business idea "${idea.title}".
-  
-Business Description:
-${idea.description}
-
-Use Google Search for the latest signals to validate and expand upon this specific business concept.`;
+export const generateArtifactStream = (idea: BusinessIdea, artifact: ArtifactTemplate, signal?: AbortSignal, regenerate = false): AsyncGenerator<StreamedText> =>
+  streamText(buildArtifactRequest(idea, artifact), idea, signal, regenerate);
 
+export const generateSectionDeepDive = async (idea: BusinessIdea, section: DeepDiveSection, signal?: AbortSignal, regenerate = false): Promise<string> => {
   try {
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelId,
-        contents: prompt,
-        config: { tools: [{ googleSearch: {} }] }
-    }));
-    return response.text || "Analysis failed.";
+    return await generateCachedText({ ...buildSectionDeepDiveRequest(idea, section), signal }, idea, regenerate);
   } catch (e) {
+    if (isAbortError(e) || e instanceof AIUnavailableError) throw e;
     console.error("Deep dive generation error", e);
     return "Sorry, I couldn't generate that analysis right now.";
   }
 };
 
-export const generateFullAnalysis = async (idea: BusinessIdea): Promise<string> => {
-  const modelId = 'gemini-3.5-flash';
-  const prompt = `Create a comprehensive Investment Memo and Deep Dive Report for the business idea: "${idea.title}".
-  
-Business Description:
-${idea.description}
-
-Use search for validation and provide specific, relevant insights for this exact concept.`;
+export const generateSectionDeepDiveStream = (idea: BusinessIdea, section: DeepDiveSection, signal?: AbortSignal, regenerate = false): AsyncGenerator<StreamedText> =>
+  streamText(buildSectionDeepDiveRequest(idea, section), idea, signal, regenerate);
 
+export const generateFullAnalysis = async (idea: BusinessIdea, signal?: AbortSignal, regenerate = false): Promise<string> => {
   try {
-    const response = await withRetry<GenerateContentResponse>(() => ai.models.generateContent({
-        model: modelId,
-        contents: prompt,
-        config: { tools: [{ googleSearch: {} }] }
-    }));
-    return response.text || "Analysis failed.";
+    return await generateCachedText({ ...buildFullAnalysisRequest(idea), signal }, idea, regenerate);
   } catch (e) {
+    if (isAbortError(e) || e instanceof AIUnavailableError) throw e;
     console.error("Full analysis generation error", e);
     return "Sorry, I couldn't generate the full analysis right now.";
   }
 };
 
-export const createWhiteboardChatSession = (nodes: any[]): Chat => {
+export const generateFullAnalysisStream = (idea: BusinessIdea, signal?: AbortSignal, regenerate = false): AsyncGenerator<StreamedText> =>
+  streamText(buildFullAnalysisRequest(idea), idea, signal, regenerate);
+
+const slideBulletsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    slides: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          bullets: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["id", "bullets"]
+      }
+    }
+  },
+  required: ["slides"]
+};
+
+// Rewrites long sections as slide bullets, keyed by section id. Sections the
+// model skipped are simply missing, so the caller keeps its own split for them.
+export const condenseForSlides = async (idea: BusinessIdea, sections: SlideSource[], signal?: AbortSignal): Promise<Record<string, string[]>> => {
+  const prompt = renderPrompt(PROMPTS.condenseSlides, { title: idea.title, sections });
+  const request: AIRequest = {
+    ...promptRequest('condenseSlides', idea, prompt),
+    config: { responseMimeType: "application/json", responseSchema: slideBulletsSchema },
+    signal,
+  };
+  const parsed = parseGeminiResponse(await generateCachedText(request, idea, false)) as { slides?: { id: string; bullets: string[] }[] };
+  const known = new Set(sections.map(s => s.id));
+  return Object.fromEntries((parsed.slides || [])
+    .filter(slide => known.has(slide.id) && Array.isArray(slide.bullets) && slide.bullets.length > 0)
+    .map(slide => [slide.id, slide.bullets.map(b => String(b).trim()).filter(Boolean)]));
+};
+
+const financialAssumptionsSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    monthlyVisitors: { type: Type.NUMBER },
+    visitorGrowth: { type: Type.NUMBER },
+    conversions: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+    monthlyChurn: { type: Type.NUMBER },
+    fixedCosts: { type: Type.NUMBER },
+    marketingSpend: { type: Type.NUMBER },
+    variableCosts: { type: Type.NUMBER },
+    rationale: { type: Type.STRING }
+  },
+  required: ["monthlyVisitors", "visitorGrowth", "conversions", "monthlyChurn", "fixedCosts", "marketingSpend", "variableCosts"]
+};
+
+export interface ProposedAssumptions extends Partial<Omit<FinancialAssumptions, 'steps' | 'currency'>> {
+  conversions?: number[];
+  rationale?: string;
+}
+
+// Starting values for the financial model; the caller clamps them with mergeAssumptions
+export const proposeFinancialAssumptions = async (idea: BusinessIdea, signal?: AbortSignal, regenerate = false): Promise<ProposedAssumptions> => {
+  const prompt = renderPrompt(PROMPTS.financialAssumptions, { idea });
+  const request: AIRequest = {
+    ...promptRequest('financialAssumptions', idea, prompt),
+    config: { responseMimeType: "application/json", responseSchema: financialAssumptionsSchema },
+    signal,
+  };
+  return parseGeminiResponse(await generateCachedText(request, idea, regenerate)) as ProposedAssumptions;
+};
+
+const ladderStepSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    type: { type: Type.STRING },
+    title: { type: Type.STRING },
+    description: { type: Type.STRING },
+    price: { type: Type.STRING },
+    valueProvided: { type: Type.STRING },
+    goal: { type: Type.STRING }
+  },
+  required: ["type", "title", "description", "price", "valueProvided", "goal"]
+};
+
+const LADDER_STEP_KEYS = ['type', 'title', 'description', 'price', 'valueProvided', 'goal'] as const;
+
+// Always a fresh answer: the user asked for a different take on this step
+export const regenerateLadderStep = async (idea: BusinessIdea, index: number, signal?: AbortSignal): Promise<ValueLadderStep> => {
+  const prompt = renderPrompt(PROMPTS.regenerateLadderStep, { idea, index });
+  const request: AIRequest = {
+    ...promptRequest('regenerateLadderStep', idea, prompt),
+    config: { responseMimeType: "application/json", responseSchema: ladderStepSchema },
+    signal,
+  };
+  // Each regeneration asks for a fresh alternative, so nothing is cached
+  const { text } = await getAIProvider().generate(request);
+  const step = parseGeminiResponse(text) as ValueLadderStep;
+  const missing = LADDER_STEP_KEYS.filter(key => typeof step?.[key] !== 'string' || !step[key].trim());
+  if (missing.length) throw new IdeaParseError(`The AI returned an incomplete ladder step. Missing: ${missing.join(', ')}`, text);
+  return {
+    type: step.type, title: step.title, description: step.description,
+    price: step.price, valueProvided: step.valueProvided, goal: step.goal,
+  };
+};
+
+export const createWhiteboardChatSession = (nodes: any[]): AIChatSession => {
   const modelId = 'gemini-3.5-flash';
 
-  const systemInstruction = `
-    You are an AI Creative Partner on a digital whiteboard.
-    Current context: ${nodes.length} nodes on board.
-    Help the user brainstorm, organize, and connect ideas.
-  `;
+  const systemInstruction = renderPrompt(PROMPTS.whiteboardChat, { nodeCount: nodes.length });
   
   const tools: FunctionDeclaration[] = [
     {
@@ -599,10 +775,11 @@ export const createWhiteboardChatSession = (nodes: any[]): Chat => {
     }
   ];
 
-  return ai.chats.create({
+  return getAIProvider().createChat({
+    operation: 'whiteboardChat',
     model: modelId,
     config: {
-      systemInstruction,
+      systemInstruction: systemInstruction.text,
       tools: [{ functionDeclarations: tools }]
     }
   });
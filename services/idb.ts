@@ -0,0 +1,45 @@
+// Promise wrappers around the IndexedDB callback API.
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => void
+): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction as IDBTransaction);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn(`Upgrade of ${name} is blocked by another open tab`);
+  });
+
+/** Runs fn inside a transaction and resolves with its result once the transaction commits. */
+export const withStore = async <T>(
+  db: IDBDatabase,
+  storeName: string | string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const tx = db.transaction(storeName, mode);
+  const done = transactionDone(tx);
+  const result = await fn(tx);
+  await done;
+  return result;
+};
@@ -0,0 +1,56 @@
+import { ChatMessage, ChatThread } from '../types';
+
+// Named chat threads per idea. Threads are stored with storageRepository;
+// these helpers build, title, search and export them.
+
+const DEFAULT_TITLE = 'New chat';
+const AUTO_TITLE_LENGTH = 48;
+const SNIPPET_RADIUS = 40;
+
+export interface ThreadMatch {
+  thread: ChatThread;
+  snippet?: string; // Message text around the first hit, when the title itself didn't match
+}
+
+export const createChatThread = (ideaId: string): ChatThread => {
+  const now = new Date().toISOString();
+  return {
+    id: `chat-${Math.random().toString(36).substr(2, 9)}`,
+    ideaId,
+    title: DEFAULT_TITLE,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/** Replaces the messages; an untitled thread is named after its first question. */
+export const withMessages = (thread: ChatThread, messages: ChatMessage[]): ChatThread => {
+  const firstQuestion = messages.find(message => message.role === 'user')?.text.trim().replace(/\s+/g, ' ');
+  const title = thread.title === DEFAULT_TITLE && firstQuestion
+    ? firstQuestion.length > AUTO_TITLE_LENGTH ? `${firstQuestion.slice(0, AUTO_TITLE_LENGTH).trimEnd()}…` : firstQuestion
+    : thread.title;
+  return { ...thread, title, messages, updatedAt: new Date().toISOString() };
+};
+
+/** Case-insensitive match on thread titles and message text. */
+export const searchThreads = (threads: ChatThread[], query: string): ThreadMatch[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return threads.map(thread => ({ thread }));
+  return threads.flatMap(thread => {
+    if (thread.title.toLowerCase().includes(needle)) return [{ thread }];
+    const message = thread.messages.find(m => m.text.toLowerCase().includes(needle));
+    if (!message) return [];
+    const at = message.text.toLowerCase().indexOf(needle);
+    const start = Math.max(0, at - SNIPPET_RADIUS);
+    const end = Math.min(message.text.length, at + needle.length + SNIPPET_RADIUS);
+    const snippet = `${start > 0 ? '…' : ''}${message.text.slice(start, end).replace(/\s+/g, ' ')}${end < message.text.length ? '…' : ''}`;
+    return [{ thread, snippet }];
+  });
+};
+
+export const threadToMarkdown = (thread: ChatThread, ideaTitle: string): string => [
+  `# ${thread.title}`,
+  `*Idea: ${ideaTitle} · Started ${new Date(thread.createdAt).toLocaleString()} · Last message ${new Date(thread.updatedAt).toLocaleString()}*`,
+  ...thread.messages.map(message => `## ${message.role === 'user' ? 'You' : 'Consultant'}\n\n${message.text}`),
+].join('\n\n') + '\n';
@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffWords } from './ideaEdits';
+
+test('word diff marks the removed words before the added ones', () => {
+  assert.deepEqual(diffWords('Sell to small clinics', 'Sell to large clinics'), [
+    { type: 'same', text: 'Sell to ' },
+    { type: 'removed', text: 'small' },
+    { type: 'added', text: 'large' },
+    { type: 'same', text: ' clinics' },
+  ]);
+});
+
+test('long texts fall back to the old and new text', () => {
+  const before = Array.from({ length: 300 }, (_, idx) => `old${idx}`).join(' ');
+  const after = Array.from({ length: 300 }, (_, idx) => `new${idx}`).join(' ');
+  assert.deepEqual(diffWords(before, after), [{ type: 'removed', text: before }, { type: 'added', text: after }]);
+});
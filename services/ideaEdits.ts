@@ -0,0 +1,207 @@
+import { FunctionCall, Part } from '@google/genai';
+import { BusinessIdea, ValueLadderStep } from '../types';
+import { ProvenanceField, markEstimated } from './provenance';
+import { insertLadderSteps, updateLadderStep } from './valueLadder';
+
+// Turns idea-chat function calls into edits the user reviews before anything
+// changes. Each edit carries a before/after text for the diff and applies
+// itself to whatever the idea looks like when it is accepted.
+
+export const EDITABLE_SECTIONS = {
+  description: 'Description',
+  whyNow: 'Why Now',
+  proofAndSignals: 'Proof & Signals',
+  marketGap: 'Market Gap',
+  executionPlan: 'Execution Plan',
+} as const;
+
+export const EDITABLE_KPIS = {
+  opportunity: 'Opportunity',
+  problem: 'Problem',
+  feasibility: 'Feasibility',
+  whyNow: 'Why Now',
+} as const;
+
+type EditableSection = keyof typeof EDITABLE_SECTIONS;
+type EditableKpi = keyof typeof EDITABLE_KPIS;
+
+export interface IdeaEdit {
+  id: string;
+  call: FunctionCall; // Answered with a function response once the user decides
+  label: string;
+  field: ProvenanceField;
+  rationale?: string;
+  before: string;
+  after: string;
+  apply: (idea: BusinessIdea) => BusinessIdea;
+}
+
+export interface DiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Word diffs above this many token pairs just show the old and new text,
+// which keeps the table small enough to build while the card renders
+const MAX_DIFF_CELLS = 40_000;
+
+const STEP_KEYS = ['type', 'title', 'description', 'price', 'valueProvided', 'goal'] as const;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const toStep = (value: unknown): ValueLadderStep | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const raw = value as Record<string, unknown>;
+  const step = Object.fromEntries(STEP_KEYS.map(key => [key, text(raw[key])])) as Record<typeof STEP_KEYS[number], string>;
+  return step.title && step.price ? step : null;
+};
+
+const stepText = (step: ValueLadderStep) =>
+  `${step.type}: ${step.title} (${step.price})\n${step.description}\nValue: ${step.valueProvided}\nGoal: ${step.goal}`;
+
+const ladderText = (steps: ValueLadderStep[]) => steps.map((step, idx) => `${idx + 1}. ${step.type}: ${step.title} (${step.price})`).join('\n');
+
+const sectionValue = (idea: BusinessIdea, section: EditableSection) =>
+  section === 'description' ? idea.description : idea.sections[section];
+
+const toEdit = (idea: BusinessIdea, call: FunctionCall): Omit<IdeaEdit, 'call'> | string => {
+  const args = (call.args || {}) as Record<string, any>;
+  const rationale = text(args.rationale) || undefined;
+
+  switch (call.name) {
+    case 'update_section': {
+      const section = args.section as EditableSection;
+      const content = text(args.content);
+      if (!(section in EDITABLE_SECTIONS) || !content) return 'update_section needs a known section and new content.';
+      const field: ProvenanceField = section === 'description' ? 'description' : `sections.${section}`;
+      return {
+        id: newId(), label: EDITABLE_SECTIONS[section], field, rationale,
+        before: sectionValue(idea, section), after: content,
+        apply: current => markEstimated(section === 'description'
+          ? { ...current, description: content }
+          : { ...current, sections: { ...current.sections, [section]: content } }, field),
+      };
+    }
+
+    case 'adjust_kpi': {
+      const kpi = args.kpi as EditableKpi;
+      if (!(kpi in EDITABLE_KPIS) || typeof args.score !== 'number' || !isFinite(args.score)) return 'adjust_kpi needs a known KPI and a numeric score.';
+      if (!rationale) return `The ${EDITABLE_KPIS[kpi]} score change came without a rationale.`;
+      const score = Math.min(10, Math.max(0, Math.round(args.score * 10) / 10));
+      const current = idea.kpi[kpi];
+      const label = text(args.label) || current.label;
+      const field: ProvenanceField = `kpi.${kpi}`;
+      return {
+        id: newId(), label: `${EDITABLE_KPIS[kpi]} score`, field, rationale,
+        before: `${current.score}/10 · ${current.label}`, after: `${score}/10 · ${label}`,
+        apply: idea => markEstimated({ ...idea, kpi: { ...idea.kpi, [kpi]: { score, label } } }, field),
+      };
+    }
+
+    case 'add_ladder_steps': {
+      const steps = Array.isArray(args.steps) ? args.steps.map(toStep) : [];
+      if (steps.length === 0 || steps.some(step => !step)) return 'add_ladder_steps needs steps with at least a title and price.';
+      const offer = idea.sections.offer;
+      const at = typeof args.position === 'number' ? Math.min(offer.length, Math.max(0, Math.round(args.position) - 1)) : offer.length;
+      const added = steps as ValueLadderStep[];
+      return {
+        id: newId(), label: `Value ladder: add ${added.length} step${added.length === 1 ? '' : 's'}`, field: 'sections.offer', rationale,
+        before: ladderText(offer), after: ladderText([...offer.slice(0, at), ...added, ...offer.slice(at)]),
+        apply: idea => markEstimated(insertLadderSteps(idea, added, Math.min(at, idea.sections.offer.length)), 'sections.offer'),
+      };
+    }
+
+    case 'replace_ladder_step': {
+      const step = toStep(args.step);
+      const index = typeof args.stepNumber === 'number' ? Math.round(args.stepNumber) - 1 : -1;
+      const existing = idea.sections.offer[index];
+      if (!step || !existing) return `replace_ladder_step needs a step number between 1 and ${idea.sections.offer.length} and a full step.`;
+      return {
+        id: newId(), label: `Value ladder: step ${index + 1}`, field: 'sections.offer', rationale,
+        before: stepText(existing), after: stepText(step),
+        apply: idea => idea.sections.offer[index] ? markEstimated(updateLadderStep(idea, index, step), 'sections.offer') : idea,
+      };
+    }
+
+    case 'add_tags': {
+      const existing = idea.tags || [];
+      const known = new Set(existing.map(tag => tag.toLowerCase()));
+      const tags = (Array.isArray(args.tags) ? args.tags.map(text) : [])
+        .filter((tag: string, idx: number, all: string[]) => tag && !known.has(tag.toLowerCase()) && all.findIndex(t => t.toLowerCase() === tag.toLowerCase()) === idx);
+      if (tags.length === 0) return 'add_tags only suggested tags the idea already has.';
+      return {
+        id: newId(), label: 'Tags', field: 'tags', rationale,
+        before: existing.join(', '), after: [...existing, ...tags].join(', '),
+        apply: idea => {
+          const current = new Set((idea.tags || []).map(tag => tag.toLowerCase()));
+          return markEstimated({ ...idea, tags: [...(idea.tags || []), ...tags.filter((tag: string) => !current.has(tag.toLowerCase()))] }, 'tags');
+        },
+      };
+    }
+
+    default:
+      return `Unknown tool ${call.name}.`;
+  }
+};
+
+/** Builds reviewable edits from the calls; calls with unusable arguments are reported as skipped. */
+export const toIdeaEdits = (idea: BusinessIdea, calls: FunctionCall[]): { edits: IdeaEdit[]; skipped: { call: FunctionCall; reason: string }[] } => {
+  const edits: IdeaEdit[] = [];
+  const skipped: { call: FunctionCall; reason: string }[] = [];
+  calls.forEach(call => {
+    const result = toEdit(idea, call);
+    if (typeof result === 'string') skipped.push({ call, reason: result });
+    else edits.push({ ...result, call });
+  });
+  return { edits, skipped };
+};
+
+/** The answer to a tool call, sent back to the model in the next turn. */
+export const toolResponse = (call: FunctionCall, response: Record<string, unknown>): Part => ({
+  functionResponse: { id: call.id, name: call.name, response },
+});
+
+export const editDecisionResponse = (edit: IdeaEdit, accepted: boolean): Part =>
+  toolResponse(edit.call, {
+    output: accepted ? `The user accepted the change to ${edit.label}; it is now part of the idea.` : `The user rejected the change to ${edit.label}; the idea is unchanged.`,
+  });
+
+/** Word-level diff for the review card; whitespace stays attached to the words around it. */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ type: 'removed', text: before }, { type: 'added', text: after }].filter(segment => segment.text) as DiffSegment[];
+  }
+
+  // Longest common subsequence, filled from the end so the walk below goes forwards
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], token: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) last.text += token;
+    else segments.push({ type, text: token });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,119 @@
+import { BusinessIdea, DraftIdea } from '../types';
+import { analyzeUserIdea } from './geminiService';
+import { isAbortError } from './aiProvider';
+import { IdeaParseError, IdeaValidationError } from './ideaValidation';
+import { AIUnavailableError } from './requestScheduler';
+
+// Ideas imported from a spreadsheet wait here as drafts and are researched one
+// at a time with analyzeUserIdea. The queue lives in localStorage, so a reload
+// picks up where it left off; a draft interrupted mid-request is retried.
+
+const QUEUE_KEY = 'ideaImportQueue';
+
+export interface ImportRow {
+  title: string;
+  description: string;
+}
+
+const loadQueue = (): DraftIdea[] => {
+  try {
+    const saved = localStorage.getItem(QUEUE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to read ${QUEUE_KEY}`, e);
+  }
+  return [];
+};
+
+let drafts: DraftIdea[] = loadQueue();
+let onResearched: ((idea: BusinessIdea) => void) | null = null;
+let controller: AbortController | null = null;
+
+const listeners = new Set<(drafts: DraftIdea[]) => void>();
+
+const setDrafts = (next: DraftIdea[]) => {
+  drafts = next;
+  try {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(drafts));
+  } catch (e) {
+    console.error("Failed to persist the import queue", e);
+  }
+  listeners.forEach(listener => listener(drafts));
+};
+
+const updateDraft = (id: string, update: Partial<DraftIdea>) =>
+  setDrafts(drafts.map(draft => draft.id === id ? { ...draft, ...update } : draft));
+
+const describe = (draft: DraftIdea) => draft.description ? `${draft.title}\n\n${draft.description}` : draft.title;
+
+// Single worker: returns straight away if one is already running
+const processQueue = async () => {
+  if (controller || !onResearched) return;
+  controller = new AbortController();
+  const { signal } = controller;
+  try {
+    for (let next = drafts.find(d => d.status === 'Research queued'); next && !signal.aborted; next = drafts.find(d => d.status === 'Research queued')) {
+      const draft = next;
+      try {
+        const idea = await analyzeUserIdea(describe(draft), undefined, signal);
+        // The draft may have been removed while it was being researched
+        if (!drafts.some(d => d.id === draft.id)) continue;
+        updateDraft(draft.id, { status: 'Researched', ideaId: idea.id, error: undefined });
+        onResearched?.(idea);
+      } catch (e) {
+        if (isAbortError(e)) break;
+        console.error("Queued research failed", draft.title, e);
+        const error = e instanceof IdeaValidationError || e instanceof IdeaParseError || e instanceof AIUnavailableError ? e.message : "Research failed.";
+        updateDraft(draft.id, { status: 'Not started', error });
+      }
+    }
+  } finally {
+    if (controller?.signal === signal) controller = null;
+  }
+};
+
+export const getImportQueue = (): DraftIdea[] => drafts;
+
+export const subscribeToImportQueue = (listener: (drafts: DraftIdea[]) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Adds rows as drafts waiting for research. Blank titles are skipped. */
+export const queueIdeas = (rows: ImportRow[]): DraftIdea[] => {
+  const createdAt = `Created on ${new Date().toLocaleDateString('en-US', { month: 'numeric', day: 'numeric', year: 'numeric' })}`;
+  const added: DraftIdea[] = rows
+    .filter(row => row.title.trim())
+    .map(row => ({
+      id: `draft-${Math.random().toString(36).substr(2, 9)}`,
+      title: row.title.trim(),
+      description: row.description.trim() || undefined,
+      status: 'Research queued',
+      createdAt,
+    }));
+  setDrafts([...drafts, ...added]);
+  processQueue();
+  return added;
+};
+
+export const retryDraft = (id: string) => {
+  updateDraft(id, { status: 'Research queued', error: undefined });
+  processQueue();
+};
+
+export const removeDraft = (id: string) => setDrafts(drafts.filter(draft => draft.id !== id));
+
+/**
+ * Starts researching queued drafts; each finished idea is handed to the
+ * callback. Returns a function that stops the worker and aborts the request
+ * in flight, leaving that draft queued.
+ */
+export const startImportQueue = (handleResearched: (idea: BusinessIdea) => void) => {
+  onResearched = handleResearched;
+  processQueue();
+  return () => {
+    onResearched = null;
+    controller?.abort();
+    controller = null;
+  };
+};
@@ -0,0 +1,39 @@
+import { BusinessIdea } from '../types';
+
+// Stored ideas carry the schema version they were written with and are
+// upgraded on read, one step at a time. Add a step (and bump the version)
+// whenever the BusinessIdea shape changes in a way old records don't satisfy.
+
+export const IDEA_SCHEMA_VERSION = 2;
+
+// Ideas kept in localStorage before the repository existed are version 1
+export const LEGACY_IDEA_VERSION = 1;
+
+type Migration = (idea: Record<string, any>) => Record<string, any>;
+
+// MIGRATIONS[n] upgrades an idea from version n + 1 to n + 2
+const MIGRATIONS: Migration[] = [
+  // 1 -> 2: early ideas predate validation, so list fields the views map over
+  // could be missing, and saved reports had no date.
+  (idea) => ({
+    ...idea,
+    tags: Array.isArray(idea.tags) ? idea.tags : [],
+    priceRange: idea.priceRange || 'Variable',
+    trendData: Array.isArray(idea.trendData) ? idea.trendData : [],
+    relatedKeywords: Array.isArray(idea.relatedKeywords) ? idea.relatedKeywords : undefined,
+    sections: { ...idea.sections, offer: Array.isArray(idea.sections?.offer) ? idea.sections.offer : [] },
+    sources: Array.isArray(idea.sources) ? idea.sources : undefined,
+    savedReports: Array.isArray(idea.savedReports)
+      ? idea.savedReports.map((report: Record<string, any>) => ({ ...report, date: report.date || idea.date || '' }))
+      : undefined,
+  }),
+];
+
+export const migrateIdea = (idea: Record<string, any>, fromVersion: number): BusinessIdea => {
+  if (fromVersion > IDEA_SCHEMA_VERSION) {
+    // Written by a newer build; leave it alone rather than guess
+    console.warn(`Idea ${idea.id} has schema version ${fromVersion}, newer than ${IDEA_SCHEMA_VERSION}`);
+    return idea as BusinessIdea;
+  }
+  return MIGRATIONS.slice(Math.max(0, fromVersion - 1)).reduce((current, migrate) => migrate(current), idea) as BusinessIdea;
+};
@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MOCK_IDEA_RESPONSE } from './mockFixtures';
+import { getRepairKeys, mergeRepair, validateBusinessIdea } from './ideaValidation';
+
+const clone = () => JSON.parse(JSON.stringify(MOCK_IDEA_RESPONSE));
+
+test('a complete idea has no issues', () => {
+  assert.deepEqual(validateBusinessIdea(clone()), []);
+});
+
+test('missing and malformed fields are told apart', () => {
+  const idea = clone();
+  delete idea.trendKeyword;
+  idea.kpi.problem.score = 14;
+  idea.tags = [];
+  assert.deepEqual(validateBusinessIdea(idea).map(({ path, problem }) => ({ path, problem })), [
+    { path: 'tags', problem: 'missing' },
+    { path: 'trendKeyword', problem: 'missing' },
+    { path: 'kpi.problem.score', problem: 'malformed' },
+  ]);
+});
+
+test('each value ladder step is checked', () => {
+  const idea = clone();
+  idea.sections.offer[1].price = '';
+  assert.deepEqual(validateBusinessIdea(idea).map(issue => issue.path), ['sections.offer[1].price']);
+});
+
+test('output that is not an object is reported as a whole', () => {
+  assert.deepEqual(validateBusinessIdea([]).map(issue => issue.path), ['idea']);
+  assert.deepEqual(getRepairKeys(validateBusinessIdea('text')), []);
+});
+
+test('repairs are requested for the top-level fields that failed', () => {
+  const idea = clone();
+  idea.kpi.problem.label = '';
+  idea.sections.offer[0].goal = 42;
+  delete idea.communitySignals;
+  assert.deepEqual(getRepairKeys(validateBusinessIdea(idea)), ['kpi', 'sections', 'communitySignals']);
+});
+
+test('a repair is merged one level deep and only for the requested fields', () => {
+  const original = { title: 'Original', kpi: { opportunity: 'kept', problem: 'broken' } };
+  const repair = { title: 'Renamed', kpi: { problem: 'fixed' } };
+  assert.deepEqual(mergeRepair(original, repair, ['kpi', 'tags']), {
+    title: 'Original',
+    kpi: { opportunity: 'kept', problem: 'fixed' },
+  });
+});
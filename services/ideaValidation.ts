@@ -0,0 +1,159 @@
+import { BusinessIdea } from '../types';
+
+// Fields the model is responsible for. id, date, priceRange and sources are
+// filled in by the service layer, never by the model.
+export type ModelIdea = Omit<BusinessIdea, 'id' | 'date' | 'priceRange' | 'sources' | 'savedReports' | 'provenance' | 'promptVersion'> & { priceRange?: string };
+
+export interface ValidationIssue {
+  path: string;
+  problem: 'missing' | 'malformed';
+  message: string;
+}
+
+export class IdeaParseError extends Error {
+  rawText: string;
+
+  constructor(message: string, rawText: string) {
+    super(message);
+    this.name = 'IdeaParseError';
+    this.rawText = rawText;
+  }
+}
+
+export class IdeaValidationError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    const fields = Array.from(new Set(issues.map(i => i.path))).join(', ');
+    super(`The AI returned an incomplete idea. Missing or malformed fields: ${fields}`);
+    this.name = 'IdeaValidationError';
+    this.issues = issues;
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const KPI_KEYS = ['opportunity', 'problem', 'feasibility', 'whyNow'] as const;
+const SECTION_TEXT_KEYS = ['whyNow', 'proofAndSignals', 'marketGap', 'executionPlan'] as const;
+const COMMUNITY_KEYS = ['reddit', 'facebook', 'youtube', 'other'] as const;
+const OFFER_KEYS = ['type', 'title', 'description', 'price', 'valueProvided', 'goal'] as const;
+
+const createChecker = (issues: ValidationIssue[]) => {
+  const report = (path: string, value: unknown, expected: string) => {
+    if (value === undefined || value === null || value === '') {
+      issues.push({ path, problem: 'missing', message: `${path} is missing` });
+    } else {
+      issues.push({ path, problem: 'malformed', message: `${path} should be ${expected}` });
+    }
+  };
+
+  return {
+    text: (path: string, value: unknown) => {
+      if (typeof value !== 'string' || value.trim() === '') report(path, value, 'a non-empty string');
+    },
+    score: (path: string, value: unknown, min: number, max: number) => {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        report(path, value, `a number between ${min} and ${max}`);
+      }
+    },
+    textList: (path: string, value: unknown) => {
+      if (!Array.isArray(value) || value.length === 0 || value.some(v => typeof v !== 'string' || v.trim() === '')) {
+        report(path, Array.isArray(value) && value.length === 0 ? undefined : value, 'a non-empty list of strings');
+      }
+    },
+    object: (path: string, value: unknown): value is Record<string, any> => {
+      if (!isObject(value)) {
+        report(path, value, 'an object');
+        return false;
+      }
+      return true;
+    },
+  };
+};
+
+/**
+ * Checks raw model output against the BusinessIdea contract and reports every
+ * field that is missing or has the wrong shape. Nothing is filled in here.
+ */
+export const validateBusinessIdea = (raw: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const check = createChecker(issues);
+
+  if (!check.object('idea', raw)) return issues;
+
+  check.text('title', raw.title);
+  check.text('description', raw.description);
+  check.textList('tags', raw.tags);
+  check.text('trendKeyword', raw.trendKeyword);
+  check.text('trendVolume', raw.trendVolume);
+  check.text('trendGrowth', raw.trendGrowth);
+  check.textList('relatedKeywords', raw.relatedKeywords);
+
+  if (!Array.isArray(raw.trendData) || raw.trendData.length < 2) {
+    issues.push({ path: 'trendData', problem: raw.trendData ? 'malformed' : 'missing', message: 'trendData should contain at least 2 points' });
+  } else if (raw.trendData.some((p: any) => !isObject(p) || typeof p.date !== 'string' || typeof p.value !== 'number' || !Number.isFinite(p.value))) {
+    issues.push({ path: 'trendData', problem: 'malformed', message: 'trendData points need a string date and a numeric value' });
+  }
+
+  if (check.object('kpi', raw.kpi)) {
+    KPI_KEYS.forEach(key => {
+      const path = `kpi.${key}`;
+      if (check.object(path, raw.kpi[key])) {
+        check.score(`${path}.score`, raw.kpi[key].score, 0, 10);
+        check.text(`${path}.label`, raw.kpi[key].label);
+      }
+    });
+  }
+
+  if (check.object('businessFit', raw.businessFit)) {
+    const fit = raw.businessFit;
+    check.text('businessFit.revenuePotential', fit.revenuePotential);
+    check.text('businessFit.revenuePotentialDescription', fit.revenuePotentialDescription);
+    check.score('businessFit.executionDifficulty', fit.executionDifficulty, 1, 10);
+    check.text('businessFit.executionDifficultyDescription', fit.executionDifficultyDescription);
+    check.score('businessFit.goToMarket', fit.goToMarket, 1, 10);
+    check.text('businessFit.goToMarketDescription', fit.goToMarketDescription);
+    check.text('businessFit.founderFitDescription', fit.founderFitDescription);
+  }
+
+  if (check.object('sections', raw.sections)) {
+    const { offer } = raw.sections;
+    if (!Array.isArray(offer) || offer.length === 0) {
+      issues.push({ path: 'sections.offer', problem: offer ? 'malformed' : 'missing', message: 'sections.offer should list at least one value ladder step' });
+    } else {
+      offer.forEach((step: unknown, idx: number) => {
+        const path = `sections.offer[${idx}]`;
+        if (check.object(path, step)) {
+          OFFER_KEYS.forEach(key => check.text(`${path}.${key}`, step[key]));
+        }
+      });
+    }
+    SECTION_TEXT_KEYS.forEach(key => check.text(`sections.${key}`, raw.sections[key]));
+  }
+
+  if (check.object('communitySignals', raw.communitySignals)) {
+    COMMUNITY_KEYS.forEach(key => check.text(`communitySignals.${key}`, raw.communitySignals[key]));
+  }
+
+  return issues;
+};
+
+/** Top-level BusinessIdea keys that need to be re-requested to fix the given issues. */
+export const getRepairKeys = (issues: ValidationIssue[]): string[] =>
+  Array.from(new Set(issues.map(i => i.path.split(/[.[]/)[0]).filter(key => key !== 'idea')));
+
+/**
+ * Merges a repair response into the original output. Objects are merged one
+ * level deep so a repaired `kpi.problem` doesn't wipe out the other KPIs.
+ */
+export const mergeRepair = (original: Record<string, any>, repair: Record<string, any>, keys: string[]) => {
+  const merged = { ...original };
+  keys.forEach(key => {
+    if (repair[key] === undefined) return;
+    merged[key] = isObject(original[key]) && isObject(repair[key])
+      ? { ...original[key], ...repair[key] }
+      : repair[key];
+  });
+  return merged;
+};
@@ -0,0 +1,327 @@
+// Small markdown parser for model output. It produces a tree rather than HTML
+// so renderers (React, and the document exporters) decide how each node is
+// drawn, and raw HTML in the source is only ever treated as text.
+//
+// Supported: ATX headings, paragraphs, bold/italic/strikethrough, inline code,
+// links, fenced code blocks, bullet/numbered/task lists with nesting,
+// blockquotes, GFM tables and horizontal rules.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'strike'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type HeadingLevel = 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface MarkdownListItem {
+  children: MarkdownInline[];
+  checked?: boolean; // Task list items only
+  sublist?: MarkdownList;
+}
+
+export interface MarkdownList {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  items: MarkdownListItem[];
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: HeadingLevel; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'hr' }
+  | MarkdownList;
+
+// --- Inline ---
+
+const SAFE_URL = /^(https?:|mailto:|#)/i;
+
+/** Only web, mail and in-page links survive; javascript: and data: URLs render as plain text. */
+export const safeUrl = (href: string): string | null => {
+  const trimmed = href.trim();
+  return SAFE_URL.test(trimmed) ? trimmed : null;
+};
+
+const pushText = (nodes: MarkdownInline[], text: string) => {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last && last.type === 'text') last.text += text;
+  else nodes.push({ type: 'text', text });
+};
+
+// Finds the closing delimiter for an emphasis run, skipping over code spans
+const findClosing = (text: string, delimiter: string, from: number) => {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') { i += 2; continue; }
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end === -1) return -1;
+      i = end + 1;
+      continue;
+    }
+    // A single * doesn't close on half of a ** run
+    if (delimiter.length === 1 && text[i] === delimiter && text[i + 1] === delimiter) { i += 2; continue; }
+    if (text.startsWith(delimiter, i) && i > from && text[i - 1] !== ' ') return i;
+    i++;
+  }
+  return -1;
+};
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && i + 1 < text.length && /[\\`*_{}\[\]()#+\-.!|~<>]/.test(text[i + 1])) {
+      pushText(nodes, text[i + 1]);
+      i += 2;
+      continue;
+    }
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) {
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+    if (char === '[') {
+      const link = rest.match(/^\[((?:[^\[\]]|\[[^\]]*\])*)\]\(\s*<?((?:[^\s()<>]|\([^\s()]*\))+)>?(?:\s+"[^"]*")?\s*\)/);
+      if (link) {
+        const href = safeUrl(link[2]);
+        const children = parseInline(link[1]);
+        if (href) nodes.push({ type: 'link', href, children });
+        else children.forEach(child => child.type === 'text' ? pushText(nodes, child.text) : nodes.push(child));
+        i += link[0].length;
+        continue;
+      }
+    }
+    if (char === '<') {
+      const autolink = rest.match(/^<(https?:\/\/[^\s>]+)>/);
+      if (autolink) {
+        nodes.push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1] }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+    if (char === 'h' && /^https?:\/\//.test(rest) && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+      const url = rest.match(/^https?:\/\/[^\s<]+[^\s<.,:;"')\]]/);
+      if (url) {
+        nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+    if (char === '*' || char === '_' || char === '~') {
+      const double = text[i + 1] === char;
+      if (char === '~' && !double) {
+        pushText(nodes, char);
+        i++;
+        continue;
+      }
+      const delimiter = double ? char + char : char;
+      // Underscores inside words (snake_case) are not emphasis
+      const intraword = char === '_' && i > 0 && /\w/.test(text[i - 1]);
+      const start = i + delimiter.length;
+      const end = intraword || text[start] === ' ' ? -1 : findClosing(text, delimiter, start);
+      if (end !== -1) {
+        const children = parseInline(text.slice(start, end));
+        nodes.push(char === '~' ? { type: 'strike', children } : double ? { type: 'strong', children } : { type: 'em', children });
+        i = end + delimiter.length;
+        continue;
+      }
+      pushText(nodes, delimiter);
+      i += delimiter.length;
+      continue;
+    }
+    pushText(nodes, char);
+    i++;
+  }
+  return nodes;
+};
+
+/** Plain text of inline nodes, for ids, copy actions and exporters without rich text. */
+export const inlineText = (nodes: MarkdownInline[]): string => nodes.map(node => {
+  if (node.type === 'text' || node.type === 'code') return node.text;
+  if (node.type === 'break') return '\n';
+  return inlineText(node.children);
+}).join('');
+
+// --- Blocks ---
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^ {0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string) => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') { current += '|'; i++; continue; }
+    if (row[i] === '|') { cells.push(current.trim()); current = ''; continue; }
+    current += row[i];
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const isBlockStart = (line: string) =>
+  FENCE.test(line) || HEADING.test(line) || HR.test(line) || LIST_ITEM.test(line) || /^\s*>/.test(line);
+
+const indentOf = (line: string) => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+const parseList = (lines: string[], start: number): { list: MarkdownList; next: number } => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(lines[start]);
+  const ordered = /\d/.test(first[2]);
+  const list: MarkdownList = { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items: [] };
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      // A blank line only continues the list if another item follows
+      const nextLine = lines.slice(i + 1).find(l => l.trim());
+      if (nextLine && LIST_ITEM.test(nextLine) && indentOf(nextLine) >= baseIndent) { i++; continue; }
+      break;
+    }
+    const match = line.match(LIST_ITEM);
+    const indent = indentOf(line);
+    if (match && indent > baseIndent + 1 && list.items.length) {
+      const nested = parseList(lines, i);
+      list.items[list.items.length - 1].sublist = nested.list;
+      i = nested.next;
+      continue;
+    }
+    if (match && indent >= baseIndent) {
+      if (/\d/.test(match[2]) !== ordered) break;
+      const task = match[3].match(/^\[([ xX])\]\s+(.*)$/);
+      list.items.push(task
+        ? { children: parseInline(task[2]), checked: task[1] !== ' ' }
+        : { children: parseInline(match[3]) });
+      i++;
+      continue;
+    }
+    if (match || indent < baseIndent || isBlockStart(line) || !list.items.length) break;
+    // Lazy continuation of the previous item's text
+    const item = list.items[list.items.length - 1];
+    item.children.push({ type: 'text', text: ' ' }, ...parseInline(line.trim()));
+    i++;
+  }
+  return { list, next: i };
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) { i++; continue; }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      i++;
+      // An unclosed fence (common mid-stream) runs to the end
+      while (i < lines.length && !lines[i].trim().startsWith(marker)) body.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), text: body.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length as HeadingLevel, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && /^\s*>/.test(lines[i])) quoted.push(lines[i++].replace(/^\s*>\s?/, ''));
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const { list, next } = parseList(lines, i);
+      blocks.push(list);
+      i = next;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitRow(line);
+      const align: TableAlign[] = splitRow(lines[i + 1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim() && lines[i].includes('|')) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, col) => parseInline(cells[col] || '')));
+      }
+      blocks.push({ type: 'table', align: header.map((_, col) => align[col] || null), header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !(paragraph.length && isBlockStart(lines[i]))) {
+      paragraph.push(lines[i++].trim());
+    }
+    const children: MarkdownInline[] = [];
+    paragraph.forEach((text, index) => {
+      if (index > 0) children.push({ type: 'break' });
+      children.push(...parseInline(text));
+    });
+    blocks.push({ type: 'paragraph', children });
+  }
+  return blocks;
+};
+
+export interface MarkdownSection {
+  heading: Extract<MarkdownBlock, { type: 'heading' }> | null;
+  blocks: MarkdownBlock[];
+  sections: MarkdownSection[];
+}
+
+/** Nests blocks under their headings, e.g. for collapsible sections or a table of contents. */
+export const groupSections = (blocks: MarkdownBlock[]): MarkdownSection => {
+  const root: MarkdownSection = { heading: null, blocks: [], sections: [] };
+  const stack: MarkdownSection[] = [root];
+  blocks.forEach(block => {
+    if (block.type === 'heading') {
+      while (stack.length > 1 && stack[stack.length - 1].heading!.level >= block.level) stack.pop();
+      const section: MarkdownSection = { heading: block, blocks: [], sections: [] };
+      stack[stack.length - 1].sections.push(section);
+      stack.push(section);
+    } else {
+      stack[stack.length - 1].blocks.push(block);
+    }
+  });
+  return root;
+};
@@ -0,0 +1,189 @@
+import JSZip from 'jszip';
+import { BusinessIdea } from '../types';
+
+// Exports ideas as a folder of linked markdown notes that Obsidian opens as a
+// vault and Notion can import: one note per idea, per saved report and per
+// source, with YAML frontmatter and [[wiki links]] between them. Note names
+// double as link targets, so they are kept unique across the whole vault.
+
+export const VAULT_FOLDER = 'IdeaBrowser Vault';
+
+type SavedReport = NonNullable<BusinessIdea['savedReports']>[number];
+type Source = NonNullable<BusinessIdea['sources']>[number];
+type FrontmatterValue = string | number | string[] | undefined;
+
+interface SourceNote {
+  name: string;
+  source: Source;
+  citedBy: string[]; // Idea note names
+}
+
+const SECTIONS: { key: keyof Omit<BusinessIdea['sections'], 'offer'>; title: string }[] = [
+  { key: 'whyNow', title: 'Why Now' },
+  { key: 'proofAndSignals', title: 'Proof & Signals' },
+  { key: 'marketGap', title: 'Market Gap' },
+  { key: 'executionPlan', title: 'Execution Plan' },
+];
+
+const MAX_NAME_LENGTH = 80;
+
+// Characters Obsidian refuses in file names or that break wiki links
+const noteName = (text: string) =>
+  text.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH).trim() || 'Untitled';
+
+const uniqueNamer = () => {
+  const used = new Set<string>();
+  return (text: string) => {
+    const base = noteName(text);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} (${n})`;
+    used.add(name.toLowerCase());
+    return name;
+  };
+};
+
+const link = (name: string) => `[[${name}]]`;
+
+// Obsidian tags can't contain spaces and must include a non-digit
+const toTag = (tag: string) => {
+  const slug = tag.trim().toLowerCase().replace(/[^\p{L}\p{N}_/-]+/gu, '-').replace(/^-+|-+$/g, '');
+  return /^\d*$/.test(slug) ? '' : slug;
+};
+
+// JSON strings are valid YAML double-quoted scalars, which sidesteps YAML's quoting rules
+const yamlValue = (value: string | number) => typeof value === 'number' ? String(value) : JSON.stringify(value);
+
+const frontmatter = (fields: Record<string, FrontmatterValue>) => {
+  const lines = Object.entries(fields).flatMap(([key, value]) => {
+    if (value === undefined || value === '') return [];
+    if (Array.isArray(value)) return value.length ? [`${key}:`, ...value.map(item => `  - ${yamlValue(item)}`)] : [];
+    return [`${key}: ${yamlValue(value)}`];
+  });
+  return `---\n${lines.join('\n')}\n---\n`;
+};
+
+const list = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+
+const ideaNote = (
+  idea: BusinessIdea,
+  names: { idea: (id: string) => string | undefined; reports: string[]; sources: string[]; forks: string[] }
+) => {
+  const parentName = idea.parentId ? names.idea(idea.parentId) : undefined;
+  const meta = frontmatter({
+    type: 'idea',
+    id: idea.id,
+    title: idea.title,
+    date: idea.date,
+    tags: (idea.tags || []).map(toTag).filter(Boolean),
+    trend_keyword: idea.trendKeyword,
+    trend_volume: idea.trendVolume,
+    trend_growth: idea.trendGrowth,
+    kpi_opportunity: idea.kpi?.opportunity?.score,
+    kpi_problem: idea.kpi?.problem?.score,
+    kpi_feasibility: idea.kpi?.feasibility?.score,
+    kpi_why_now: idea.kpi?.whyNow?.score,
+    revenue_potential: idea.businessFit?.revenuePotential,
+    execution_difficulty: idea.businessFit?.executionDifficulty,
+    go_to_market: idea.businessFit?.goToMarket,
+    // A parent outside the export keeps its id so the relationship isn't lost
+    parent: parentName ? link(parentName) : undefined,
+    parent_id: idea.parentId,
+  });
+
+  const body = [
+    `# ${idea.title}`,
+    parentName ? `> Forked from ${link(parentName)}` : '',
+    idea.description,
+    '## KPIs',
+    [
+      '| Metric | Score | Rating |',
+      '| --- | --- | --- |',
+      ...([['Opportunity', idea.kpi?.opportunity], ['Problem', idea.kpi?.problem], ['Feasibility', idea.kpi?.feasibility], ['Why Now', idea.kpi?.whyNow]] as const)
+        .map(([label, kpi]) => `| ${label} | ${kpi?.score ?? '-'}/10 | ${kpi?.label || ''} |`),
+    ].join('\n'),
+    idea.sections?.offer?.length ? [
+      '## Value Ladder',
+      ...idea.sections.offer.map(step => `### ${step.type}: ${step.title}\n**Price:** ${step.price}\n\n${step.description}`),
+    ].join('\n\n') : '',
+    ...SECTIONS.filter(({ key }) => idea.sections?.[key]?.trim()).map(({ key, title }) => `## ${title}\n${idea.sections[key]}`),
+    idea.businessFit?.founderFitDescription ? `## Founder Fit\n${idea.businessFit.founderFitDescription}` : '',
+    names.reports.length ? `## Reports\n${list(names.reports.map(name => link(name)))}` : '',
+    names.forks.length ? `## Forks\n${list(names.forks.map(name => link(name)))}` : '',
+    names.sources.length ? `## Sources\n${list(names.sources.map(name => link(name)))}` : '',
+  ].filter(Boolean).join('\n\n');
+
+  return `${meta}\n${body}\n`;
+};
+
+const reportNote = (report: SavedReport, ideaName: string, idea: BusinessIdea) => `${frontmatter({
+  type: 'report',
+  title: report.title,
+  date: report.date,
+  idea: link(ideaName),
+  tags: (idea.tags || []).map(toTag).filter(Boolean),
+  prompt_version: report.promptVersion,
+})}
+> Report on ${link(ideaName)}
+
+${report.content}
+`;
+
+const sourceNote = ({ source, citedBy }: SourceNote) => `${frontmatter({
+  type: 'source',
+  title: source.title || source.uri,
+  url: source.uri,
+  ideas: citedBy.map(name => link(name)),
+})}
+# ${source.title || source.uri}
+
+<${source.uri}>
+
+## Cited by
+${list(citedBy.map(name => link(name)))}
+`;
+
+/**
+ * Builds the vault as a zip with Ideas/, Reports/ and Sources/ folders and an
+ * Index note. Sources shared by several ideas become a single note.
+ */
+export const buildMarkdownVault = async (ideas: BusinessIdea[]): Promise<Blob> => {
+  const nextName = uniqueNamer();
+  nextName('Index'); // Reserved for the vault's index note
+  const ideaNames = new Map(ideas.map(idea => [idea.id, nextName(idea.title)]));
+  const reportNames = new Map(ideas.map(idea => [
+    idea.id,
+    (idea.savedReports || []).map(report => nextName(`${idea.title} - ${report.title}`)),
+  ]));
+
+  const sources = new Map<string, SourceNote>();
+  ideas.forEach(idea => (idea.sources || []).forEach(source => {
+    if (!source?.uri) return;
+    const note = sources.get(source.uri) || { name: nextName(source.title || source.uri), source, citedBy: [] };
+    if (!note.citedBy.includes(ideaNames.get(idea.id)!)) note.citedBy.push(ideaNames.get(idea.id)!);
+    sources.set(source.uri, note);
+  }));
+
+  const zip = new JSZip();
+  const root = zip.folder(VAULT_FOLDER)!;
+
+  ideas.forEach(idea => {
+    const name = ideaNames.get(idea.id)!;
+    const reports = reportNames.get(idea.id)!;
+    root.file(`Ideas/${name}.md`, ideaNote(idea, {
+      idea: id => ideaNames.get(id),
+      reports,
+      sources: [...new Set((idea.sources || []).map(source => sources.get(source?.uri)?.name).filter(Boolean))],
+      forks: ideas.filter(other => other.parentId === idea.id).map(other => ideaNames.get(other.id)!),
+    }));
+    (idea.savedReports || []).forEach((report, idx) => root.file(`Reports/${reports[idx]}.md`, reportNote(report, name, idea)));
+  });
+  sources.forEach(note => root.file(`Sources/${note.name}.md`, sourceNote(note)));
+
+  root.file('Index.md', `${frontmatter({ type: 'index', exported: new Date().toISOString() })}
+# IdeaBrowser Vault
+
+${list(ideas.map(idea => `${link(ideaNames.get(idea.id)!)} (${idea.date})`))}
+`);
+
+  return zip.generateAsync({ type: 'blob' });
+};
@@ -0,0 +1,132 @@
+import { BusinessIdea, MarketTrend } from '../types';
+
+// Deterministic fixtures served by the offline mock provider. They mirror the
+// shape the real model returns for each operation so the whole app can be
+// demoed and exercised without an API key.
+
+export const MOCK_IDEA_RESPONSE: Omit<BusinessIdea, 'id' | 'date' | 'priceRange'> = {
+  title: 'ShiftLoop',
+  description: 'ShiftLoop is a scheduling co-pilot for independent clinics that turns last-minute staff cancellations into filled shifts within minutes. It watches the clinic calendar, predicts coverage gaps and offers open shifts to a vetted pool of local per-diem staff.\n\nClinic managers currently spend hours each week on phone trees and group texts. ShiftLoop replaces that with a single dashboard and automated, rules-aware outreach.\n\nRevenue comes from a per-location subscription plus a small placement fee for every filled shift.',
+  tags: ['Healthcare', 'B2B SaaS', 'Workforce', 'Marketplace'],
+  trendKeyword: 'Clinic Staffing Software',
+  trendVolume: '18.2K',
+  trendGrowth: '+164%',
+  relatedKeywords: ['Per diem staffing app', 'Clinic shift scheduling', 'Healthcare staffing platform'],
+  trendData: [
+    { date: '2022', value: 22 },
+    { date: '2023', value: 31 },
+    { date: '2024', value: 48 },
+    { date: '2025', value: 74 },
+    { date: '2026', value: 92 },
+  ],
+  kpi: {
+    opportunity: { score: 8, label: 'High' },
+    problem: { score: 9, label: 'Severe' },
+    feasibility: { score: 7, label: 'Doable' },
+    whyNow: { score: 8, label: 'Good Timing' },
+  },
+  businessFit: {
+    revenuePotential: '$$$',
+    revenuePotentialDescription: 'Recurring subscription per clinic location plus transaction fees on filled shifts.',
+    executionDifficulty: 6,
+    executionDifficultyDescription: 'Calendar integrations and credential checks add moderate complexity.',
+    goToMarket: 7,
+    goToMarketDescription: 'Sell through regional clinic associations and practice-management consultants.',
+    founderFitDescription: 'Ideal for founders with healthcare operations or staffing experience.',
+  },
+  sections: {
+    offer: [
+      { type: 'LEAD MAGNET', title: 'Coverage Gap Calculator', description: 'Free calculator estimating revenue lost to unfilled shifts.', price: 'Free', valueProvided: 'Quantifies the cost of the problem.', goal: 'Capture clinic manager emails' },
+      { type: 'FRONTEND OFFER', title: 'Shift Alert Starter', description: 'Automated open-shift alerts to up to 20 staff.', price: '$49/mo', valueProvided: 'Faster fills with zero setup.', goal: 'Low-friction first purchase' },
+      { type: 'CORE OFFER', title: 'ShiftLoop Pro', description: 'Full predictive scheduling with the local per-diem network.', price: '$299/mo', valueProvided: 'Coverage gaps filled automatically.', goal: 'Main recurring revenue' },
+    ],
+    whyNow: 'Post-pandemic burnout has pushed clinic staff toward flexible per-diem work, and most independent clinics still coordinate coverage by text message.',
+    proofAndSignals: 'Staffing is the top operational complaint in clinic manager forums, and search interest for per-diem scheduling tools has more than doubled in two years.',
+    marketGap: 'Enterprise workforce suites target hospital systems; independent clinics are left with spreadsheets and generic shift apps that ignore credentialing.',
+    executionPlan: 'Days 1-30: interview 30 clinic managers and ship the calculator. Days 31-60: pilot alerts with 5 clinics. Days 61-90: launch Pro with a local per-diem pool in one metro.',
+  },
+  communitySignals: {
+    reddit: 'r/medicine and r/nursing threads about short-notice coverage regularly reach hundreds of comments.',
+    facebook: 'Practice manager groups share coverage horror stories weekly.',
+    youtube: 'Clinic operations channels cover staffing shortages with growing view counts.',
+    other: 'Regional clinic associations list staffing as their top member concern.',
+  },
+};
+
+export const MOCK_TREND_RESPONSE: MarketTrend[] = [
+  {
+    title: 'Per-Diem Clinic Staffing',
+    volume: '18K Vol',
+    growth: '+164%',
+    description: 'Independent clinics are struggling to cover last-minute shifts. Flexible per-diem staff are plentiful but hard to coordinate, leaving room for a focused scheduling product.',
+    data: [{ date: 'Jan', value: 20 }, { date: 'Feb', value: 26 }, { date: 'Mar', value: 35 }, { date: 'Apr', value: 51 }, { date: 'May', value: 70 }, { date: 'Jun', value: 94 }],
+  },
+  {
+    title: 'Home Battery Retrofits',
+    volume: '42K Vol',
+    growth: '+212%',
+    description: 'Rising outage frequency is pushing homeowners toward battery backups. Installers are backlogged and buyers lack trustworthy sizing advice.',
+    data: [{ date: 'Jan', value: 15 }, { date: 'Feb', value: 18 }, { date: 'Mar', value: 30 }, { date: 'Apr', value: 44 }, { date: 'May', value: 61 }, { date: 'Jun', value: 80 }],
+  },
+  {
+    title: 'AI Bookkeeping for Trades',
+    volume: 'Rising Activity',
+    growth: '+98%',
+    description: 'Plumbers and electricians want receipts and invoices reconciled automatically. Generic accounting tools feel built for office businesses, not crews in vans.',
+    data: [{ date: 'Jan', value: 30 }, { date: 'Feb', value: 33 }, { date: 'Mar', value: 38 }, { date: 'Apr', value: 47 }, { date: 'May', value: 55 }, { date: 'Jun', value: 66 }],
+  },
+  {
+    title: 'Senior Tech Concierge',
+    volume: '9.7K Vol',
+    growth: '+140%',
+    description: 'Adult children are searching for trusted help setting up devices for aging parents. Local, subscription-based tech support for seniors is fragmented.',
+    data: [{ date: 'Jan', value: 12 }, { date: 'Feb', value: 14 }, { date: 'Mar', value: 21 }, { date: 'Apr', value: 29 }, { date: 'May', value: 42 }, { date: 'Jun', value: 58 }],
+  },
+];
+
+export const MOCK_SOURCES = [
+  { title: 'Offline fixture: clinic staffing survey', uri: 'https://example.com/mock/clinic-staffing-survey' },
+  { title: 'Offline fixture: per-diem workforce report', uri: 'https://example.com/mock/per-diem-report' },
+];
+
+// Spans of the idea JSON the fixture pretends were backed by search results
+export const MOCK_GROUNDED_SEGMENTS = [
+  JSON.stringify(MOCK_IDEA_RESPONSE.trendVolume),
+  JSON.stringify(MOCK_IDEA_RESPONSE.trendGrowth),
+  MOCK_IDEA_RESPONSE.sections.whyNow,
+  MOCK_IDEA_RESPONSE.sections.proofAndSignals,
+  MOCK_IDEA_RESPONSE.communitySignals.reddit,
+];
+
+export const MOCK_WHITEBOARD_NOTES = [
+  { title: 'Audience', content: 'Who feels this problem most often?', color: '#fef9c3' },
+  { title: 'Channel', content: 'Where do they already gather online?', color: '#dbeafe' },
+  { title: 'First Offer', content: 'What could we sell in the first 30 days?', color: '#dcfce7' },
+];
+
+// Matches the three-step ladder in MOCK_IDEA_RESPONSE
+export const MOCK_FINANCIAL_ASSUMPTIONS = {
+  monthlyVisitors: 3000,
+  visitorGrowth: 6,
+  conversions: [4, 15, 10],
+  monthlyChurn: 4,
+  fixedCosts: 8000,
+  marketingSpend: 3000,
+  variableCosts: 15,
+  rationale: 'Offline mock assumptions: a small paid pilot in one metro, growing through clinic associations.',
+};
+
+export const MOCK_LADDER_STEP = {
+  type: 'FRONTEND OFFER',
+  title: 'Coverage Audit',
+  description: 'A one-off review of the last 90 days of shifts with a plan to close the biggest gaps.',
+  price: '$149',
+  valueProvided: 'A concrete coverage plan before committing to a subscription.',
+  goal: 'Turn calculator leads into paying customers',
+};
+
+// Tool calls the offline idea chat makes when asked to change the idea
+export const MOCK_IDEA_EDIT_CALLS = [
+  { name: 'adjust_kpi', args: { kpi: 'feasibility', score: 6, label: 'Moderate', rationale: 'Credentialing checks for per-diem staff add integration work before launch.' } },
+  { name: 'add_tags', args: { tags: ['Healthcare', 'Staffing', 'Scheduling'] } },
+];
@@ -0,0 +1,133 @@
+import { Content, FunctionCall, Part } from '@google/genai';
+import { AIOperation, AIProvider, AIRequest, AIResponse, waitFor } from './aiProvider';
+import { MOCK_FINANCIAL_ASSUMPTIONS, MOCK_GROUNDED_SEGMENTS, MOCK_IDEA_EDIT_CALLS, MOCK_IDEA_RESPONSE, MOCK_LADDER_STEP, MOCK_SOURCES, MOCK_TREND_RESPONSE, MOCK_WHITEBOARD_NOTES } from './mockFixtures';
+
+// Small artificial delay so loading states are still visible in demo mode
+const MOCK_LATENCY_MS = 400;
+
+const MOCK_CHUNK_WORDS = 6;
+
+const delay = (ms = MOCK_LATENCY_MS, signal?: AbortSignal) => waitFor(ms, signal);
+
+// Replays a canned response a few words at a time, like a real token stream
+async function* streamResponse(response: AIResponse, signal?: AbortSignal): AsyncGenerator<AIResponse> {
+  const words = response.text.split(/(?<=\s)/);
+  for (let i = 0; i < words.length; i += MOCK_CHUNK_WORDS) {
+    await delay(40, signal);
+    const isLast = i + MOCK_CHUNK_WORDS >= words.length;
+    yield {
+      ...response,
+      text: words.slice(i, i + MOCK_CHUNK_WORDS).join(''),
+      sources: isLast ? response.sources : [],
+      functionCalls: isLast ? response.functionCalls : undefined,
+      usage: isLast ? response.usage : undefined,
+    };
+  }
+}
+
+const contentsToText = (contents: string | Part[]): string =>
+  typeof contents === 'string' ? contents : contents.map(p => p.text || '').join('\n');
+
+const mockText = (operation: AIOperation, prompt: string): string => {
+  const firstLine = prompt.trim().split('\n')[0].trim();
+  return `# ${firstLine || operation}
+
+> Offline mock response for \`${operation}\`. Switch to the live Gemini provider for real analysis.
+
+## Summary
+- The target customer feels this problem weekly and already pays for workarounds.
+- Early traction is best found in one tightly defined niche before expanding.
+- Pricing should anchor on the cost of the problem, not on competitor prices.
+
+## Next Steps
+1. Interview 10 potential customers this week.
+2. Ship a landing page with a single clear call to action.
+3. Measure sign-up conversion before building the full product.`;
+};
+
+// Rough 4-characters-per-token estimate so the usage dashboard has numbers in demo mode
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const withMockUsage = (prompt: string, response: AIResponse): AIResponse => {
+  const promptTokens = estimateTokens(prompt);
+  const responseTokens = estimateTokens(response.text);
+  return { ...response, usage: { promptTokens, responseTokens, totalTokens: promptTokens + responseTokens } };
+};
+
+const cannedResponse = (request: AIRequest): AIResponse => {
+  switch (request.operation) {
+    case 'getDailyTrends':
+      return { text: JSON.stringify({ trends: MOCK_TREND_RESPONSE }), sources: [] };
+    case 'generateBusinessIdea':
+    case 'analyzeUserIdea':
+    case 'forkIdea':
+      return { text: JSON.stringify(MOCK_IDEA_RESPONSE), sources: MOCK_SOURCES, groundedSegments: MOCK_GROUNDED_SEGMENTS };
+    case 'repairIdea':
+      return { text: JSON.stringify(MOCK_IDEA_RESPONSE), sources: [] };
+    case 'financialAssumptions':
+      return { text: JSON.stringify(MOCK_FINANCIAL_ASSUMPTIONS), sources: [] };
+    case 'regenerateLadderStep':
+      return { text: JSON.stringify(MOCK_LADDER_STEP), sources: [] };
+    case 'ideaChatSearch':
+      return { text: mockText(request.operation, contentsToText(request.contents)), sources: MOCK_SOURCES };
+    case 'condenseSlides':
+      // No rewrite offline; the deck keeps its own bullet split
+      return { text: JSON.stringify({ slides: [] }), sources: [] };
+    default:
+      return { text: mockText(request.operation, contentsToText(request.contents)), sources: [] };
+  }
+};
+
+const mockResponse = (request: AIRequest): AIResponse =>
+  withMockUsage(contentsToText(request.contents), cannedResponse(request));
+
+const mockChatReply = (operation: AIOperation, message: string): AIResponse => {
+  if (operation === 'whiteboardChat' && /brainstorm/i.test(message)) {
+    const functionCalls: FunctionCall[] = [{ name: 'create_notes', args: { notes: MOCK_WHITEBOARD_NOTES } }];
+    return { text: "Here are a few prompts to get the board started.", sources: [], functionCalls };
+  }
+  if (operation === 'ideaChat' && /\b(change|update|edit|apply)\b/i.test(message)) {
+    return { text: "Here are two changes I'd make. Review them below.", sources: [], functionCalls: MOCK_IDEA_EDIT_CALLS };
+  }
+  return {
+    text: `(Offline mock) You asked: "${message}". In live mode I would research this with current market data. A good next step is to validate it with five customer conversations.`,
+    sources: [],
+  };
+};
+
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  label: 'Offline Mock',
+  generate: async (request) => {
+    await delay(MOCK_LATENCY_MS, request.signal);
+    return mockResponse(request);
+  },
+  generateStream: async (request) => {
+    await delay(MOCK_LATENCY_MS, request.signal);
+    return streamResponse(mockResponse(request), request.signal);
+  },
+  createChat: (options) => {
+    const history: Content[] = [...(options.history || [])];
+    const reply = (message: string | Part[]) => {
+      const text = typeof message === 'string' ? message : contentsToText(message);
+      // Tool results come back as function responses with no text of their own
+      const response = typeof message !== 'string' && message.some(part => part.functionResponse)
+        ? withMockUsage(JSON.stringify(message), { text: "Thanks, I've noted your decisions.", sources: [] })
+        : withMockUsage(text, mockChatReply(options.operation, text));
+      history.push({ role: 'user', parts: [{ text }] });
+      history.push({ role: 'model', parts: [{ text: response.text }] });
+      return response;
+    };
+    return {
+      sendMessage: async ({ message, signal }) => {
+        await delay(MOCK_LATENCY_MS, signal);
+        return reply(message);
+      },
+      sendMessageStream: async ({ message, signal }) => {
+        await delay(MOCK_LATENCY_MS, signal);
+        return streamResponse(reply(message), signal);
+      },
+      getHistory: () => [...history],
+    };
+  },
+});
@@ -0,0 +1,518 @@
+import { jsPDF } from 'jspdf';
+import { BusinessIdea, TrendPoint } from '../types';
+import { MarkdownBlock, MarkdownInline, MarkdownList, inlineText, parseMarkdown } from './markdown';
+
+// Lays out the markdown report from IdeaDetail as a styled PDF: cover page,
+// linked table of contents, headings, tables with score bars, lists, code,
+// the search trend as a vector chart, clickable links and page numbers.
+// Saved reports can be appended as extra chapters.
+
+export interface PdfReportOptions {
+  idea: BusinessIdea;
+  markdown: string; // Starts with the report from generateReportContent
+  savedReports?: { title: string; content: string; date: string }[];
+}
+
+type Color = [number, number, number];
+
+interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+interface Run extends TextStyle {
+  text: string;
+}
+
+interface TocEntry {
+  level: number;
+  text: string;
+  page: number;
+  y: number;
+}
+
+const PAGE = { width: 210, height: 297, margin: 20, top: 22, bottom: 20 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const PT = 0.3528; // mm per point
+
+const COLORS: Record<string, Color> = {
+  text: [51, 65, 85],
+  heading: [15, 23, 42],
+  muted: [100, 116, 139],
+  accent: [37, 99, 235],
+  rule: [226, 232, 240],
+  fill: [248, 250, 252],
+  codeFill: [241, 245, 249],
+};
+
+// The standard PDF fonts only cover Latin-1, so map the usual model output
+// punctuation and drop anything else rather than printing garbage
+const REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-', '…': '...',
+  '•': '-', '→': '->', '←': '<-', '≤': '<=', '≥': '>=', '\u00A0': ' ', '✓': 'v', '✔': 'v',
+};
+
+const pdfSafe = (text: string) => text
+  .replace(/[‘’“”–—…•←→≤≥\u00A0✓✔]/g, char => REPLACEMENTS[char])
+  .replace(/[^\x09\x0A\x0D\x20-\x7E\xA1-\xFF]/g, '');
+
+const flatten = (nodes: MarkdownInline[], style: TextStyle = {}): Run[] => nodes.flatMap((node): Run[] => {
+  switch (node.type) {
+    case 'text': return [{ ...style, text: node.text }];
+    case 'code': return [{ ...style, code: true, text: node.text }];
+    case 'break': return [{ ...style, text: '\n' }];
+    case 'strong': return flatten(node.children, { ...style, bold: true });
+    case 'em': return flatten(node.children, { ...style, italic: true });
+    case 'strike': return flatten(node.children, style);
+    case 'link': return flatten(node.children, { ...style, href: node.href });
+  }
+});
+
+const plainRuns = (text: string, style: TextStyle = {}): Run[] => [{ ...style, text }];
+
+export const buildReportPdf = ({ idea, markdown, savedReports = [] }: PdfReportOptions): jsPDF => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const toc: TocEntry[] = [];
+  let y = PAGE.top;
+
+  // --- Primitives ---
+
+  const setFont = (style: TextStyle, size: number) => {
+    const variant = style.bold && style.italic ? 'bolditalic' : style.bold ? 'bold' : style.italic ? 'italic' : 'normal';
+    doc.setFont(style.code ? 'courier' : 'helvetica', style.code ? (style.bold ? 'bold' : 'normal') : variant);
+    doc.setFontSize(style.code ? size * 0.92 : size);
+  };
+
+  const setColor = (color: Color) => doc.setTextColor(color[0], color[1], color[2]);
+
+  const lineHeight = (size: number) => size * PT * 1.45;
+
+  const newPage = () => {
+    doc.addPage();
+    y = PAGE.top;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE.height - PAGE.bottom) newPage();
+  };
+
+  /** Writes wrapped rich text starting at the current y and moves y below it. */
+  const writeRuns = (runs: Run[], options: { x?: number; width?: number; size?: number; color?: Color } = {}) => {
+    const left = options.x ?? PAGE.margin;
+    const right = left + (options.width ?? CONTENT_WIDTH);
+    const size = options.size ?? 10;
+    const height = lineHeight(size);
+    let x = left;
+    let lineStarted = false;
+    ensureSpace(height);
+    y += size * PT; // Move from the top of the line to its baseline
+
+    const breakLine = () => {
+      x = left;
+      lineStarted = false;
+      y += height;
+      if (y > PAGE.height - PAGE.bottom) {
+        newPage();
+        y += size * PT;
+      }
+    };
+
+    const drawToken = (text: string, run: Run, fontSize: number) => {
+      const width = doc.getTextWidth(text);
+      if (run.code) {
+        doc.setFillColor(...COLORS.codeFill);
+        doc.rect(x - 0.3, y - fontSize * PT * 0.85, width + 0.6, fontSize * PT * 1.15, 'F');
+      }
+      setColor(run.href ? COLORS.accent : options.color ?? COLORS.text);
+      doc.text(text, x, y);
+      if (run.href && text.trim()) {
+        doc.setDrawColor(...COLORS.accent);
+        doc.setLineWidth(0.15);
+        doc.line(x, y + 0.6, x + width, y + 0.6);
+        doc.link(x, y - fontSize * PT, width, fontSize * PT * 1.3, { url: run.href });
+      }
+    };
+
+    runs.forEach(run => {
+      pdfSafe(run.text).split(/(\n|\s+)/).forEach(token => {
+        if (!token) return;
+        if (token === '\n') { breakLine(); return; }
+        setFont(run, size);
+        const isSpace = /^\s+$/.test(token);
+        if (isSpace && !lineStarted) return;
+        let width = doc.getTextWidth(isSpace ? ' ' : token);
+        if (!isSpace && lineStarted && x + width > right) breakLine();
+        // Words longer than a whole line are split where they overflow
+        let rest = isSpace ? ' ' : token;
+        while (!isSpace && x + width > right && rest.length > 1) {
+          let fit = rest.length - 1;
+          while (fit > 1 && doc.getTextWidth(rest.slice(0, fit)) > right - x) fit--;
+          drawToken(rest.slice(0, fit), run, size);
+          rest = rest.slice(fit);
+          breakLine();
+          setFont(run, size);
+          width = doc.getTextWidth(rest);
+        }
+        drawToken(rest, run, size);
+        x += width;
+        lineStarted = true;
+      });
+    });
+    y += height - size * PT;
+  };
+
+  const rule = (color: Color = COLORS.rule, width = 0.3) => {
+    doc.setDrawColor(...color);
+    doc.setLineWidth(width);
+    doc.line(PAGE.margin, y, PAGE.width - PAGE.margin, y);
+  };
+
+  // --- Blocks ---
+
+  const HEADING_SIZES: Record<number, number> = { 1: 22, 2: 15, 3: 12, 4: 10.5, 5: 10, 6: 10 };
+
+  const writeHeading = (level: number, runs: Run[], tocLevel: number | null) => {
+    const size = HEADING_SIZES[level];
+    if (level === 1) {
+      newPage();
+    } else {
+      y += level === 2 ? 6 : 3;
+      // Keep a heading with at least a few lines of what follows it
+      ensureSpace(lineHeight(size) + 18);
+    }
+    if (tocLevel !== null) toc.push({ level: tocLevel, text: pdfSafe(runs.map(run => run.text).join('')).trim(), page: doc.getNumberOfPages(), y });
+    writeRuns(runs.map(run => ({ ...run, bold: true, code: false })), { size, color: level <= 2 ? COLORS.heading : COLORS.text });
+    if (level <= 2) {
+      y += 1;
+      rule(level === 1 ? COLORS.accent : COLORS.rule, level === 1 ? 0.8 : 0.3);
+      y += 3;
+    } else {
+      y += 1;
+    }
+  };
+
+  const writeList = (list: MarkdownList, indent: number) => {
+    list.items.forEach((item, index) => {
+      const x = PAGE.margin + indent;
+      ensureSpace(lineHeight(10));
+      const baseline = y + 10 * PT;
+      setColor(COLORS.text);
+      if (item.checked !== undefined) {
+        doc.setDrawColor(...COLORS.muted);
+        doc.setLineWidth(0.25);
+        doc.rect(x, baseline - 2.6, 2.8, 2.8);
+        if (item.checked) {
+          doc.line(x + 0.5, baseline - 1.2, x + 1.2, baseline - 0.4);
+          doc.line(x + 1.2, baseline - 0.4, x + 2.4, baseline - 2.2);
+        }
+      } else if (list.ordered) {
+        setFont({}, 10);
+        doc.text(`${list.start + index}.`, x, baseline);
+      } else {
+        doc.setFillColor(...COLORS.muted);
+        doc.circle(x + 1.2, baseline - 1.2, indent ? 0.5 : 0.7, 'F');
+      }
+      writeRuns(flatten(item.children), { x: x + 6, width: CONTENT_WIDTH - indent - 6 });
+      y += 0.8;
+      if (item.sublist) writeList(item.sublist, indent + 6);
+    });
+  };
+
+  const writeCode = (text: string) => {
+    const size = 8.5;
+    const height = lineHeight(size);
+    setFont({ code: true }, size / 0.92);
+    const lines: string[] = doc.splitTextToSize(pdfSafe(text), CONTENT_WIDTH - 8);
+    y += 2;
+    lines.forEach((line, index) => {
+      if (y + height > PAGE.height - PAGE.bottom) newPage();
+      doc.setFillColor(...COLORS.codeFill);
+      doc.rect(PAGE.margin, y, CONTENT_WIDTH, height + (index === lines.length - 1 ? 2 : 0), 'F');
+      setFont({ code: true }, size / 0.92);
+      setColor(COLORS.heading);
+      doc.text(line, PAGE.margin + 4, y + size * PT + (index === 0 ? 1 : 0));
+      y += height;
+    });
+    y += 4;
+  };
+
+  const SCORE = /^(\d+(?:\.\d+)?)\s*\/\s*10$/;
+
+  const writeTable = (block: Extract<MarkdownBlock, { type: 'table' }>) => {
+    const size = 9;
+    const padding = 2;
+    const height = lineHeight(size);
+    const cellText = (cell: MarkdownInline[]) => pdfSafe(inlineText(cell)).trim();
+    const columns = block.header.length;
+
+    // Columns get space in proportion to their longest cell, within limits
+    setFont({}, size);
+    const natural = block.header.map((_, col) => Math.min(70, Math.max(
+      ...[block.header[col], ...block.rows.map(row => row[col])].map(cell => doc.getTextWidth(cellText(cell)) + padding * 2)
+    )));
+    const total = natural.reduce((sum, width) => sum + width, 0);
+    const widths = natural.map(width => Math.max(18, width / total * CONTENT_WIDTH));
+    const scale = CONTENT_WIDTH / widths.reduce((sum, width) => sum + width, 0);
+    const colWidths = widths.map(width => width * scale);
+
+    const drawRow = (cells: MarkdownInline[][], header: boolean) => {
+      const isBold = (cell: MarkdownInline[]) => header || (cell.length === 1 && cell[0].type === 'strong');
+      const wrapped = cells.map((cell, col) => {
+        setFont({ bold: isBold(cell) }, size);
+        return doc.splitTextToSize(cellText(cell), colWidths[col] - padding * 2) as string[];
+      });
+      const hasBar = !header && cells.some(cell => SCORE.test(cellText(cell)));
+      const rowHeight = Math.max(...wrapped.map(lines => lines.length)) * height + padding * 2 + (hasBar ? 2.5 : 0);
+      if (y + rowHeight > PAGE.height - PAGE.bottom) {
+        newPage();
+        if (!header) drawRow(block.header, true);
+      }
+      if (header) {
+        doc.setFillColor(...COLORS.fill);
+        doc.rect(PAGE.margin, y, CONTENT_WIDTH, rowHeight, 'F');
+      }
+      let x = PAGE.margin;
+      wrapped.forEach((lines, col) => {
+        const align = block.align[col];
+        setFont({ bold: isBold(cells[col]) }, size);
+        setColor(header ? COLORS.heading : COLORS.text);
+        lines.forEach((line, index) => {
+          const lineWidth = doc.getTextWidth(line);
+          const textX = align === 'right' ? x + colWidths[col] - padding - lineWidth
+            : align === 'center' ? x + (colWidths[col] - lineWidth) / 2
+            : x + padding;
+          doc.text(line, textX, y + padding + size * PT + index * height);
+        });
+        const score = header ? null : cellText(cells[col]).match(SCORE);
+        if (score) {
+          const barY = y + padding + lines.length * height + 0.5;
+          const barWidth = colWidths[col] - padding * 2;
+          doc.setFillColor(...COLORS.rule);
+          doc.rect(x + padding, barY, barWidth, 1.4, 'F');
+          doc.setFillColor(...COLORS.accent);
+          doc.rect(x + padding, barY, barWidth * Math.min(1, parseFloat(score[1]) / 10), 1.4, 'F');
+        }
+        x += colWidths[col];
+      });
+      y += rowHeight;
+      doc.setDrawColor(...COLORS.rule);
+      doc.setLineWidth(header ? 0.4 : 0.2);
+      doc.line(PAGE.margin, y, PAGE.width - PAGE.margin, y);
+    };
+
+    y += 2;
+    drawRow(block.header, true);
+    block.rows.forEach(row => drawRow(row.slice(0, columns), false));
+    y += 4;
+  };
+
+  const writeTrendChart = (points: TrendPoint[], keyword: string) => {
+    if (points.length < 2) return;
+    const height = 55;
+    ensureSpace(height + 14);
+    y += 2;
+    writeRuns(plainRuns(`Search interest: ${keyword}`, { bold: true }), { size: 9, color: COLORS.muted });
+    const chart = { x: PAGE.margin + 10, y: y + 2, width: CONTENT_WIDTH - 10, height: height - 10 };
+    const max = Math.max(...points.map(point => point.value), 1);
+
+    doc.setDrawColor(...COLORS.rule);
+    doc.setLineWidth(0.2);
+    setFont({}, 7);
+    setColor(COLORS.muted);
+    [0, 0.25, 0.5, 0.75, 1].forEach(fraction => {
+      const lineY = chart.y + chart.height * (1 - fraction);
+      doc.line(chart.x, lineY, chart.x + chart.width, lineY);
+      doc.text(String(Math.round(max * fraction)), chart.x - 2, lineY + 1, { align: 'right' });
+    });
+
+    const coords = points.map((point, index) => [
+      chart.x + index / (points.length - 1) * chart.width,
+      chart.y + chart.height * (1 - point.value / max),
+    ]);
+    // Filled area under the line, then the line itself
+    doc.setFillColor(219, 234, 254);
+    doc.lines(
+      [...coords.slice(1).map((point, index) => [point[0] - coords[index][0], point[1] - coords[index][1]]),
+        [0, chart.y + chart.height - coords[coords.length - 1][1]],
+        [chart.x - coords[coords.length - 1][0], 0]],
+      coords[0][0], coords[0][1], [1, 1], 'F', true
+    );
+    doc.setDrawColor(...COLORS.accent);
+    doc.setLineWidth(0.6);
+    coords.slice(1).forEach((point, index) => doc.line(coords[index][0], coords[index][1], point[0], point[1]));
+
+    const labelIndexes = Array.from(new Set([0, Math.floor((points.length - 1) / 2), points.length - 1]));
+    labelIndexes.forEach(index => {
+      doc.text(pdfSafe(points[index].date), coords[index][0], chart.y + chart.height + 4,
+        { align: index === 0 ? 'left' : index === points.length - 1 ? 'right' : 'center' });
+    });
+    y = chart.y + chart.height + 10;
+  };
+
+  const writeBlocks = (blocks: MarkdownBlock[], options: { toc: boolean; headingOffset?: number; indent?: number }) => {
+    const offset = options.headingOffset || 0;
+    blocks.forEach(block => {
+      switch (block.type) {
+        case 'heading': {
+          const level = Math.min(6, block.level + offset);
+          writeHeading(level, flatten(block.children), options.toc && level <= 2 ? level - 1 : null);
+          if (level === 2 && /market trend/i.test(inlineText(block.children))) {
+            writeTrendChart(idea.trendData || [], idea.trendKeyword);
+          }
+          break;
+        }
+        case 'paragraph':
+          // Plain-text rule lines ("=====") read as rules too
+          if (/^=+$/.test(inlineText(block.children).trim())) {
+            y += 2;
+            rule();
+            y += 4;
+            break;
+          }
+          writeRuns(flatten(block.children), { x: PAGE.margin + (options.indent || 0), width: CONTENT_WIDTH - (options.indent || 0) });
+          y += 2.5;
+          break;
+        case 'list':
+          writeList(block, options.indent || 0);
+          y += 2;
+          break;
+        case 'code':
+          writeCode(block.text);
+          break;
+        case 'quote': {
+          const start = { page: doc.getNumberOfPages(), y };
+          writeBlocks(block.children, { ...options, toc: false, indent: (options.indent || 0) + 5 });
+          if (start.page === doc.getNumberOfPages()) {
+            doc.setDrawColor(...COLORS.rule);
+            doc.setLineWidth(1);
+            doc.line(PAGE.margin + 1, start.y, PAGE.margin + 1, y - 2);
+          }
+          break;
+        }
+        case 'table':
+          writeTable(block);
+          break;
+        case 'hr':
+          y += 2;
+          ensureSpace(6);
+          rule();
+          y += 5;
+          break;
+      }
+    });
+  };
+
+  // --- Cover ---
+
+  const writeCover = () => {
+    doc.setFillColor(...COLORS.heading);
+    doc.rect(0, 0, PAGE.width, 110, 'F');
+    setFont({ bold: true }, 9);
+    doc.setTextColor(148, 163, 184);
+    doc.text('BUSINESS IDEA DOSSIER', PAGE.margin, 40);
+    setFont({ bold: true }, 28);
+    doc.setTextColor(255, 255, 255);
+    const titleLines: string[] = doc.splitTextToSize(pdfSafe(idea.title), CONTENT_WIDTH);
+    doc.text(titleLines.slice(0, 4), PAGE.margin, 54);
+    setFont({}, 10);
+    doc.setTextColor(203, 213, 225);
+    doc.text(pdfSafe((idea.tags || []).join('  /  ')), PAGE.margin, 100);
+
+    y = 125;
+    writeRuns(plainRuns(idea.description.split(/\n+/)[0]), { size: 11 });
+
+    // KPI summary
+    y += 8;
+    const kpis: [string, { score: number; label: string }][] = [
+      ['Opportunity', idea.kpi.opportunity], ['Problem', idea.kpi.problem], ['Feasibility', idea.kpi.feasibility], ['Why Now', idea.kpi.whyNow],
+    ];
+    const boxWidth = (CONTENT_WIDTH - 9) / 4;
+    kpis.forEach(([label, kpi], index) => {
+      const x = PAGE.margin + index * (boxWidth + 3);
+      doc.setFillColor(...COLORS.fill);
+      doc.setDrawColor(...COLORS.rule);
+      doc.roundedRect(x, y, boxWidth, 28, 2, 2, 'FD');
+      setFont({ bold: true }, 20);
+      setColor(COLORS.accent);
+      doc.text(String(kpi?.score ?? '-'), x + boxWidth / 2, y + 12, { align: 'center' });
+      setFont({ bold: true }, 8);
+      setColor(COLORS.heading);
+      doc.text(label.toUpperCase(), x + boxWidth / 2, y + 18, { align: 'center' });
+      setFont({}, 7.5);
+      setColor(COLORS.muted);
+      doc.text(pdfSafe(kpi?.label || '').slice(0, 28), x + boxWidth / 2, y + 23, { align: 'center' });
+    });
+
+    setFont({}, 9);
+    setColor(COLORS.muted);
+    doc.text(pdfSafe([idea.trendKeyword, idea.trendVolume, idea.trendGrowth].filter(Boolean).join('  |  ')), PAGE.margin, y + 40);
+    doc.text(`Generated ${new Date().toLocaleDateString()} with IdeaBrowser`, PAGE.margin, PAGE.height - PAGE.bottom);
+  };
+
+  // --- Document ---
+
+  writeCover();
+
+  // The title, date and tags before the first section are already on the cover
+  const blocks = parseMarkdown(markdown);
+  const firstSection = blocks.findIndex(block => block.type === 'heading' && block.level === 2);
+  newPage();
+  writeBlocks(firstSection === -1 ? blocks : blocks.slice(firstSection), { toc: true });
+
+  savedReports.forEach(report => {
+    writeHeading(1, plainRuns(report.title), 0);
+    writeRuns(plainRuns(`Saved ${report.date}`), { size: 9, color: COLORS.muted });
+    y += 3;
+    // Report headings sit one level below the chapter title and stay out of the contents
+    writeBlocks(parseMarkdown(report.content), { toc: false, headingOffset: 1 });
+  });
+
+  // --- Table of contents, inserted after the cover once page numbers are known ---
+
+  const TOC_ROW = 7;
+  const rowsPerPage = Math.floor((PAGE.height - PAGE.top - PAGE.bottom - 20) / TOC_ROW);
+  const tocPages = Math.max(1, Math.ceil(toc.length / rowsPerPage));
+  for (let i = 0; i < tocPages; i++) doc.insertPage(2);
+
+  toc.forEach((entry, index) => {
+    const page = 2 + Math.floor(index / rowsPerPage);
+    const row = index % rowsPerPage;
+    doc.setPage(page);
+    if (row === 0) {
+      setFont({ bold: true }, 22);
+      setColor(COLORS.heading);
+      doc.text(index === 0 ? 'Contents' : 'Contents (continued)', PAGE.margin, PAGE.top + 8);
+    }
+    const rowY = PAGE.top + 22 + row * TOC_ROW;
+    const target = entry.page + tocPages;
+    const x = PAGE.margin + entry.level * 6;
+    setFont({ bold: entry.level === 0 }, entry.level === 0 ? 11 : 10);
+    setColor(entry.level === 0 ? COLORS.heading : COLORS.text);
+    const title = (doc.splitTextToSize(entry.text, CONTENT_WIDTH - entry.level * 6 - 16) as string[])[0];
+    doc.text(title, x, rowY);
+    doc.text(String(target), PAGE.width - PAGE.margin, rowY, { align: 'right' });
+    doc.setDrawColor(...COLORS.rule);
+    doc.setLineDashPattern([0.4, 1], 0);
+    doc.line(x + doc.getTextWidth(title) + 2, rowY, PAGE.width - PAGE.margin - 10, rowY);
+    doc.setLineDashPattern([], 0);
+    doc.link(x, rowY - 4.5, CONTENT_WIDTH - entry.level * 6, TOC_ROW, { pageNumber: target, top: entry.y });
+  });
+
+  // --- Running header and page numbers, skipping the cover ---
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    setFont({}, 8);
+    setColor(COLORS.muted);
+    doc.text((doc.splitTextToSize(pdfSafe(idea.title), CONTENT_WIDTH - 30) as string[])[0], PAGE.margin, 12);
+    doc.text(`${page} / ${pageCount}`, PAGE.width - PAGE.margin, PAGE.height - 10, { align: 'right' });
+    doc.setDrawColor(...COLORS.rule);
+    doc.setLineWidth(0.2);
+    doc.line(PAGE.margin, 14, PAGE.width - PAGE.margin, 14);
+  }
+
+  return doc;
+};
@@ -0,0 +1,234 @@
+import PptxGenJS from 'pptxgenjs';
+import { BusinessIdea } from '../types';
+import { MarkdownBlock, inlineText, parseMarkdown } from './markdown';
+import { SlideSource } from './promptRegistry';
+
+// Maps an idea onto a standard investor deck and writes it as an editable
+// .pptx: problem, why now, solution, traction, value ladder, market trend,
+// go-to-market, KPIs and team fit. Everything is native PowerPoint text,
+// tables and charts, so founders can keep editing the slides.
+
+/** Bullets per slide id, e.g. from condenseForSlides. Missing ids fall back to a plain split. */
+export type SlideBullets = Record<string, string[]>;
+
+const MAX_BULLETS = 6;
+const MAX_BULLET_CHARS = 180;
+
+const FONT = 'Calibri';
+const COLORS = {
+  ink: '0F172A',
+  body: '334155',
+  muted: '64748B',
+  accent: '2563EB',
+  soft: 'EFF6FF',
+  border: 'E2E8F0',
+};
+
+// 16:9 layout in inches
+const SLIDE = { width: 13.333, height: 7.5, margin: 0.6 };
+const CONTENT_WIDTH = SLIDE.width - SLIDE.margin * 2;
+
+// The text-heavy slides, in deck order. These are the sections the AI pass may condense.
+export const getSlideSources = (idea: BusinessIdea): SlideSource[] => [
+  { id: 'problem', heading: 'The Problem', text: idea.sections.marketGap },
+  { id: 'whyNow', heading: 'Why Now', text: idea.sections.whyNow },
+  { id: 'solution', heading: 'The Solution', text: idea.description },
+  { id: 'traction', heading: 'Proof & Signals', text: idea.sections.proofAndSignals },
+  {
+    id: 'goToMarket',
+    heading: 'Go-To-Market',
+    text: [idea.businessFit?.goToMarketDescription, idea.sections.executionPlan].filter(Boolean).join('\n\n'),
+  },
+  { id: 'team', heading: 'Team Fit', text: idea.businessFit?.founderFitDescription || '' },
+].filter(source => source.text?.trim());
+
+const blockLines = (block: MarkdownBlock): string[] => {
+  switch (block.type) {
+    case 'paragraph':
+      // Long paragraphs become one bullet per sentence
+      return inlineText(block.children).split(/(?<=[.!?])\s+(?=[A-Z0-9"'])/);
+    case 'list':
+      return block.items.map(item => inlineText(item.children));
+    case 'quote':
+      return block.children.flatMap(blockLines);
+    case 'table':
+      return block.rows.map(row => row.map(inlineText).filter(Boolean).join(' - '));
+    default:
+      return [];
+  }
+};
+
+const truncate = (text: string, max: number) =>
+  text.length <= max ? text : `${text.slice(0, max - 1).replace(/\s+\S*$/, '')}…`;
+
+/** Splits model-written markdown into slide bullets without calling the AI. */
+export const toBullets = (text: string, max = MAX_BULLETS): string[] =>
+  parseMarkdown(text || '')
+    .flatMap(blockLines)
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 2)
+    .slice(0, max)
+    .map(line => truncate(line, MAX_BULLET_CHARS));
+
+const addTitle = (slide: PptxGenJS.Slide, title: string, kicker?: string) => {
+  if (kicker) {
+    slide.addText(kicker.toUpperCase(), {
+      x: SLIDE.margin, y: 0.35, w: CONTENT_WIDTH, h: 0.3,
+      fontFace: FONT, fontSize: 11, bold: true, color: COLORS.accent, charSpacing: 2,
+    });
+  }
+  slide.addText(title, {
+    x: SLIDE.margin, y: 0.65, w: CONTENT_WIDTH, h: 0.8,
+    fontFace: FONT, fontSize: 30, bold: true, color: COLORS.ink,
+  });
+};
+
+const addBullets = (slide: PptxGenJS.Slide, bullets: string[], box: { x: number; y: number; w: number; h: number }) => {
+  if (bullets.length === 0) return;
+  slide.addText(
+    bullets.map(text => ({ text, options: { bullet: true, breakLine: true } })),
+    {
+      ...box,
+      fontFace: FONT, fontSize: bullets.length > 4 ? 16 : 18, color: COLORS.body,
+      valign: 'top', paraSpaceAfter: 8, fit: 'shrink',
+    }
+  );
+};
+
+const addStat = (slide: PptxGenJS.Slide, value: string, label: string, box: { x: number; y: number; w: number; h: number }) => {
+  slide.addShape('roundRect', { ...box, fill: { color: COLORS.soft }, line: { color: COLORS.border }, rectRadius: 0.1 });
+  slide.addText(value, {
+    x: box.x, y: box.y + 0.15, w: box.w, h: box.h * 0.5,
+    fontFace: FONT, fontSize: 28, bold: true, color: COLORS.accent, align: 'center', fit: 'shrink',
+  });
+  slide.addText(label, {
+    x: box.x + 0.1, y: box.y + box.h * 0.55, w: box.w - 0.2, h: box.h * 0.4,
+    fontFace: FONT, fontSize: 12, color: COLORS.muted, align: 'center', valign: 'top', fit: 'shrink',
+  });
+};
+
+const addTextSlide = (pptx: PptxGenJS, source: SlideSource, bullets: string[], stat?: { value: string; label: string }) => {
+  const slide = pptx.addSlide({ masterName: 'CONTENT' });
+  addTitle(slide, source.heading);
+  const width = stat ? CONTENT_WIDTH - 3.4 : CONTENT_WIDTH;
+  addBullets(slide, bullets, { x: SLIDE.margin, y: 1.6, w: width, h: 5.2 });
+  if (stat) addStat(slide, stat.value, stat.label, { x: SLIDE.width - SLIDE.margin - 3, y: 1.8, w: 3, h: 2 });
+  return slide;
+};
+
+const addValueLadderSlide = (pptx: PptxGenJS, idea: BusinessIdea) => {
+  const slide = pptx.addSlide({ masterName: 'CONTENT' });
+  addTitle(slide, 'Value Ladder', 'Business model');
+  const header = ['Stage', 'Offer', 'Price', 'Value'].map(text => ({
+    text, options: { bold: true, color: 'FFFFFF', fill: { color: COLORS.ink } },
+  }));
+  const rows = idea.sections.offer.map(step => [
+    { text: step.type, options: { bold: true, color: COLORS.accent } },
+    { text: `${step.title}\n${truncate(step.description, 140)}` },
+    { text: step.price, options: { bold: true } },
+    { text: truncate(step.valueProvided || step.goal, 120) },
+  ]);
+  slide.addTable([header, ...rows], {
+    x: SLIDE.margin, y: 1.6, w: CONTENT_WIDTH, colW: [1.9, 5.5, 1.5, 3.233],
+    fontFace: FONT, fontSize: 12, color: COLORS.body, valign: 'middle',
+    border: { type: 'solid', pt: 0.75, color: COLORS.border }, autoPage: true, autoPageRepeatHeader: true,
+  });
+};
+
+const addTrendSlide = (pptx: PptxGenJS, idea: BusinessIdea) => {
+  const slide = pptx.addSlide({ masterName: 'CONTENT' });
+  addTitle(slide, `Market Trend: ${idea.trendKeyword}`, 'Search interest');
+  slide.addChart(pptx.ChartType.line, [{
+    name: idea.trendKeyword || 'Search interest',
+    labels: idea.trendData.map(point => point.date),
+    values: idea.trendData.map(point => point.value),
+  }], {
+    x: SLIDE.margin, y: 1.6, w: CONTENT_WIDTH - 3.4, h: 5.2,
+    chartColors: [COLORS.accent], lineSize: 2, lineDataSymbol: 'none',
+    catAxisLabelFontSize: 10, valAxisLabelFontSize: 10, catAxisLabelColor: COLORS.muted, valAxisLabelColor: COLORS.muted,
+    valGridLine: { color: COLORS.border, size: 0.5 }, catGridLine: { style: 'none' }, showLegend: false,
+  });
+  const statX = SLIDE.width - SLIDE.margin - 3;
+  if (idea.trendVolume) addStat(slide, idea.trendVolume, 'Search volume', { x: statX, y: 1.8, w: 3, h: 1.6 });
+  if (idea.trendGrowth) addStat(slide, idea.trendGrowth, 'Growth', { x: statX, y: 3.6, w: 3, h: 1.6 });
+  if (idea.relatedKeywords?.length) {
+    slide.addText(`Related: ${idea.relatedKeywords.slice(0, 5).join(', ')}`, {
+      x: statX, y: 5.4, w: 3, h: 1.2, fontFace: FONT, fontSize: 11, color: COLORS.muted, valign: 'top', fit: 'shrink',
+    });
+  }
+};
+
+const addKpiSlide = (pptx: PptxGenJS, idea: BusinessIdea) => {
+  const slide = pptx.addSlide({ masterName: 'CONTENT' });
+  addTitle(slide, 'Key Metrics', 'Scorecard');
+  const kpis: [string, { score: number; label: string } | undefined][] = [
+    ['Opportunity', idea.kpi?.opportunity],
+    ['Problem', idea.kpi?.problem],
+    ['Feasibility', idea.kpi?.feasibility],
+    ['Why Now', idea.kpi?.whyNow],
+  ];
+  const gap = 0.3;
+  const width = (CONTENT_WIDTH - gap * 3) / 4;
+  kpis.forEach(([name, kpi], idx) => {
+    addStat(slide, `${kpi?.score ?? '-'}/10`, `${name}\n${kpi?.label || ''}`, { x: SLIDE.margin + idx * (width + gap), y: 1.7, w: width, h: 2 });
+  });
+  const fit = idea.businessFit;
+  if (!fit) return;
+  const fitWidth = (CONTENT_WIDTH - gap * 2) / 3;
+  addStat(slide, fit.revenuePotential || '-', 'Revenue potential', { x: SLIDE.margin, y: 4.2, w: fitWidth, h: 1.8 });
+  addStat(slide, `${fit.executionDifficulty ?? '-'}/10`, 'Execution difficulty', { x: SLIDE.margin + fitWidth + gap, y: 4.2, w: fitWidth, h: 1.8 });
+  addStat(slide, `${fit.goToMarket ?? '-'}/10`, 'Go-to-market', { x: SLIDE.margin + (fitWidth + gap) * 2, y: 4.2, w: fitWidth, h: 1.8 });
+};
+
+/**
+ * Builds the pitch deck as a .pptx blob. Pass condensed bullets (keyed by the
+ * ids from getSlideSources) to use them instead of the plain sentence split.
+ */
+export const buildPitchDeck = async (idea: BusinessIdea, condensed: SlideBullets = {}): Promise<Blob> => {
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.title = `${idea.title} - Pitch Deck`;
+  pptx.company = 'IdeaBrowser';
+
+  pptx.defineSlideMaster({
+    title: 'CONTENT',
+    background: { color: 'FFFFFF' },
+    objects: [
+      { rect: { x: 0, y: 0, w: SLIDE.width, h: 0.12, fill: { color: COLORS.accent } } },
+      { text: { text: idea.title, options: { x: SLIDE.margin, y: SLIDE.height - 0.5, w: 8, h: 0.3, fontFace: FONT, fontSize: 10, color: COLORS.muted } } },
+    ],
+    slideNumber: { x: SLIDE.width - SLIDE.margin - 0.6, y: SLIDE.height - 0.5, w: 0.6, h: 0.3, fontFace: FONT, fontSize: 10, color: COLORS.muted, align: 'right' },
+  });
+
+  const title = pptx.addSlide();
+  title.background = { color: COLORS.ink };
+  title.addText(idea.title, {
+    x: SLIDE.margin, y: 2.3, w: CONTENT_WIDTH, h: 1.4,
+    fontFace: FONT, fontSize: 48, bold: true, color: 'FFFFFF', fit: 'shrink',
+  });
+  title.addText(toBullets(idea.description, 1)[0] || '', {
+    x: SLIDE.margin, y: 3.8, w: CONTENT_WIDTH, h: 1.2,
+    fontFace: FONT, fontSize: 20, color: 'CBD5E1', valign: 'top', fit: 'shrink',
+  });
+  title.addText([idea.tags?.slice(0, 5).join('  ·  '), idea.priceRange].filter(Boolean).join('   |   '), {
+    x: SLIDE.margin, y: 6.2, w: CONTENT_WIDTH, h: 0.4, fontFace: FONT, fontSize: 12, color: '94A3B8',
+  });
+
+  const sources: Record<string, SlideSource> = Object.fromEntries(getSlideSources(idea).map(source => [source.id, source]));
+  const bulletsFor = (id: string) => condensed[id]?.length ? condensed[id].slice(0, MAX_BULLETS) : toBullets(sources[id].text);
+  const textSlide = (id: string, stat?: { value: string; label: string }) => {
+    if (sources[id]) addTextSlide(pptx, sources[id], bulletsFor(id), stat);
+  };
+
+  textSlide('problem', idea.kpi?.problem && { value: `${idea.kpi.problem.score}/10`, label: `Problem severity\n${idea.kpi.problem.label}` });
+  textSlide('whyNow', idea.kpi?.whyNow && { value: `${idea.kpi.whyNow.score}/10`, label: `Timing\n${idea.kpi.whyNow.label}` });
+  textSlide('solution');
+  textSlide('traction');
+  if (idea.sections.offer?.length) addValueLadderSlide(pptx, idea);
+  if (idea.trendData?.length) addTrendSlide(pptx, idea);
+  textSlide('goToMarket', idea.businessFit && { value: `${idea.businessFit.goToMarket}/10`, label: 'Go-to-market score' });
+  addKpiSlide(pptx, idea);
+  textSlide('team');
+
+  return await pptx.write({ outputType: 'blob' }) as Blob;
+};
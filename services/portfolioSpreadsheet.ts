@@ -0,0 +1,111 @@
+import * as XLSX from 'xlsx';
+import { BusinessIdea } from '../types';
+import { ImportRow } from './ideaImportQueue';
+
+// Moves the portfolio in and out of spreadsheets: one row per idea on export,
+// and a sheet of titles/descriptions on import. Imports are mapped and
+// previewed in the UI before anything is queued for research.
+
+export type PortfolioFormat = 'csv' | 'xlsx';
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ColumnMapping {
+  title: number;
+  description: number; // -1 when there is no description column
+}
+
+export const MAX_IMPORT_ROWS = 200;
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+const PORTFOLIO_COLUMNS: { header: string; value: (idea: BusinessIdea) => string | number | undefined }[] = [
+  { header: 'ID', value: idea => idea.id },
+  { header: 'Title', value: idea => idea.title },
+  { header: 'Date', value: idea => idea.date },
+  { header: 'Opportunity', value: idea => idea.kpi?.opportunity?.score },
+  { header: 'Problem', value: idea => idea.kpi?.problem?.score },
+  { header: 'Feasibility', value: idea => idea.kpi?.feasibility?.score },
+  { header: 'Why Now', value: idea => idea.kpi?.whyNow?.score },
+  { header: 'Revenue Potential', value: idea => idea.businessFit?.revenuePotential },
+  { header: 'Execution Difficulty', value: idea => idea.businessFit?.executionDifficulty },
+  { header: 'Go-To-Market', value: idea => idea.businessFit?.goToMarket },
+  { header: 'Trend Keyword', value: idea => idea.trendKeyword },
+  { header: 'Trend Volume', value: idea => idea.trendVolume },
+  { header: 'Trend Growth', value: idea => idea.trendGrowth },
+  { header: 'Price Range', value: idea => idea.priceRange },
+  { header: 'Tags', value: idea => (idea.tags || []).join(', ') },
+  { header: 'Description', value: idea => idea.description },
+];
+
+// Spreadsheet apps run cells starting with these as formulas; signed figures like '-6%' are left alone
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const SIGNED_FIGURE = /^[+-][\d.,]+[%KMB]?$/i;
+
+const cellValue = (value: string | number | undefined) =>
+  typeof value === 'string' && FORMULA_PREFIX.test(value) && !SIGNED_FIGURE.test(value) ? `'${value}` : value ?? '';
+
+/** One row per idea, with KPI scores and business-fit numbers as numeric cells. */
+export const exportPortfolio = (ideas: BusinessIdea[], format: PortfolioFormat): Blob => {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    PORTFOLIO_COLUMNS.map(column => column.header),
+    ...ideas.map(idea => PORTFOLIO_COLUMNS.map(column => cellValue(column.value(idea)))),
+  ]);
+  sheet['!cols'] = PORTFOLIO_COLUMNS.map(column => ({ wch: column.header === 'Description' ? 60 : Math.max(12, column.header.length + 2) }));
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, sheet, 'Portfolio');
+  const data = XLSX.write(book, { bookType: format, type: 'array' });
+  return new Blob([data], {
+    type: format === 'csv' ? 'text/csv' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+};
+
+/** Reads the first sheet of a CSV or Excel file; the first non-empty row is the header. */
+export const readSpreadsheet = (data: ArrayBuffer): ParsedSheet => {
+  let book: XLSX.WorkBook;
+  try {
+    book = XLSX.read(data, { type: 'array' });
+  } catch (e) {
+    throw new SpreadsheetError("That file isn't a spreadsheet this app can read. Use CSV or XLSX.");
+  }
+  const sheet = book.Sheets[book.SheetNames[0]];
+  if (!sheet) throw new SpreadsheetError("The spreadsheet is empty.");
+
+  const table = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, blankrows: false, defval: '' })
+    .map(row => row.map(cell => String(cell ?? '').trim()));
+  const [headerRow, ...rows] = table.filter(row => row.some(Boolean));
+  if (!headerRow) throw new SpreadsheetError("The spreadsheet is empty.");
+  if (rows.length === 0) throw new SpreadsheetError("The spreadsheet only has a header row.");
+  if (rows.length > MAX_IMPORT_ROWS) throw new SpreadsheetError(`Import up to ${MAX_IMPORT_ROWS} ideas at a time; this sheet has ${rows.length}.`);
+
+  const width = Math.max(...table.map(row => row.length));
+  const headers = Array.from({ length: width }, (_, col) => headerRow[col] || `Column ${col + 1}`);
+  return { headers, rows: rows.map(row => headers.map((_, col) => row[col] || '')) };
+};
+
+/** Picks likely title and description columns from the header names. */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const find = (pattern: RegExp) => headers.findIndex(header => pattern.test(header));
+  const title = find(/title|name|idea/i);
+  const description = find(/desc|summary|detail|pitch|notes?|problem/i);
+  return {
+    title: title >= 0 ? title : 0,
+    description: description >= 0 && description !== title ? description : -1,
+  };
+};
+
+export const mapRows = (sheet: ParsedSheet, mapping: ColumnMapping): ImportRow[] =>
+  sheet.rows
+    .map(row => ({
+      title: row[mapping.title] || '',
+      description: mapping.description >= 0 ? row[mapping.description] || '' : '',
+    }))
+    .filter(row => row.title.trim());
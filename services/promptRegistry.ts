@@ -0,0 +1,273 @@
+import { BusinessIdea } from '../types';
+
+// Every prompt the app sends lives here as a named, versioned template. The
+// services and the portable export both render from this registry, so the text
+// a user copies out is exactly what the app sends. Bump a template's version
+// whenever its wording changes; generated ideas and reports record the
+// reference (e.g. 'sectionDeepDive@1') of the template that produced them.
+
+export interface PromptTemplate<Vars> {
+  id: string;
+  version: number;
+  description: string;
+  render: (vars: Vars) => string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  ref: string;
+}
+
+const definePrompt = <Vars>(template: PromptTemplate<Vars>): PromptTemplate<Vars> => template;
+
+export const promptRef = (template: PromptTemplate<any>): string => `${template.id}@${template.version}`;
+
+export const renderPrompt = <Vars>(template: PromptTemplate<Vars>, vars: Vars): RenderedPrompt => ({
+  text: template.render(vars),
+  ref: promptRef(template),
+});
+
+export type DeepDiveSection =
+  | 'whyNow'
+  | 'proofAndSignals'
+  | 'marketGap'
+  | 'executionPlan'
+  | 'revenuePotential'
+  | 'executionDifficulty'
+  | 'goToMarket'
+  | 'communitySignals';
+
+export const DEEP_DIVE_SECTIONS: Record<DeepDiveSection, string> = {
+  whyNow: 'Why Now & Market Timing',
+  proofAndSignals: 'Proof & Market Signals',
+  marketGap: 'Market Gap Analysis',
+  executionPlan: '90-Day Execution Plan',
+  revenuePotential: 'Revenue & Business Model',
+  executionDifficulty: 'Technical & Operational Challenges',
+  goToMarket: 'Go-To-Market Strategy',
+  communitySignals: 'Community Signals & Social Listening',
+};
+
+/** An artifact template from the template library, e.g. { id: 'coding-prompts', title: 'AI Coding Agent Prompts' }. */
+export interface ArtifactTemplate {
+  id: string;
+  title: string;
+}
+
+/** A long section of an idea that the pitch deck wants condensed into bullets. */
+export interface SlideSource {
+  id: string;
+  heading: string;
+  text: string;
+}
+
+type IdeaVars = { idea: Pick<BusinessIdea, 'title' | 'description'> };
+
+export const PROMPTS = {
+  dailyTrends: definePrompt<{}>({
+    id: 'dailyTrends',
+    version: 1,
+    description: 'Daily trend scan that feeds the trends grid and idea generation',
+    render: () => `
+      Act as an advanced trend analysis module.
+      Search the web, news, and social media for emerging business opportunities, breakout consumer trends, or rising market problems in the last 24-72 hours.
+      Synthesize exactly 4 distinct emerging opportunities.
+      For each trend, provide:
+      1. title: A catchy short title for the trend.
+      2. volume: An estimate of search/social volume (e.g., "120K Vol", "Rising Activity").
+      3. growth: An estimate of recent growth (e.g., "+450%").
+      4. description: A 2-3 sentence description of the trend, the problem, and why it's a good business opportunity.
+      5. data: Generate an array of 6 data points simulating an upward or hockey-stick trend line over the past 6 months to visualize the growth pattern. Each point should have a 'date' (like "Jan", "Feb", etc.) and a 'value' (number).
+
+      Output MUST be valid JSON adhering exactly to this structure:
+      {
+        "trends": [
+          {
+             "title": "String",
+             "volume": "String",
+             "growth": "String",
+             "description": "String",
+             "data": [{ "date": "String", "value": Number }]
+          }
+        ]
+      }
+    `,
+  }),
+
+  emergingTrends: definePrompt<{}>({
+    id: 'emergingTrends',
+    version: 1,
+    description: 'Free-form trend intelligence report',
+    render: () => `
+    Act as an advanced trend analysis module.
+    Search the web (including news sites, Reddit, and social media discussions) for emerging business opportunities, breakout trends, or rising problems in the last 24-48 hours.
+    Pull data from multiple perspectives:
+    1. Search Trends (What are people suddenly searching for?)
+    2. Social Media & Forums (What is trending on Reddit/Twitter/LinkedIn?)
+    3. News APIs/Sources (What are the latest tech/business news catalysts?)
+
+    Synthesize a comprehensive "Trend Intelligence Report" detailing 3 distinct emerging opportunities. Include data points, search volume estimates, and the core problem for each.
+  `,
+  }),
+
+  generateIdea: definePrompt<{ today: string; trendReport: string }>({
+    id: 'generateIdea',
+    version: 1,
+    description: 'Idea of the day, synthesized from the daily trend report',
+    render: ({ today, trendReport }) => `
+    Act as a world-class venture capitalist and trend analyst. Today is ${today}.
+
+    Here is the latest Trend Intelligence Report pulled from our Daily Trends Module:
+    ${trendReport}
+
+    1. Select the most promising breakout business trend or rising problem from the report above.
+    2. Synthesize a complete, robust business idea ("The Idea of Tomorrow") that solves this problem.
+    3. **CRITICAL:** Create a UNIQUE, CREATIVE, and CATCHY one-word or two-word brand name for this startup. Do not use generic descriptive names.
+    4. Conduct a keyword analysis for related search terms.
+    5. Provide community validation signals based on the report.
+
+    Output MUST be valid JSON adhering to the provided schema.
+  `,
+  }),
+
+  analyzeUserIdea: definePrompt<{ userDescription: string; hasMedia: boolean }>({
+    id: 'analyzeUserIdea',
+    version: 2,
+    description: "Full analysis of a user's own idea, optionally with an image or video",
+    render: ({ userDescription, hasMedia }) => `
+    Act as a VC expert. Analyze the following idea concept: "${userDescription}"
+    ${hasMedia ? 'Also analyze the provided media for additional context.' : ''}
+
+    1. Search for real-time market data to validate this idea.
+    2. **CRITICAL:** Create a UNIQUE, CREATIVE, and CATCHY name for this startup if one isn't provided.
+    3. Provide a robust, detailed analysis including a Value Ladder of 3 to 5 steps that ascends in value and price, from a free or low-cost entry offer to the highest-ticket offer.
+
+    Output MUST be valid JSON adhering to the provided schema.
+  `,
+  }),
+
+  forkIdea: definePrompt<IdeaVars & { historyText: string }>({
+    id: 'forkIdea',
+    version: 1,
+    description: 'New niche idea derived from an idea chat',
+    render: ({ idea, historyText }) => `
+    Act as a world-class venture capitalist and trend analyst.
+    The user has been discussing a business idea called "${idea.title}" and wants to pivot or "fork" this idea into a specific niche based on the following conversation:
+
+    ORIGINAL IDEA:
+    ${idea.description}
+
+    CONVERSATION HISTORY:
+    ${historyText}
+
+    Based on the conversation, generate a NEW, distinct business idea that focuses on the niche or pivot discussed.
+    1. Create a UNIQUE, CREATIVE, and CATCHY brand name for this new niche startup.
+    2. Provide a complete analysis for this new niche idea.
+
+    Output MUST be valid JSON adhering to the provided schema.
+  `,
+  }),
+
+  repairIdea: definePrompt<{ title?: string; description?: string; issues: string[]; repairKeys: string[] }>({
+    id: 'repairIdea',
+    version: 1,
+    description: 'Re-requests only the fields of a generated idea that failed validation',
+    render: ({ title, description, issues, repairKeys }) => `
+    You previously generated a business idea called "${title || 'Untitled'}".
+    ${description ? `Description: ${description}` : ''}
+
+    These fields were missing or malformed:
+    ${issues.map(issue => `- ${issue}`).join('\n    ')}
+
+    Return ONLY the following fields, complete and consistent with the idea above: ${repairKeys.join(', ')}.
+    Output MUST be valid JSON adhering to the provided schema.
+  `,
+  }),
+
+  artifact: definePrompt<{ idea: Pick<BusinessIdea, 'title' | 'description' | 'tags'>; artifact: ArtifactTemplate }>({
+    id: 'artifact',
+    version: 1,
+    description: 'One asset from the template library',
+    render: ({ idea, artifact }) => {
+      let prompt = `Generate a robust ${artifact.title} for the business idea "${idea.title}".\n\nBusiness Description:\n${idea.description}\n\nTarget Audience / Tags: ${idea.tags.join(', ')}\n\nFocus on high-quality, actionable advice that is specifically tailored to this exact business concept. Do not make generic assumptions.`;
+      if (artifact.id === 'coding-prompts') {
+        prompt += `\n\nSpecifically, create a comprehensive "Master System Prompt" and coding agent prompts (for tools like Cursor, Windsurf, or Bolt) that a developer can use to build this exact application. Include architecture, tech stack recommendations, and step-by-step implementation prompts.`;
+      }
+      return prompt;
+    },
+  }),
+
+  sectionDeepDive: definePrompt<IdeaVars & { section: DeepDiveSection }>({
+    id: 'sectionDeepDive',
+    version: 1,
+    description: 'Deep dive into one section of an idea',
+    render: ({ idea, section }) =>
+      `Provide a detailed deep dive analysis for the "${DEEP_DIVE_SECTIONS[section]}" of the business idea "${idea.title}".\n\nBusiness Description:\n${idea.description}\n\nUse Google Search for the latest signals to validate and expand upon this specific business concept.`,
+  }),
+
+  fullAnalysis: definePrompt<IdeaVars>({
+    id: 'fullAnalysis',
+    version: 1,
+    description: 'Investment memo covering the whole idea',
+    render: ({ idea }) =>
+      `Create a comprehensive Investment Memo and Deep Dive Report for the business idea: "${idea.title}".\n\nBusiness Description:\n${idea.description}\n\nUse search for validation and provide specific, relevant insights for this exact concept.`,
+  }),
+
+  condenseSlides: definePrompt<{ title: string; sections: SlideSource[] }>({
+    id: 'condenseSlides',
+    version: 1,
+    description: 'Turns long idea sections into slide-length bullet points for the pitch deck',
+    render: ({ title, sections }) =>
+      `You are preparing an investor pitch deck for "${title}". Rewrite each section below as 3-5 slide bullet points.\n\nRules:\n- At most 14 words per bullet, no trailing full stop.\n- Keep concrete numbers, names and dates; drop filler.\n- Do not invent facts that are not in the section.\n\nReturn JSON: { "slides": [{ "id": "<section id>", "bullets": ["..."] }] }\n\n${sections.map(s => `[${s.id}] ${s.heading}\n${s.text}`).join('\n\n')}`,
+  }),
+
+  financialAssumptions: definePrompt<{ idea: Pick<BusinessIdea, 'title' | 'description' | 'sections' | 'trendVolume'> }>({
+    id: 'financialAssumptions',
+    version: 1,
+    description: 'Starting traffic, funnel, churn and cost assumptions for the financial model',
+    render: ({ idea }) =>
+      `You are a startup financial analyst. Propose realistic launch-stage assumptions for a 36-month model of "${idea.title}".\n\nBusiness Description:\n${idea.description}\n\nSearch volume for the core keyword: ${idea.trendVolume || 'unknown'}\n\nValue ladder (in funnel order):\n${idea.sections.offer.map((step, idx) => `${idx + 1}. ${step.type}: ${step.title} (${step.price})`).join('\n')}\n\nReturn JSON with: monthlyVisitors, visitorGrowth (% per month), conversions (one % per ladder step: the first is the share of visitors who take step 1, each later one is the share of the previous step's customers who take it), monthlyChurn (% of subscribers per month), fixedCosts and marketingSpend (per month, in the ladder's currency), variableCosts (% of revenue) and a short rationale. Be conservative for a new product.`,
+  }),
+
+  regenerateLadderStep: definePrompt<{ idea: Pick<BusinessIdea, 'title' | 'description' | 'sections'>; index: number }>({
+    id: 'regenerateLadderStep',
+    version: 1,
+    description: 'Rewrites one value ladder step so it fits between its neighbours',
+    render: ({ idea, index }) => {
+      const step = idea.sections.offer[index];
+      return `You are a pricing and offer strategist. Rewrite step ${index + 1} of the value ladder for "${idea.title}".\n\nBusiness Description:\n${idea.description}\n\nValue ladder (lowest to highest):\n${idea.sections.offer.map((s, idx) => `${idx + 1}. ${s.type}: ${s.title} (${s.price}): ${s.description}${idx === index ? '  <- rewrite this step' : ''}`).join('\n')}\n\nRules:\n- Keep the step's role in the funnel (currently "${step?.type || 'Offer'}").\n- It must offer more value and cost more than the step below it, and less than the step above it.\n- Give the price as short text such as "Free", "$29/mo", "$499" or "$990/yr".\n\nReturn JSON with: type, title, description, price, valueProvided and goal.`;
+    },
+  }),
+
+  ideaChat: definePrompt<{ idea: BusinessIdea }>({
+    id: 'ideaChat',
+    version: 3,
+    description: 'System instruction for the per-idea consultant chat',
+    render: ({ idea }) => `
+    You are an expert Business Consultant. You are discussing "${idea.title}".
+    Context: ${JSON.stringify(idea, null, 2)}
+    Focus on human-centric design and cognitive load reduction in your advice.
+    For current facts such as competitors, prices, regulations or recent news, call search_web and base your answer on what it returns.
+    When the user asks you to change the idea, or agrees to a change you suggested, call the matching tool instead of only describing the change. The user reviews each change before it is applied, so also explain it briefly in your reply. Each change comes back with whether the user accepted or rejected it; don't propose a rejected change again unless asked.
+  `,
+  }),
+
+  ideaChatSearch: definePrompt<{ idea: Pick<BusinessIdea, 'title' | 'description'>; query: string }>({
+    id: 'ideaChatSearch',
+    version: 1,
+    description: 'Grounded web lookup the idea chat runs when the model calls search_web',
+    render: ({ idea, query }) =>
+      `Research this question with Google Search for a consultant discussing the business idea "${idea.title}" (${idea.description}).\n\nQuestion: ${query}\n\nAnswer with the facts you found, including figures, names and dates, in a few short paragraphs. Say so if the search found nothing reliable.`,
+  }),
+
+  whiteboardChat: definePrompt<{ nodeCount: number }>({
+    id: 'whiteboardChat',
+    version: 1,
+    description: 'System instruction for the whiteboard assistant',
+    render: ({ nodeCount }) => `
+    You are an AI Creative Partner on a digital whiteboard.
+    Current context: ${nodeCount} nodes on board.
+    Help the user brainstorm, organize, and connect ideas.
+  `,
+  }),
+};
@@ -0,0 +1,128 @@
+import { BusinessIdea, FieldProvenance, ProvenanceSource } from '../types';
+
+// Field paths we track provenance for. These match the granularity of the
+// edit handlers in IdeaDetail, so a user edit always maps to one entry.
+export const PROVENANCE_FIELDS = [
+  'title',
+  'description',
+  'tags',
+  'priceRange',
+  'trendKeyword',
+  'trendVolume',
+  'trendGrowth',
+  'relatedKeywords',
+  'trendData',
+  'kpi.opportunity',
+  'kpi.problem',
+  'kpi.feasibility',
+  'kpi.whyNow',
+  'businessFit.revenuePotential',
+  'businessFit.executionDifficulty',
+  'businessFit.goToMarket',
+  'businessFit.founderFitDescription',
+  'sections.offer',
+  'sections.whyNow',
+  'sections.proofAndSignals',
+  'sections.marketGap',
+  'sections.executionPlan',
+  'communitySignals.reddit',
+  'communitySignals.facebook',
+  'communitySignals.youtube',
+  'communitySignals.other',
+] as const;
+
+export type ProvenanceField = typeof PROVENANCE_FIELDS[number];
+
+// Scores and chart data are always model judgements, even when the surrounding
+// text was grounded, so they are never marked as grounded.
+const ESTIMATE_ONLY_FIELDS: ProvenanceField[] = [
+  'trendData', 'kpi.opportunity', 'kpi.problem', 'kpi.feasibility', 'kpi.whyNow',
+  'businessFit.executionDifficulty', 'businessFit.goToMarket', 'sections.offer',
+];
+
+export const PROVENANCE_LABELS: Record<ProvenanceSource, string> = {
+  grounded: 'Grounded',
+  estimate: 'AI Estimate',
+  default: 'Default',
+  user: 'Edited',
+};
+
+const getFieldValue = (idea: Record<string, any>, path: string): unknown =>
+  path.split('.').reduce<any>((value, key) => (value == null ? undefined : value[key]), idea);
+
+const fieldText = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.filter(v => typeof v === 'string').join(' ');
+  return '';
+};
+
+// Grounding segments come back as slices of the raw JSON text, so a field is
+// grounded when a segment quotes its value or falls inside it.
+const isGrounded = (value: unknown, groundedSegments: string[]): boolean => {
+  const text = fieldText(value).trim();
+  if (!text) return false;
+  const quoted = JSON.stringify(text);
+  return groundedSegments.some(segment =>
+    segment.includes(quoted) || (segment.length >= 20 && text.includes(segment.replace(/^"|"$/g, '')))
+  );
+};
+
+interface ModelProvenanceOptions {
+  groundedSegments?: string[];
+  repairedKeys?: string[];
+  defaultedFields?: ProvenanceField[];
+}
+
+/** Builds the provenance map for an idea that was just produced by the model. */
+export const buildModelProvenance = (
+  idea: Record<string, any>,
+  { groundedSegments = [], repairedKeys = [], defaultedFields = [] }: ModelProvenanceOptions
+): Record<string, FieldProvenance> => {
+  const updatedAt = new Date().toISOString();
+  const provenance: Record<string, FieldProvenance> = {};
+
+  PROVENANCE_FIELDS.forEach(path => {
+    let source: ProvenanceSource = 'estimate';
+    if (defaultedFields.includes(path)) {
+      source = 'default';
+    } else if (
+      !repairedKeys.includes(path.split('.')[0]) &&
+      !ESTIMATE_ONLY_FIELDS.includes(path) &&
+      isGrounded(getFieldValue(idea, path), groundedSegments)
+    ) {
+      source = 'grounded';
+    }
+    provenance[path] = { source, updatedAt };
+  });
+
+  return provenance;
+};
+
+export const isProvenanceField = (path: string): path is ProvenanceField =>
+  (PROVENANCE_FIELDS as readonly string[]).includes(path);
+
+export const getProvenance = (idea: BusinessIdea, path: ProvenanceField): FieldProvenance | undefined =>
+  idea.provenance?.[path];
+
+export const markUserEdited = (idea: BusinessIdea, path: ProvenanceField): BusinessIdea => ({
+  ...idea,
+  provenance: {
+    ...idea.provenance,
+    [path]: { source: 'user', updatedAt: new Date().toISOString() },
+  },
+});
+
+// For AI-proposed changes the user accepted, e.g. from the idea chat
+export const markEstimated = (idea: BusinessIdea, path: ProvenanceField): BusinessIdea => ({
+  ...idea,
+  provenance: {
+    ...idea.provenance,
+    [path]: { source: 'estimate', updatedAt: new Date().toISOString() },
+  },
+});
+
+/** Inline markdown badge used in exported reports, e.g. " `Grounded`". */
+export const provenanceTag = (idea: BusinessIdea, path: ProvenanceField): string => {
+  const entry = getProvenance(idea, path);
+  return entry ? ` \`${PROVENANCE_LABELS[entry.source]}\`` : '';
+};
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AIResponse } from './aiProvider';
+import { AIUnavailableError, getSchedulerStatus, resetCircuit, schedule, scheduleStream } from './requestScheduler';
+
+async function* chunks(): AsyncGenerator<AIResponse> {
+  yield { text: 'Hello', sources: [] };
+  yield { text: ' there', sources: [] };
+}
+
+test('a stream that is never read holds no slot', async () => {
+  let opened = false;
+  await scheduleStream(async () => { opened = true; return chunks(); });
+  assert.equal(getSchedulerStatus().active, 0);
+  assert.equal(opened, false);
+});
+
+test('reading a stream holds a slot until it finishes', async () => {
+  const stream = await scheduleStream(async () => chunks());
+  assert.deepEqual(await stream.next(), { done: false, value: { text: 'Hello', sources: [] } });
+  assert.equal(getSchedulerStatus().active, 1);
+  for await (const _ of stream) { /* drain */ }
+  assert.equal(getSchedulerStatus().active, 0);
+});
+
+test('breaking out of a stream releases its slot', async () => {
+  const stream = await scheduleStream(async () => chunks());
+  for await (const _ of stream) break;
+  assert.equal(getSchedulerStatus().active, 0);
+});
+
+test('work queued before the circuit opens fails with the circuit error', async () => {
+  // Transient failures that ask for an immediate retry, so the test stays quick
+  const failing = () => schedule(async () => { throw Object.assign(new Error('Service unavailable'), { status: 503, retryAfterMs: 0 }); })
+    .catch(e => e);
+  await Promise.all([failing(), failing()]);
+
+  // The last failure opens the circuit while a request waits behind the busy slots
+  const blockers = [1, 2, 3].map(() => {
+    let finish = () => {};
+    const done = schedule(() => new Promise<void>(resolve => { finish = resolve; }));
+    return { done, finish: () => finish() };
+  });
+  const lastFailure = failing();
+  const queued = schedule(async () => 'ran');
+  assert.equal(getSchedulerStatus().queued, 1);
+
+  await lastFailure;
+  await assert.rejects(queued, AIUnavailableError);
+  blockers.forEach(blocker => blocker.finish());
+  await Promise.all(blockers.map(blocker => blocker.done));
+  resetCircuit();
+});
@@ -0,0 +1,285 @@
+import { AIOperation, AIProvider, AIResponse, createAbortError, isAbortError, throwIfAborted, waitFor } from './aiProvider';
+
+// Every provider call is queued here. The scheduler caps how many requests run
+// at once, lets interactive work jump ahead of bulk exports, retries transient
+// failures with jittered backoff and stops sending requests while the provider
+// is down.
+
+export type RequestPriority = 'interactive' | 'standard' | 'bulk';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface SchedulerStatus {
+  circuit: CircuitState;
+  reopensAt: number | null; // When an open circuit lets a trial request through
+  active: number;
+  queued: number;
+}
+
+interface ScheduleOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+const MAX_CONCURRENT = 4;
+// Bulk work never takes the last slot, so chat stays responsive during exports
+const MAX_BULK_CONCURRENT = MAX_CONCURRENT - 1;
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 30000;
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { interactive: 0, standard: 1, bulk: 2 };
+
+const INTERACTIVE_OPERATIONS: AIOperation[] = ['ideaChat', 'whiteboardChat'];
+
+export class AIUnavailableError extends Error {
+  retryAt: number;
+
+  constructor(retryAt: number) {
+    const seconds = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+    super(`AI unavailable: the provider is failing repeatedly. Try again in ${seconds}s.`);
+    this.name = 'AIUnavailableError';
+    this.retryAt = retryAt;
+  }
+}
+
+interface QueueEntry {
+  priority: RequestPriority;
+  order: number;
+  start: () => void;
+}
+
+const queue: QueueEntry[] = [];
+let nextOrder = 0;
+let active = 0;
+let activeBulk = 0;
+
+let circuit: CircuitState = 'closed';
+let reopensAt: number | null = null;
+let consecutiveFailures = 0;
+let trialInFlight = false;
+
+const listeners = new Set<(status: SchedulerStatus) => void>();
+
+export const getSchedulerStatus = (): SchedulerStatus => ({ circuit, reopensAt, active, queued: queue.length });
+
+const notify = () => {
+  const status = getSchedulerStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+export const subscribeToScheduler = (listener: (status: SchedulerStatus) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Closes the circuit so the next request goes straight to the provider. */
+export const resetCircuit = () => {
+  circuit = 'closed';
+  reopensAt = null;
+  consecutiveFailures = 0;
+  trialInFlight = false;
+  notify();
+};
+
+// --- Error classification ---
+
+const errorMessage = (e: any): string => (e && typeof e.message === 'string' ? e.message : '');
+
+const isRateLimited = (e: any): boolean =>
+  e?.status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(errorMessage(e));
+
+const isTransientError = (e: any): boolean =>
+  isRateLimited(e) ||
+  [500, 502, 503, 504].includes(e?.status) ||
+  /Deadline expired|Failed to fetch|fetch failed|network/i.test(errorMessage(e));
+
+// Gemini reports rate-limit hints inside the error body as RetryInfo
+// ("retryDelay": "12s"); other providers may set retryAfterMs directly.
+const getRetryAfterMs = (e: any): number | null => {
+  if (typeof e?.retryAfterMs === 'number') return e.retryAfterMs;
+  const match = errorMessage(e).match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"|retry (?:in|after) (\d+(?:\.\d+)?)\s*s/i);
+  if (!match) return null;
+  return Math.ceil(parseFloat(match[1] || match[2]) * 1000);
+};
+
+const getRetryDelay = (e: any, attempt: number): number => {
+  const hint = getRetryAfterMs(e);
+  if (hint !== null) return hint + Math.random() * BASE_DELAY_MS;
+  // Equal jitter keeps some backoff while spreading out simultaneous retries
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * Math.pow(2, attempt));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+// --- Circuit breaker ---
+
+// Returns true when the caller is the single trial request of a half-open circuit.
+const enterCircuit = (): boolean => {
+  if (circuit === 'open') {
+    if (reopensAt !== null && Date.now() < reopensAt) throw new AIUnavailableError(reopensAt);
+    circuit = 'half-open';
+    notify();
+  }
+  if (circuit === 'half-open') {
+    if (trialInFlight) throw new AIUnavailableError(Date.now() + BASE_DELAY_MS);
+    trialInFlight = true;
+    return true;
+  }
+  return false;
+};
+
+const recordResponse = () => {
+  if (circuit === 'closed' && consecutiveFailures === 0) return;
+  resetCircuit();
+};
+
+const recordFailure = () => {
+  consecutiveFailures++;
+  if (circuit === 'half-open' || consecutiveFailures >= FAILURE_THRESHOLD) {
+    circuit = 'open';
+    reopensAt = Date.now() + COOLDOWN_MS;
+    console.warn(`AI provider failed ${consecutiveFailures} times in a row. Pausing requests for ${COOLDOWN_MS / 1000}s.`);
+    notify();
+  }
+};
+
+// --- Concurrency ---
+
+const canStart = (priority: RequestPriority) =>
+  active < MAX_CONCURRENT && (priority !== 'bulk' || activeBulk < MAX_BULK_CONCURRENT);
+
+const pump = () => {
+  queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.order - b.order);
+  for (let i = 0; i < queue.length;) {
+    const entry = queue[i];
+    if (canStart(entry.priority)) {
+      queue.splice(i, 1);
+      active++;
+      if (entry.priority === 'bulk') activeBulk++;
+      entry.start();
+    } else {
+      i++;
+    }
+  }
+  notify();
+};
+
+const acquireSlot = (priority: RequestPriority, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  throwIfAborted(signal);
+  const onAbort = () => {
+    const index = queue.indexOf(entry);
+    if (index >= 0) queue.splice(index, 1);
+    notify();
+    reject(createAbortError());
+  };
+  const entry: QueueEntry = {
+    priority,
+    order: nextOrder++,
+    start: () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    },
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+  queue.push(entry);
+  pump();
+});
+
+const releaseSlot = (priority: RequestPriority) => {
+  active--;
+  if (priority === 'bulk') activeBulk--;
+  pump();
+};
+
+const runWithRetry = async <T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      const result = await run();
+      recordResponse();
+      return result;
+    } catch (e: any) {
+      if (isAbortError(e)) throw e;
+      // Anything other than a transient failure means the provider answered
+      if (!isTransientError(e)) {
+        recordResponse();
+        throw e;
+      }
+      if (attempt + 1 >= MAX_ATTEMPTS) {
+        recordFailure();
+        throw e;
+      }
+      const delay = getRetryDelay(e, attempt);
+      console.warn(`AI request attempt ${attempt + 1} failed with ${isRateLimited(e) ? 'a rate limit' : 'a transient error'}. Retrying in ${Math.round(delay)}ms...`);
+      await waitFor(delay, signal);
+    }
+  }
+};
+
+/**
+ * Runs a provider call once a slot is free, retrying transient failures. The
+ * circuit is checked when the call starts, so work queued before the provider
+ * went down fails fast too.
+ */
+export const schedule = async <T>(run: () => Promise<T>, { priority = 'standard', signal }: ScheduleOptions = {}): Promise<T> => {
+  await acquireSlot(priority, signal);
+  let isTrial = false;
+  try {
+    isTrial = enterCircuit();
+    return await runWithRetry(run, signal);
+  } finally {
+    if (isTrial) trialInFlight = false;
+    releaseSlot(priority);
+  }
+};
+
+// Nothing is reserved until the first chunk is requested, so a stream that is
+// never read holds no slot, and breaking out of it releases the slot
+async function* runStream(open: () => Promise<AsyncGenerator<AIResponse>>, priority: RequestPriority, signal?: AbortSignal): AsyncGenerator<AIResponse> {
+  await acquireSlot(priority, signal);
+  let isTrial = false;
+  try {
+    isTrial = enterCircuit();
+    yield* await runWithRetry(open, signal);
+  } finally {
+    if (isTrial) trialInFlight = false;
+    releaseSlot(priority);
+  }
+}
+
+/**
+ * Like schedule, but the slot is taken when reading starts and kept until the
+ * stream is consumed. Only opening the stream is retried; a failure mid-stream
+ * goes to the caller.
+ */
+export const scheduleStream = async (
+  open: () => Promise<AsyncGenerator<AIResponse>>,
+  { priority = 'standard', signal }: ScheduleOptions = {}
+): Promise<AsyncGenerator<AIResponse>> => runStream(open, priority, signal);
+
+const defaultPriority = (operation: AIOperation): RequestPriority =>
+  INTERACTIVE_OPERATIONS.includes(operation) ? 'interactive' : 'standard';
+
+/** Routes every call of a provider through the scheduler. */
+export const withScheduler = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generate: (request) => schedule(
+    () => provider.generate(request),
+    { priority: request.priority || defaultPriority(request.operation), signal: request.signal }
+  ),
+  generateStream: (request) => scheduleStream(
+    () => provider.generateStream(request),
+    { priority: request.priority || defaultPriority(request.operation), signal: request.signal }
+  ),
+  createChat: (options) => {
+    const chat = provider.createChat(options);
+    const priority = defaultPriority(options.operation);
+    return {
+      sendMessage: (params) => schedule(() => chat.sendMessage(params), { priority, signal: params.signal }),
+      sendMessageStream: (params) => scheduleStream(() => chat.sendMessageStream(params), { priority, signal: params.signal }),
+      getHistory: () => chat.getHistory(),
+    };
+  },
+});
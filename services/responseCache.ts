@@ -0,0 +1,158 @@
+import { BusinessIdea } from '../types';
+import { AIRequest, getActiveProviderId } from './aiProvider';
+import { openDatabase, requestToPromise, withStore } from './idb';
+
+// Content-addressed cache for long-form generations (artifacts, deep dives,
+// full reports). Keys hash the provider, prompt and its registry version, model,
+// request config and a revision of the idea, so any edit to the idea (or to the
+// prompt template) naturally misses the cache.
+
+export interface CachedResponse {
+  key: string;
+  operation: AIRequest['operation'];
+  model: string;
+  ideaId?: string;
+  promptVersion?: string;
+  text: string;
+  createdAt: string;
+  lastAccessedAt: number;
+  bytes: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+const DB_NAME = 'ideabrowser-response-cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+// Least recently used entries are evicted once the cache grows past this
+const MAX_CACHE_BYTES = 10 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+      const store = db.createObjectStore(STORE, { keyPath: 'key' });
+      store.createIndex('lastAccessedAt', 'lastAccessedAt');
+    }).catch(e => {
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+// FNV-1a, only used where crypto.subtle is unavailable (non-secure contexts)
+const fallbackHash = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv-${(hash >>> 0).toString(16)}-${text.length}`;
+};
+
+export const hashValue = async (value: unknown): Promise<string> => {
+  const text = JSON.stringify(value);
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/** Hash of the idea's content. Saved reports and bookkeeping fields don't change the revision. */
+export const getIdeaRevision = (idea: BusinessIdea): Promise<string> => {
+  const { savedReports, provenance, sources, date, promptVersion, updatedAt, ...content } = idea;
+  return hashValue(content);
+};
+
+export const getResponseCacheKey = (request: AIRequest, ideaRevision: string): Promise<string> =>
+  hashValue({
+    provider: getActiveProviderId(),
+    operation: request.operation,
+    model: request.model,
+    promptVersion: request.promptVersion,
+    contents: request.contents,
+    config: request.config,
+    ideaRevision,
+  });
+
+export const getCachedResponse = async (key: string): Promise<CachedResponse | null> => {
+  try {
+    const db = await getDb();
+    return await withStore(db, STORE, 'readwrite', async (tx) => {
+      const store = tx.objectStore(STORE);
+      const entry = await requestToPromise<CachedResponse | undefined>(store.get(key));
+      if (!entry) return null;
+      const touched = { ...entry, lastAccessedAt: Date.now() };
+      store.put(touched);
+      return touched;
+    });
+  } catch (e) {
+    // The cache is an optimisation; a broken database just means a miss
+    console.error("Response cache read failed", e);
+    return null;
+  }
+};
+
+const pruneCache = async (db: IDBDatabase) => {
+  await withStore(db, STORE, 'readwrite', async (tx) => {
+    const store = tx.objectStore(STORE);
+    const entries = await requestToPromise<CachedResponse[]>(store.getAll());
+    let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    if (total <= MAX_CACHE_BYTES) return;
+    entries.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+    for (const entry of entries) {
+      if (total <= MAX_CACHE_BYTES) break;
+      store.delete(entry.key);
+      total -= entry.bytes;
+    }
+  });
+};
+
+export const putCachedResponse = async (
+  key: string,
+  request: AIRequest,
+  text: string
+): Promise<void> => {
+  const now = Date.now();
+  const entry: CachedResponse = {
+    key,
+    operation: request.operation,
+    model: request.model,
+    ideaId: request.ideaId,
+    promptVersion: request.promptVersion,
+    text,
+    createdAt: new Date(now).toISOString(),
+    lastAccessedAt: now,
+    bytes: new Blob([text]).size,
+  };
+  try {
+    const db = await getDb();
+    await withStore(db, STORE, 'readwrite', (tx) => { tx.objectStore(STORE).put(entry); });
+    await pruneCache(db);
+  } catch (e) {
+    console.error("Response cache write failed", e);
+  }
+};
+
+export const getResponseCacheStats = async (): Promise<ResponseCacheStats> => {
+  try {
+    const db = await getDb();
+    const entries = await withStore(db, STORE, 'readonly', (tx) =>
+      requestToPromise<CachedResponse[]>(tx.objectStore(STORE).getAll())
+    );
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0), maxBytes: MAX_CACHE_BYTES };
+  } catch (e) {
+    console.error("Response cache stats failed", e);
+    return { entries: 0, bytes: 0, maxBytes: MAX_CACHE_BYTES };
+  }
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  const db = await getDb();
+  await withStore(db, STORE, 'readwrite', (tx) => { tx.objectStore(STORE).clear(); });
+};
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Route, navigate, parseRoute, routePath, subscribeToRoute } from './router';
+
+// A minimal window whose history updates location.pathname like a browser's
+const popListeners = new Set<() => void>();
+const pushed: string[] = [];
+(globalThis as any).window = {
+  location: { origin: 'https://ideas.test', pathname: '/' },
+  history: {
+    pushState: (_: unknown, __: string, path: string) => { pushed.push(path); (globalThis as any).window.location.pathname = path; },
+    replaceState: (_: unknown, __: string, path: string) => { (globalThis as any).window.location.pathname = path; },
+  },
+  addEventListener: (_: string, listener: () => void) => popListeners.add(listener),
+  removeEventListener: (_: string, listener: () => void) => popListeners.delete(listener),
+};
+
+test('every view path parses back to its route', () => {
+  const routes: Route[] = [{ view: 'home' }, { view: 'generator' }, { view: 'my-ideas' }, { view: 'history' }, { view: 'usage' }, { view: 'shared' }];
+  routes.forEach(route => assert.deepEqual(parseRoute(routePath(route)), route));
+});
+
+test('idea ids are encoded in the path and decoded back', () => {
+  const path = routePath({ view: 'home', ideaId: 'a b/c' });
+  assert.equal(path, '/ideas/a%20b%2Fc');
+  assert.deepEqual(parseRoute(path), { view: 'home', ideaId: 'a b/c' });
+  assert.deepEqual(parseRoute('/ideas/abc/'), { view: 'home', ideaId: 'abc' });
+});
+
+test('trailing slashes are ignored and unknown paths fall back to home', () => {
+  assert.deepEqual(parseRoute('/history/'), { view: 'history' });
+  assert.deepEqual(parseRoute('/nowhere'), { view: 'home' });
+  assert.deepEqual(parseRoute('/ideas/'), { view: 'home' });
+});
+
+test('navigating pushes a history entry only when the path changes', () => {
+  const seen: Route[] = [];
+  const unsubscribe = subscribeToRoute(route => seen.push(route));
+  navigate({ view: 'history' });
+  navigate({ view: 'history' });
+  navigate({ view: 'home', ideaId: 'idea-1' }, { replace: true });
+
+  assert.deepEqual(pushed, ['/history']);
+  assert.equal((globalThis as any).window.location.pathname, '/ideas/idea-1');
+  assert.equal(seen.length, 3);
+
+  // Back/forward reports the route the browser landed on
+  (globalThis as any).window.location.pathname = '/my-ideas';
+  popListeners.forEach(listener => listener());
+  assert.deepEqual(seen[seen.length - 1], { view: 'my-ideas' });
+
+  unsubscribe();
+  assert.equal(popListeners.size, 0);
+});
@@ -0,0 +1,60 @@
+import { ViewState } from '../types';
+
+// History API routing. Each view has its own path and an idea shown on home
+// gets /ideas/:id, so refreshes, back/forward and shared links land on the
+// same screen instead of the default home view.
+
+export interface Route {
+  view: ViewState;
+  ideaId?: string; // Only used with the home view
+}
+
+const VIEW_PATHS: Record<ViewState, string> = {
+  'home': '/',
+  'generator': '/generator',
+  'my-ideas': '/my-ideas',
+  'history': '/history',
+  'usage': '/usage',
+  'shared': '/share', // Snapshot payload travels in the fragment
+};
+
+const IDEA_PATH = /^\/ideas\/([^/]+)\/?$/;
+
+export const parseRoute = (pathname: string): Route => {
+  const ideaMatch = pathname.match(IDEA_PATH);
+  if (ideaMatch) return { view: 'home', ideaId: decodeURIComponent(ideaMatch[1]) };
+  const normalized = pathname.replace(/\/+$/, '') || '/';
+  const view = (Object.keys(VIEW_PATHS) as ViewState[]).find(key => VIEW_PATHS[key] === normalized);
+  return { view: view || 'home' };
+};
+
+export const routePath = (route: Route): string =>
+  route.view === 'home' && route.ideaId ? `/ideas/${encodeURIComponent(route.ideaId)}` : VIEW_PATHS[route.view];
+
+/** Absolute link to an idea, for sharing. */
+export const ideaUrl = (ideaId: string) => `${window.location.origin}${routePath({ view: 'home', ideaId })}`;
+
+export const getCurrentRoute = (): Route => parseRoute(window.location.pathname);
+
+const listeners = new Set<(route: Route) => void>();
+
+/** Pushes a history entry (or replaces the current one) and notifies subscribers. */
+export const navigate = (route: Route, options: { replace?: boolean } = {}) => {
+  const path = routePath(route);
+  if (path !== window.location.pathname) {
+    if (options.replace) window.history.replaceState(null, '', path);
+    else window.history.pushState(null, '', path);
+  }
+  listeners.forEach(listener => listener(route));
+};
+
+/** Called on navigate() and on browser back/forward. */
+export const subscribeToRoute = (listener: (route: Route) => void) => {
+  const handlePopState = () => listener(getCurrentRoute());
+  listeners.add(listener);
+  window.addEventListener('popstate', handlePopState);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('popstate', handlePopState);
+  };
+};
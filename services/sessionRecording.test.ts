@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import type { SessionFixture } from './sessionRecording';
+
+// Replays a session recorded against the live Gemini API: the model left out
+// communitySignals, so the recording includes the repair call as well.
+const fixtureJson = readFileSync(new URL('./fixtures/generate-idea.session.json', import.meta.url), 'utf8');
+
+const store: Record<string, string> = { aiProvider: 'replay', aiReplayFixture: fixtureJson };
+(globalThis as any).localStorage = {
+  getItem: (key: string) => store[key] ?? null,
+  setItem: (key: string, value: string) => { store[key] = value; },
+  removeItem: (key: string) => { delete store[key]; },
+};
+
+const recorded = (fixture: SessionFixture, operation: string) =>
+  fixture.interactions.find(interaction => interaction.operation === operation)!.response;
+
+test('a recorded idea response parses into a hydrated idea', async () => {
+  const { hydrateIdea, parseGeminiResponse } = await import('./geminiService');
+  const { validateBusinessIdea } = await import('./ideaValidation');
+  const { parseSessionFixture } = await import('./sessionRecording');
+  const fixture = parseSessionFixture(fixtureJson);
+  const response = recorded(fixture, 'generateBusinessIdea');
+
+  const parsed = parseGeminiResponse(response.text) as any;
+  assert.deepEqual(validateBusinessIdea(parsed).map(issue => issue.path), ['communitySignals']);
+
+  const signals = (parseGeminiResponse(recorded(fixture, 'repairIdea').text) as any).communitySignals;
+  const idea = hydrateIdea({ idea: { ...parsed, communitySignals: signals }, repairedKeys: ['communitySignals'] }, response, 'generateIdea@v1');
+  assert.equal(idea.title, 'CrateCycle');
+  assert.equal(idea.priceRange, 'Variable');
+  assert.deepEqual(idea.sources?.map(source => source.title), ['europa.eu', 'trends.google.com']);
+  assert.equal(idea.provenance?.['sections.whyNow'].source, 'grounded');
+  assert.equal(idea.provenance?.['sections.marketGap'].source, 'estimate');
+  assert.equal(idea.provenance?.['priceRange'].source, 'default');
+});
+
+test('generating an idea against the recording repairs the missing fields', async () => {
+  const { getActiveProviderId } = await import('./aiProvider');
+  const { generateBusinessIdea } = await import('./geminiService');
+  assert.equal(getActiveProviderId(), 'replay');
+
+  const idea = await generateBusinessIdea();
+  assert.equal(idea.title, 'CrateCycle');
+  assert.equal(idea.sections.offer.length, 2);
+  assert.match(idea.communitySignals.reddit, /r\/ecommerce/);
+  assert.equal(idea.provenance?.['communitySignals.reddit'].source, 'estimate');
+  assert.equal(idea.provenance?.['sections.whyNow'].source, 'grounded');
+  assert.equal(idea.sources?.length, 2);
+});
@@ -0,0 +1,287 @@
+import { Content, GenerateContentConfig, Part } from '@google/genai';
+import { AIChatSession, AIOperation, AIProvider, AIProviderId, AIRequest, AIResponse, throwIfAborted } from './aiProvider';
+import { hashValue } from './responseCache';
+
+// Record/replay harness. While recording, every successful call made through the
+// live provider is captured with its full response (grounding metadata, function
+// calls, stream chunks). A recording downloads as a fixture file, and the replay
+// provider serves a fixture back deterministically so the whole app can run
+// offline against a recorded session, and tests can run against real responses.
+
+export type InteractionKind = 'generate' | 'stream' | 'chat' | 'chatStream';
+
+export interface RecordedInteraction {
+  key: string;
+  kind: InteractionKind;
+  operation: AIOperation;
+  model: string;
+  promptVersion?: string;
+  contents: string | Part[];
+  config?: GenerateContentConfig;
+  response: AIResponse;
+  chunks?: AIResponse[]; // Stream chunks as they arrived; response is their merge
+  recordedAt: string;
+}
+
+export interface SessionFixture {
+  format: 'ideabrowser-session';
+  version: 1;
+  recordedAt: string;
+  provider: AIProviderId;
+  interactions: RecordedInteraction[];
+}
+
+export class ReplayMissError extends Error {
+  constructor(operation: AIOperation) {
+    super(`The loaded recording has no response for "${operation}". Record a session that covers this action, or switch providers.`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+const RECORDING_KEY = 'aiSessionRecording';
+const FIXTURE_KEY = 'aiReplayFixture';
+
+// --- Matching ---
+
+// The chat system instruction embeds the idea (including its random id), so chat
+// turns are matched on the message alone.
+const interactionKey = (kind: InteractionKind, operation: AIOperation, model: string, contents: string | Part[], config?: GenerateContentConfig, promptVersion?: string) =>
+  hashValue({ chat: kind === 'chat' || kind === 'chatStream', operation, model, contents, config: kind.startsWith('chat') ? undefined : config, promptVersion });
+
+const requestKey = (kind: InteractionKind, request: AIRequest) =>
+  interactionKey(kind, request.operation, request.model, request.contents, request.config, request.promptVersion);
+
+/** Merges stream chunks into the single response a blocking call would have returned. */
+export const mergeChunks = (chunks: AIResponse[]): AIResponse => ({
+  text: chunks.map(chunk => chunk.text).join(''),
+  sources: chunks.flatMap(chunk => chunk.sources),
+  groundedSegments: chunks.some(chunk => chunk.groundedSegments) ? chunks.flatMap(chunk => chunk.groundedSegments || []) : undefined,
+  functionCalls: chunks.some(chunk => chunk.functionCalls) ? chunks.flatMap(chunk => chunk.functionCalls || []) : undefined,
+  usage: [...chunks].reverse().find(chunk => chunk.usage)?.usage,
+});
+
+// --- Recording ---
+
+const loadJson = <T>(key: string): T | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to read ${key}`, e);
+  }
+  return null;
+};
+
+// Mirrors to localStorage so a reload doesn't lose the session. Large sessions
+// can exceed the quota; they stay in memory and can still be downloaded.
+const saveJson = (key: string, value: unknown) => {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Could not persist ${key}; keeping it in memory only`, e);
+  }
+};
+
+interface RecordingState {
+  active: boolean;
+  interactions: RecordedInteraction[];
+}
+
+let recording: RecordingState = loadJson<RecordingState>(RECORDING_KEY) || { active: false, interactions: [] };
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeToRecording = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const isRecording = (): boolean => recording.active;
+
+export const getRecordedInteractions = (): RecordedInteraction[] => recording.interactions;
+
+export const startRecording = () => {
+  recording = { active: true, interactions: [] };
+  saveJson(RECORDING_KEY, recording);
+  notify();
+};
+
+export const stopRecording = () => {
+  recording = { ...recording, active: false };
+  saveJson(RECORDING_KEY, recording);
+  notify();
+};
+
+export const clearRecording = () => {
+  recording = { active: false, interactions: [] };
+  saveJson(RECORDING_KEY, null);
+  notify();
+};
+
+export const exportRecording = (provider: AIProviderId): SessionFixture => ({
+  format: 'ideabrowser-session',
+  version: 1,
+  recordedAt: new Date().toISOString(),
+  provider,
+  interactions: recording.interactions,
+});
+
+const capture = async (
+  kind: InteractionKind,
+  call: { operation: AIOperation; model: string; contents: string | Part[]; config?: GenerateContentConfig; promptVersion?: string },
+  response: AIResponse,
+  chunks?: AIResponse[]
+) => {
+  if (!recording.active) return;
+  const interaction: RecordedInteraction = {
+    key: await interactionKey(kind, call.operation, call.model, call.contents, call.config, call.promptVersion),
+    kind,
+    operation: call.operation,
+    model: call.model,
+    promptVersion: call.promptVersion,
+    contents: call.contents,
+    config: call.config,
+    response,
+    chunks,
+    recordedAt: new Date().toISOString(),
+  };
+  recording = { ...recording, interactions: [...recording.interactions, interaction] };
+  saveJson(RECORDING_KEY, recording);
+  notify();
+};
+
+// Only streams that run to completion are captured
+async function* captureStream(stream: AsyncGenerator<AIResponse>, onComplete: (chunks: AIResponse[]) => Promise<void>): AsyncGenerator<AIResponse> {
+  const chunks: AIResponse[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+    yield chunk;
+  }
+  await onComplete(chunks);
+}
+
+const requestCall = (request: AIRequest) => ({
+  operation: request.operation,
+  model: request.model,
+  contents: request.contents,
+  config: request.config,
+  promptVersion: request.promptVersion,
+});
+
+/** Captures successful calls into the current recording while recording is on. */
+export const withRecorder = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generate: async (request) => {
+    const response = await provider.generate(request);
+    await capture('generate', requestCall(request), response);
+    return response;
+  },
+  generateStream: async (request) =>
+    captureStream(await provider.generateStream(request), chunks => capture('stream', requestCall(request), mergeChunks(chunks), chunks)),
+  createChat: (options) => {
+    const chat = provider.createChat(options);
+    const chatCall = (message: string | Part[]) => ({ operation: options.operation, model: options.model, contents: message });
+    return {
+      sendMessage: async (params) => {
+        const response = await chat.sendMessage(params);
+        await capture('chat', chatCall(params.message), response);
+        return response;
+      },
+      sendMessageStream: async (params) =>
+        captureStream(await chat.sendMessageStream(params), chunks => capture('chatStream', chatCall(params.message), mergeChunks(chunks), chunks)),
+      getHistory: () => chat.getHistory(),
+    };
+  },
+});
+
+// --- Replay ---
+
+let loadedFixture: SessionFixture | null = loadJson<SessionFixture>(FIXTURE_KEY);
+
+export const getReplayFixture = (): SessionFixture | null => loadedFixture;
+
+export const parseSessionFixture = (json: string): SessionFixture => {
+  const fixture = JSON.parse(json);
+  if (fixture?.format !== 'ideabrowser-session' || !Array.isArray(fixture.interactions)) {
+    throw new Error("This file is not a recorded session");
+  }
+  if (fixture.version !== 1) {
+    throw new Error(`Unsupported recording version ${fixture.version}`);
+  }
+  return fixture;
+};
+
+export const setReplayFixture = (fixture: SessionFixture | null) => {
+  loadedFixture = fixture;
+  saveJson(FIXTURE_KEY, fixture);
+  notify();
+};
+
+const contentsToText = (contents: string | Part[]): string =>
+  typeof contents === 'string' ? contents : contents.map(p => p.text || '').join('\n');
+
+async function* replayChunks(chunks: AIResponse[], signal?: AbortSignal): AsyncGenerator<AIResponse> {
+  for (const chunk of chunks) {
+    throwIfAborted(signal);
+    yield chunk;
+  }
+}
+
+const chunksOf = (interaction: RecordedInteraction) => interaction.chunks || [interaction.response];
+
+/**
+ * Serves a fixture back in recorded order. An exact match on the request wins;
+ * otherwise the next unserved interaction for the same operation is used, so
+ * prompts that embed today's date or generated ids still replay. Each recorded
+ * interaction is served once, and the last match repeats once they run out.
+ */
+export const createReplayProvider = (fixture: SessionFixture): AIProvider => {
+  const served = new Set<RecordedInteraction>();
+
+  const take = (kinds: InteractionKind[], operation: AIOperation, key: string): RecordedInteraction => {
+    const candidates = fixture.interactions.filter(interaction => kinds.includes(interaction.kind) && interaction.operation === operation);
+    const exact = candidates.filter(interaction => interaction.key === key);
+    const match = exact.find(interaction => !served.has(interaction))
+      || candidates.find(interaction => !served.has(interaction))
+      || exact[exact.length - 1]
+      || candidates[candidates.length - 1];
+    if (!match) throw new ReplayMissError(operation);
+    served.add(match);
+    return match;
+  };
+
+  return {
+    id: 'replay',
+    label: 'Recorded Session',
+    generate: async (request) => {
+      throwIfAborted(request.signal);
+      return take(['generate', 'stream'], request.operation, await requestKey('generate', request)).response;
+    },
+    generateStream: async (request) => {
+      throwIfAborted(request.signal);
+      return replayChunks(chunksOf(take(['stream', 'generate'], request.operation, await requestKey('stream', request))), request.signal);
+    },
+    createChat: (options): AIChatSession => {
+      const history: Content[] = [...(options.history || [])];
+      const reply = async (message: string | Part[], kinds: InteractionKind[]) => {
+        const interaction = take(kinds, options.operation, await interactionKey('chat', options.operation, options.model, message));
+        history.push({ role: 'user', parts: [{ text: contentsToText(message) }] });
+        history.push({ role: 'model', parts: [{ text: interaction.response.text }] });
+        return interaction;
+      };
+      return {
+        sendMessage: async ({ message, signal }) => {
+          throwIfAborted(signal);
+          return (await reply(message, ['chat', 'chatStream'])).response;
+        },
+        sendMessageStream: async ({ message, signal }) => {
+          throwIfAborted(signal);
+          return replayChunks(chunksOf(await reply(message, ['chatStream', 'chat'])), signal);
+        },
+        getHistory: () => [...history],
+      };
+    },
+  };
+};
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MOCK_IDEA_RESPONSE } from './mockFixtures';
+import { SnapshotError, createSnapshot, validateSnapshot } from './shareSnapshot';
+
+const idea = { ...MOCK_IDEA_RESPONSE, id: 'idea-1', date: 'Today', priceRange: '$' };
+
+test('a snapshot with sensitive fields left out opens as a complete idea', () => {
+  const snapshot = createSnapshot(idea, { reportIndexes: [], strip: ['founderFit', 'communitySignals', 'executionPlan'] });
+  const { idea: opened } = validateSnapshot(JSON.parse(JSON.stringify(snapshot)));
+  assert.equal(opened.businessFit.founderFitDescription, '');
+  assert.deepEqual(opened.communitySignals, { reddit: '', facebook: '', youtube: '', other: '' });
+  assert.equal(opened.sections.executionPlan, '');
+  assert.equal(opened.title, idea.title);
+});
+
+test('a snapshot with a malformed idea is rejected', () => {
+  const snapshot = JSON.parse(JSON.stringify(createSnapshot(idea, { reportIndexes: [], strip: [] })));
+  snapshot.idea.kpi.problem.score = 'high';
+  delete snapshot.idea.trendData;
+  assert.throws(() => validateSnapshot(snapshot), (e: Error) => e instanceof SnapshotError && /trendData, kpi\.problem\.score/.test(e.message));
+});
+
+test('snapshots from before schema versions are upgraded', () => {
+  const withReport = { ...idea, savedReports: [{ title: 'Deep dive', content: 'Notes', date: 'Today' }] };
+  const { ideaSchemaVersion, ...snapshot } = JSON.parse(JSON.stringify(createSnapshot(withReport, { reportIndexes: [0], strip: [] })));
+  delete snapshot.idea.savedReports[0].date;
+  const { idea: opened } = validateSnapshot(snapshot);
+  assert.equal(opened.savedReports?.[0].date, 'Today');
+});
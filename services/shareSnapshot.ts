@@ -0,0 +1,281 @@
+import { BusinessIdea } from '../types';
+import { routePath } from './router';
+import { IDEA_SCHEMA_VERSION, LEGACY_IDEA_VERSION, migrateIdea } from './ideaMigrations';
+import { ValidationIssue, validateBusinessIdea } from './ideaValidation';
+
+// Read-only idea snapshots that travel without the app's storage: either a
+// compressed payload in a /share link (kept in the URL fragment, so it never
+// reaches a server) or a standalone HTML file. Recipients need no API key.
+
+export const SNAPSHOT_FORMAT = 'ideabrowser-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export interface IdeaSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  createdAt: string;
+  ideaSchemaVersion: number;
+  idea: BusinessIdea;
+}
+
+export type SensitiveField = 'provenance' | 'sources' | 'founderFit' | 'communitySignals' | 'executionPlan';
+
+export const SENSITIVE_FIELDS: { id: SensitiveField; label: string; description: string }[] = [
+  { id: 'provenance', label: 'Edit history', description: 'Field provenance, prompt versions and edit times' },
+  { id: 'sources', label: 'Research sources', description: 'Links found while grounding the idea' },
+  { id: 'founderFit', label: 'Founder fit', description: 'Notes on how the idea fits you' },
+  { id: 'communitySignals', label: 'Community signals', description: 'Where the idea is being discussed' },
+  { id: 'executionPlan', label: 'Execution plan', description: 'Your step-by-step plan' },
+];
+
+export const DEFAULT_STRIPPED_FIELDS: SensitiveField[] = ['provenance'];
+
+export interface SnapshotOptions {
+  reportIndexes: number[]; // Saved reports to include
+  strip: SensitiveField[];
+}
+
+// Links longer than this get cut off by mail clients and social networks
+export const MAX_LINK_PAYLOAD_CHARS = 8000;
+export const MAX_SNAPSHOT_BYTES = 5 * 1024 * 1024;
+
+export class SnapshotError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SnapshotError';
+  }
+}
+
+export const createSnapshot = (idea: BusinessIdea, options: SnapshotOptions): IdeaSnapshot => {
+  const strip = new Set(options.strip);
+  const { savedReports, provenance, promptVersion, updatedAt, sources, ...rest } = idea;
+  const shared: BusinessIdea = {
+    ...rest,
+    ...(strip.has('provenance') ? {} : { provenance, promptVersion, updatedAt }),
+    ...(strip.has('sources') ? {} : { sources }),
+    savedReports: (savedReports || []).filter((_, index) => options.reportIndexes.includes(index)),
+  };
+  if (strip.has('founderFit')) {
+    shared.businessFit = { ...shared.businessFit, founderFitDescription: '' };
+  }
+  if (strip.has('communitySignals')) {
+    shared.communitySignals = { reddit: '', facebook: '', youtube: '', other: '' };
+  }
+  if (strip.has('executionPlan')) {
+    shared.sections = { ...shared.sections, executionPlan: '' };
+  }
+  return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, createdAt: new Date().toISOString(), ideaSchemaVersion: IDEA_SCHEMA_VERSION, idea: shared };
+};
+
+// --- Encoding ---
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// Stops reading once the limit is passed, so a hostile link can't inflate into gigabytes
+const readLimited = async (stream: ReadableStream<Uint8Array>, limit: number) => {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) {
+      await reader.cancel();
+      throw new SnapshotError("This snapshot is too large to open");
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+};
+
+const transform = (bytes: Uint8Array, stream: CompressionStream | DecompressionStream, limit: number) =>
+  readLimited(new Blob([bytes]).stream().pipeThrough(stream), limit);
+
+export const encodeSnapshot = async (snapshot: IdeaSnapshot): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(snapshot));
+  if (json.length > MAX_SNAPSHOT_BYTES) {
+    throw new SnapshotError("This idea is too large to share. Leave out some saved reports and try again.");
+  }
+  return toBase64Url(await transform(json, new CompressionStream('deflate-raw'), Infinity));
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Sensitive fields the sender left out arrive empty, which the idea validator reports as missing
+const isStripped = (issue: ValidationIssue) => issue.problem === 'missing' &&
+  (issue.path === 'businessFit.founderFitDescription' || issue.path === 'sections.executionPlan' || issue.path.startsWith('communitySignals'));
+
+/**
+ * Checks a decoded snapshot and rejects anything that isn't one, came from a
+ * newer version of the app, or holds an incomplete idea. The idea is upgraded
+ * to the current schema and stripped fields are filled with empty values, so
+ * it can be saved like any other idea.
+ */
+export const validateSnapshot = (raw: unknown): IdeaSnapshot => {
+  if (!isObject(raw) || raw.format !== SNAPSHOT_FORMAT || !isObject(raw.idea)) {
+    throw new SnapshotError("This link doesn't contain an idea snapshot");
+  }
+  // Snapshots made before they recorded a schema version are upgraded from the oldest one
+  const ideaSchemaVersion = typeof raw.ideaSchemaVersion === 'number' ? raw.ideaSchemaVersion : LEGACY_IDEA_VERSION;
+  if (typeof raw.version !== 'number' || raw.version > SNAPSHOT_VERSION || ideaSchemaVersion > IDEA_SCHEMA_VERSION) {
+    throw new SnapshotError("This snapshot was made by a newer version of the app");
+  }
+  const idea = migrateIdea(raw.idea, ideaSchemaVersion);
+  const issues = validateBusinessIdea(idea).filter(issue => !isStripped(issue));
+  if (typeof idea.id !== 'string' || !idea.id || issues.length) {
+    const fields = Array.from(new Set(issues.map(issue => issue.path))).join(', ');
+    throw new SnapshotError(fields ? `This snapshot is missing parts of the idea: ${fields}` : "This snapshot is missing parts of the idea");
+  }
+  return {
+    ...(raw as IdeaSnapshot),
+    ideaSchemaVersion: IDEA_SCHEMA_VERSION,
+    idea: {
+      ...idea,
+      date: typeof idea.date === 'string' ? idea.date : '',
+      businessFit: { ...idea.businessFit, founderFitDescription: idea.businessFit.founderFitDescription || '' },
+      communitySignals: {
+        reddit: idea.communitySignals?.reddit || '',
+        facebook: idea.communitySignals?.facebook || '',
+        youtube: idea.communitySignals?.youtube || '',
+        other: idea.communitySignals?.other || '',
+      },
+      sections: { ...idea.sections, executionPlan: idea.sections.executionPlan || '' },
+    },
+  };
+};
+
+export const decodeSnapshot = async (payload: string): Promise<IdeaSnapshot> => {
+  let json: string;
+  try {
+    const bytes = await transform(fromBase64Url(payload.trim()), new DecompressionStream('deflate-raw'), MAX_SNAPSHOT_BYTES);
+    json = new TextDecoder().decode(bytes);
+  } catch (e) {
+    if (e instanceof SnapshotError) throw e;
+    throw new SnapshotError("This snapshot link is incomplete or damaged");
+  }
+  try {
+    return validateSnapshot(JSON.parse(json));
+  } catch (e) {
+    if (e instanceof SnapshotError) throw e;
+    throw new SnapshotError("This snapshot link is incomplete or damaged");
+  }
+};
+
+export const snapshotUrl = (payload: string) => `${window.location.origin}${routePath({ view: 'shared' })}#${payload}`;
+
+/** Builds a share link, or reports that the snapshot is too large for one. */
+export const createSnapshotLink = async (snapshot: IdeaSnapshot): Promise<{ url: string | null; payloadChars: number }> => {
+  const payload = await encodeSnapshot(snapshot);
+  return { url: payload.length <= MAX_LINK_PAYLOAD_CHARS ? snapshotUrl(payload) : null, payloadChars: payload.length };
+};
+
+// --- Standalone HTML ---
+
+const escapeHtml = (text: string | undefined) => (text || '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const paragraphs = (text: string | undefined) => escapeHtml(text).split(/\n{2,}/).map(p => `<p>${p.replace(/\n/g, '<br>')}</p>`).join('');
+
+const section = (title: string, body: string | undefined) => body?.trim() ? `<h2>${escapeHtml(title)}</h2>${paragraphs(body)}` : '';
+
+const trendSvg = (idea: BusinessIdea) => {
+  const points = idea.trendData || [];
+  if (points.length < 2) return '';
+  const max = Math.max(...points.map(p => p.value), 1);
+  const path = points.map((p, i) => `${(i / (points.length - 1) * 600).toFixed(1)},${(150 - p.value / max * 140).toFixed(1)}`).join(' ');
+  return `<svg viewBox="0 0 600 150" class="chart" role="img" aria-label="Search interest for ${escapeHtml(idea.trendKeyword)}"><polyline fill="none" stroke="#2563eb" stroke-width="2" points="${path}"/></svg>`;
+};
+
+/**
+ * A single HTML file that shows the snapshot without the app. The snapshot is
+ * embedded as JSON so it can be opened in the app again; when a link fits, the
+ * page links back to it.
+ */
+export const renderSnapshotHtml = (snapshot: IdeaSnapshot, link?: string | null): string => {
+  const idea = snapshot.idea;
+  const kpis = Object.entries(idea.kpi).map(([key, kpi]) =>
+    `<div class="kpi"><strong>${kpi.score}</strong><span>${escapeHtml(key.replace(/([A-Z])/g, ' $1'))}</span><em>${escapeHtml(kpi.label)}</em></div>`).join('');
+  const ladder = idea.sections.offer.map(step =>
+    `<tr><td>${escapeHtml(step.type)}</td><td><strong>${escapeHtml(step.title)}</strong><br>${escapeHtml(step.description)}</td><td>${escapeHtml(step.price)}</td></tr>`).join('');
+  const signals = Object.entries(idea.communitySignals || {}).filter(([, text]) => text).map(([key, text]) =>
+    `<li><strong>${escapeHtml(key)}:</strong> ${escapeHtml(text)}</li>`).join('');
+  const sources = (idea.sources || []).map(source =>
+    `<li><a href="${escapeHtml(source.uri)}" rel="noopener noreferrer">${escapeHtml(source.title || source.uri)}</a></li>`).join('');
+  const reports = (idea.savedReports || []).map(report =>
+    `<details><summary>${escapeHtml(report.title)}</summary><pre>${escapeHtml(report.content)}</pre></details>`).join('');
+  const data = JSON.stringify(snapshot).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(idea.title)} · IdeaBrowser snapshot</title>
+<style>
+body{font-family:Inter,system-ui,sans-serif;color:#1e293b;max-width:860px;margin:0 auto;padding:40px 20px;line-height:1.6}
+h1{font-family:Georgia,serif;font-size:2.4em;line-height:1.2;margin:.2em 0}h2{margin-top:2em;font-size:1.3em}
+.meta{color:#64748b;font-size:.85em}.tags span{display:inline-block;background:#f1f5f9;border-radius:4px;padding:2px 8px;margin:0 4px 4px 0;font-size:.8em}
+.kpis{display:grid;grid-template-columns:repeat(4,1fr);gap:12px;margin:24px 0}.kpi{border:1px solid #e2e8f0;border-radius:12px;padding:12px;text-align:center}
+.kpi strong{display:block;font-size:1.8em;color:#2563eb}.kpi span{display:block;text-transform:capitalize;font-size:.8em;font-weight:600}.kpi em{font-size:.75em;color:#64748b}
+.chart{width:100%;height:150px;border:1px solid #e2e8f0;border-radius:12px;padding:8px;box-sizing:border-box}
+table{width:100%;border-collapse:collapse}td{border-top:1px solid #e2e8f0;padding:10px;vertical-align:top;font-size:.9em}
+details{border:1px solid #e2e8f0;border-radius:8px;padding:8px 12px;margin:8px 0}summary{cursor:pointer;font-weight:600}pre{white-space:pre-wrap;font-family:inherit;font-size:.9em}
+.banner{background:#eff6ff;border:1px solid #bfdbfe;color:#1d4ed8;border-radius:8px;padding:8px 12px;font-size:.85em}
+</style>
+</head>
+<body>
+<div class="banner">Read-only snapshot shared from IdeaBrowser on ${escapeHtml(new Date(snapshot.createdAt).toLocaleDateString())}${link ? ` · <a href="${escapeHtml(link)}">Open in IdeaBrowser</a>` : ''}</div>
+<h1>${escapeHtml(idea.title)}</h1>
+<div class="meta">${escapeHtml(idea.date)} · ${escapeHtml(idea.priceRange)}</div>
+<div class="tags">${(idea.tags || []).map(tag => `<span>${escapeHtml(tag)}</span>`).join('')}</div>
+${paragraphs(idea.description)}
+<div class="kpis">${kpis}</div>
+<h2>Search interest: ${escapeHtml(idea.trendKeyword)}</h2>
+<div class="meta">${escapeHtml(idea.trendVolume)} ${escapeHtml(idea.trendGrowth)}</div>
+${trendSvg(idea)}
+${ladder ? `<h2>Value Ladder</h2><table>${ladder}</table>` : ''}
+${section('Why Now', idea.sections.whyNow)}
+${section('Proof & Signals', idea.sections.proofAndSignals)}
+${section('Market Gap', idea.sections.marketGap)}
+${section('Execution Plan', idea.sections.executionPlan)}
+${section('Founder Fit', idea.businessFit?.founderFitDescription)}
+${signals ? `<h2>Community Signals</h2><ul>${signals}</ul>` : ''}
+${sources ? `<h2>Sources</h2><ul>${sources}</ul>` : ''}
+${reports ? `<h2>Saved Reports</h2>${reports}` : ''}
+<script type="application/json" id="ideabrowser-snapshot">${data}</script>
+</body>
+</html>
+`;
+};
+
+/** Reads the snapshot embedded in a file made by renderSnapshotHtml. */
+export const parseSnapshotHtml = (html: string): IdeaSnapshot => {
+  if (html.length > MAX_SNAPSHOT_BYTES * 2) throw new SnapshotError("This snapshot is too large to open");
+  const match = html.match(/<script type="application\/json" id="ideabrowser-snapshot">([\s\S]*?)<\/script>/);
+  if (!match) throw new SnapshotError("This file isn't an IdeaBrowser snapshot");
+  try {
+    return validateSnapshot(JSON.parse(match[1]));
+  } catch (e) {
+    if (e instanceof SnapshotError) throw e;
+    throw new SnapshotError("This snapshot file is damaged");
+  }
+};
@@ -0,0 +1,372 @@
+import { BusinessIdea, ChatThread, WhiteboardBoard } from '../types';
+import { openDatabase, requestToPromise, withStore } from './idb';
+import { IDEA_SCHEMA_VERSION, LEGACY_IDEA_VERSION, migrateIdea } from './ideaMigrations';
+
+// Persistent storage for the workspace: saved ideas, history, saved reports,
+// idea chats and whiteboards, all in one IndexedDB database. Every write is
+// checked, and failures (usually a full quota) are surfaced through the storage
+// status instead of being dropped.
+
+type SavedReport = NonNullable<BusinessIdea['savedReports']>[number];
+
+interface IdeaRecord {
+  id: string;
+  schemaVersion: number;
+  idea: BusinessIdea; // Stored without savedReports, which live in the reports store
+  savedPosition: number | null; // Index in My Ideas, null when not saved
+  historyPosition: number | null; // Index in history, null when not in history
+}
+
+interface ReportRecord extends SavedReport {
+  id: string;
+  ideaId: string;
+  position: number;
+}
+
+export interface Workspace {
+  savedIdeas: BusinessIdea[];
+  history: BusinessIdea[];
+  isNew: boolean; // Nothing was stored yet, not even in the legacy localStorage keys
+}
+
+export interface StorageStatus {
+  error: string | null;
+  usage: number | null;
+  quota: number | null;
+  nearQuota: boolean;
+}
+
+const DB_NAME = 'ideabrowser';
+const DB_VERSION = 1;
+const IDEAS = 'ideas';
+const REPORTS = 'reports';
+const CHATS = 'chats';
+const BOARDS = 'boards';
+const META = 'meta';
+
+const LEGACY_SAVED_KEY = 'savedIdeas';
+const LEGACY_HISTORY_KEY = 'ideaHistory';
+const LEGACY_IMPORT_KEY = 'legacyImportedAt';
+
+// Warn once the origin has used this share of its quota
+const QUOTA_WARNING_RATIO = 0.8;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, DB_VERSION, (db, oldVersion) => {
+      if (oldVersion < 1) {
+        db.createObjectStore(IDEAS, { keyPath: 'id' });
+        db.createObjectStore(REPORTS, { keyPath: 'id' }).createIndex('ideaId', 'ideaId');
+        db.createObjectStore(CHATS, { keyPath: 'id' }).createIndex('ideaId', 'ideaId');
+        db.createObjectStore(BOARDS, { keyPath: 'id' });
+        db.createObjectStore(META, { keyPath: 'key' });
+      }
+    }).catch(e => {
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+// --- Status & quota ---
+
+let status: StorageStatus = { error: null, usage: null, quota: null, nearQuota: false };
+const listeners = new Set<(status: StorageStatus) => void>();
+
+const setStatus = (update: Partial<StorageStatus>) => {
+  status = { ...status, ...update };
+  listeners.forEach(listener => listener(status));
+};
+
+export const getStorageStatus = (): StorageStatus => status;
+
+export const subscribeToStorageStatus = (listener: (status: StorageStatus) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const dismissStorageError = () => setStatus({ error: null });
+
+// Lets the sync service see each successful local write
+export type LocalWrite =
+  | { kind: 'ideas'; savedIdeas: BusinessIdea[]; history: BusinessIdea[] }
+  | { kind: 'board'; board: WhiteboardBoard };
+
+const writeListeners = new Set<(write: LocalWrite) => void>();
+
+export const subscribeToLocalWrites = (listener: (write: LocalWrite) => void) => {
+  writeListeners.add(listener);
+  return () => { writeListeners.delete(listener); };
+};
+
+const notifyWrite = (write: LocalWrite) => writeListeners.forEach(listener => listener(write));
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const reportFailure = (action: string, e: unknown) => {
+  console.error(`Storage failed to ${action}`, e);
+  setStatus({
+    error: isQuotaError(e)
+      ? "Browser storage is full, so your latest changes were not saved. Clear history or delete old reports to free up space."
+      : `Your changes could not be saved (${e instanceof Error ? e.message : 'unknown error'}).`,
+  });
+};
+
+export const checkStorageQuota = async (): Promise<StorageStatus> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return status;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    setStatus({ usage, quota, nearQuota: quota > 0 && usage / quota >= QUOTA_WARNING_RATIO });
+  } catch (e) {
+    console.error("Failed to estimate storage usage", e);
+  }
+  return status;
+};
+
+// Runs a write and reports (rather than throws) failures, then refreshes the quota estimate
+const guardedWrite = async (action: string, write: () => Promise<void>): Promise<boolean> => {
+  try {
+    await write();
+    if (status.error) setStatus({ error: null });
+    return true;
+  } catch (e) {
+    reportFailure(action, e);
+    return false;
+  } finally {
+    checkStorageQuota();
+  }
+};
+
+// --- Ideas, history & reports ---
+
+const stripReports = (idea: BusinessIdea): BusinessIdea => {
+  const { savedReports, ...rest } = idea;
+  return rest as BusinessIdea;
+};
+
+// An idea can be both saved and in history. It is stored once; the saved copy
+// wins because that is the one edits are applied to.
+const toRecords = (savedIdeas: BusinessIdea[], history: BusinessIdea[]) => {
+  const ideas = new Map<string, IdeaRecord>();
+  const reports = new Map<string, SavedReport[] | undefined>();
+  history.forEach((idea, index) => {
+    if (ideas.has(idea.id)) return;
+    ideas.set(idea.id, { id: idea.id, schemaVersion: IDEA_SCHEMA_VERSION, idea: stripReports(idea), savedPosition: null, historyPosition: index });
+    reports.set(idea.id, idea.savedReports);
+  });
+  savedIdeas.forEach((idea, index) => {
+    const existing = ideas.get(idea.id);
+    ideas.set(idea.id, {
+      id: idea.id,
+      schemaVersion: IDEA_SCHEMA_VERSION,
+      idea: stripReports(idea),
+      savedPosition: index,
+      historyPosition: existing ? existing.historyPosition : null,
+    });
+    reports.set(idea.id, idea.savedReports);
+  });
+  const reportRecords: ReportRecord[] = [];
+  reports.forEach((list, ideaId) => {
+    (list || []).forEach((report, position) => reportRecords.push({ ...report, id: `${ideaId}:${position}`, ideaId, position }));
+  });
+  return { ideas: Array.from(ideas.values()), reports: reportRecords };
+};
+
+// Puts what changed and deletes what is gone, so large unchanged histories aren't rewritten
+const syncStore = async <T extends { id: string }>(store: IDBObjectStore, records: T[]) => {
+  const existing = await requestToPromise<T[]>(store.getAll());
+  const previous = new Map(existing.map(record => [record.id, JSON.stringify(record)]));
+  const next = new Set(records.map(record => record.id));
+  records.forEach(record => {
+    if (previous.get(record.id) !== JSON.stringify(record)) store.put(record);
+  });
+  existing.forEach(record => {
+    if (!next.has(record.id)) store.delete(record.id);
+  });
+};
+
+const writeIdeas = async (db: IDBDatabase, savedIdeas: BusinessIdea[], history: BusinessIdea[]) => {
+  const { ideas, reports } = toRecords(savedIdeas, history);
+  await withStore(db, [IDEAS, REPORTS], 'readwrite', async (tx) => {
+    await syncStore(tx.objectStore(IDEAS), ideas);
+    await syncStore(tx.objectStore(REPORTS), reports);
+  });
+};
+
+// Writes are coalesced: while one is running only the latest pending state is kept
+let pendingIdeas: { savedIdeas: BusinessIdea[]; history: BusinessIdea[] } | null = null;
+let ideaWrite: Promise<void> | null = null;
+
+const flushIdeas = async () => {
+  while (pendingIdeas) {
+    const { savedIdeas, history } = pendingIdeas;
+    pendingIdeas = null;
+    if (await guardedWrite('save your ideas', async () => writeIdeas(await getDb(), savedIdeas, history))) {
+      notifyWrite({ kind: 'ideas', savedIdeas, history });
+    }
+  }
+  ideaWrite = null;
+};
+
+export const saveIdeaCollections = (savedIdeas: BusinessIdea[], history: BusinessIdea[]): Promise<void> => {
+  pendingIdeas = { savedIdeas, history };
+  if (!ideaWrite) ideaWrite = flushIdeas();
+  return ideaWrite;
+};
+
+const readLegacyList = (key: string): BusinessIdea[] | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse ${key} from localStorage`, e);
+  }
+  return null;
+};
+
+// Moves ideas persisted by older builds into IndexedDB once, then frees the
+// localStorage space. If the import fails the keys are left for the next load.
+const importLegacyStorage = async (db: IDBDatabase): Promise<{ firstLoad: boolean; imported: boolean }> => {
+  const meta = await withStore(db, META, 'readonly', (tx) => requestToPromise(tx.objectStore(META).get(LEGACY_IMPORT_KEY)));
+  if (meta) return { firstLoad: false, imported: false };
+
+  const savedIdeas = readLegacyList(LEGACY_SAVED_KEY);
+  const history = readLegacyList(LEGACY_HISTORY_KEY);
+  const migrate = (list: BusinessIdea[] | null) => (list || []).map(idea => migrateIdea(idea, LEGACY_IDEA_VERSION));
+  if (savedIdeas || history) {
+    await writeIdeas(db, migrate(savedIdeas), migrate(history));
+  }
+  await withStore(db, META, 'readwrite', (tx) => {
+    tx.objectStore(META).put({ key: LEGACY_IMPORT_KEY, value: new Date().toISOString() });
+  });
+  localStorage.removeItem(LEGACY_SAVED_KEY);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return { firstLoad: true, imported: !!(savedIdeas || history) };
+};
+
+/** Loads saved ideas and history, importing legacy localStorage data and migrating old records first. */
+export const loadWorkspace = async (): Promise<Workspace> => {
+  try {
+    const db = await getDb();
+    const { firstLoad, imported } = await importLegacyStorage(db);
+    if (imported) console.info("Imported saved ideas and history from localStorage");
+
+    const { records, reports } = await withStore(db, [IDEAS, REPORTS], 'readwrite', async (tx) => {
+      const ideaStore = tx.objectStore(IDEAS);
+      const stored = await requestToPromise<IdeaRecord[]>(ideaStore.getAll());
+      const migrated = stored.map(record => {
+        if (record.schemaVersion === IDEA_SCHEMA_VERSION) return record;
+        const upgraded = { ...record, schemaVersion: Math.max(record.schemaVersion, IDEA_SCHEMA_VERSION), idea: migrateIdea(record.idea, record.schemaVersion) };
+        ideaStore.put(upgraded);
+        return upgraded;
+      });
+      return { records: migrated, reports: await requestToPromise<ReportRecord[]>(tx.objectStore(REPORTS).getAll()) };
+    });
+
+    const reportsByIdea = new Map<string, ReportRecord[]>();
+    reports.sort((a, b) => a.position - b.position).forEach(report => {
+      reportsByIdea.set(report.ideaId, [...(reportsByIdea.get(report.ideaId) || []), report]);
+    });
+    const withReports = (record: IdeaRecord): BusinessIdea => {
+      const list = reportsByIdea.get(record.id);
+      if (!list) return record.idea;
+      return { ...record.idea, savedReports: list.map(({ id, ideaId, position, ...report }) => report) };
+    };
+    const ordered = (position: (record: IdeaRecord) => number | null) => records
+      .filter(record => position(record) !== null)
+      .sort((a, b) => (position(a) as number) - (position(b) as number))
+      .map(withReports);
+
+    checkStorageQuota();
+    if (typeof navigator !== 'undefined' && navigator.storage?.persist) {
+      // Ask the browser not to evict the workspace under storage pressure
+      navigator.storage.persist().catch(() => undefined);
+    }
+
+    return {
+      savedIdeas: ordered(record => record.savedPosition),
+      history: ordered(record => record.historyPosition),
+      isNew: firstLoad && !imported && records.length === 0,
+    };
+  } catch (e) {
+    reportFailure('load your workspace', e);
+    // Keep the app usable from whatever the legacy keys still hold
+    const savedIdeas = readLegacyList(LEGACY_SAVED_KEY);
+    const history = readLegacyList(LEGACY_HISTORY_KEY);
+    return {
+      savedIdeas: (savedIdeas || []).map(idea => migrateIdea(idea, LEGACY_IDEA_VERSION)),
+      history: (history || []).map(idea => migrateIdea(idea, LEGACY_IDEA_VERSION)),
+      isNew: !savedIdeas && !history,
+    };
+  }
+};
+
+// --- Chats ---
+
+export const getChatThreads = async (ideaId: string): Promise<ChatThread[]> => {
+  try {
+    const db = await getDb();
+    const threads = await withStore(db, CHATS, 'readonly', (tx) =>
+      requestToPromise<ChatThread[]>(tx.objectStore(CHATS).index('ideaId').getAll(ideaId))
+    );
+    return threads.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (e) {
+    console.error("Failed to load chat threads", e);
+    return [];
+  }
+};
+
+export const getAllChatThreads = async (): Promise<ChatThread[]> => {
+  try {
+    const db = await getDb();
+    return await withStore(db, CHATS, 'readonly', (tx) => requestToPromise<ChatThread[]>(tx.objectStore(CHATS).getAll()));
+  } catch (e) {
+    console.error("Failed to load chat threads", e);
+    return [];
+  }
+};
+
+export const saveChatThread = (thread: ChatThread): Promise<boolean> =>
+  guardedWrite('save the chat', async () => {
+    await withStore(await getDb(), CHATS, 'readwrite', (tx) => { tx.objectStore(CHATS).put(thread); });
+  });
+
+export const deleteChatThread = (id: string): Promise<boolean> =>
+  guardedWrite('delete the chat', async () => {
+    await withStore(await getDb(), CHATS, 'readwrite', (tx) => { tx.objectStore(CHATS).delete(id); });
+  });
+
+// --- Boards ---
+
+export const loadBoard = async (id: string): Promise<WhiteboardBoard | null> => {
+  try {
+    const db = await getDb();
+    const board = await withStore(db, BOARDS, 'readonly', (tx) => requestToPromise<WhiteboardBoard | undefined>(tx.objectStore(BOARDS).get(id)));
+    return board || null;
+  } catch (e) {
+    console.error("Failed to load board", e);
+    return null;
+  }
+};
+
+export const getAllBoards = async (): Promise<WhiteboardBoard[]> => {
+  try {
+    const db = await getDb();
+    return await withStore(db, BOARDS, 'readonly', (tx) => requestToPromise<WhiteboardBoard[]>(tx.objectStore(BOARDS).getAll()));
+  } catch (e) {
+    console.error("Failed to load boards", e);
+    return [];
+  }
+};
+
+export const saveBoard = async (board: WhiteboardBoard): Promise<boolean> => {
+  const saved = await guardedWrite('save the board', async () => {
+    await withStore(await getDb(), BOARDS, 'readwrite', (tx) => { tx.objectStore(BOARDS).put(board); });
+  });
+  if (saved) notifyWrite({ kind: 'board', board });
+  return saved;
+};
@@ -0,0 +1,61 @@
+import 'fake-indexeddb/auto';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BusinessIdea } from '../types';
+import { MOCK_IDEA_RESPONSE } from './mockFixtures';
+
+const store: Record<string, string> = {};
+(globalThis as any).localStorage = {
+  getItem: (key: string) => store[key] ?? null,
+  setItem: (key: string, value: string) => { store[key] = value; },
+  removeItem: (key: string) => { delete store[key]; },
+};
+(globalThis as any).window = { setTimeout, clearTimeout, setInterval, clearInterval, addEventListener: () => {}, removeEventListener: () => {} };
+
+const idea = (id: string, title: string): BusinessIdea => ({ ...MOCK_IDEA_RESPONSE, id, title, date: 'Today', priceRange: '$' });
+
+const REMOTE_TIME = '2026-01-01T00:00:00.000Z';
+
+test('ideas created or edited while a sync is in flight survive it', async () => {
+  // Another machine added R and edited A before this one synced
+  const remote = [
+    { collection: 'history', id: 'R', rev: 1, updatedAt: REMOTE_TIME, deleted: false, data: { idea: idea('R', 'Remote idea') } },
+    { collection: 'history', id: 'A', rev: 2, updatedAt: REMOTE_TIME, deleted: false, data: { idea: idea('A', 'A from elsewhere') } },
+    { collection: 'order', id: 'history', rev: 3, updatedAt: REMOTE_TIME, deleted: false, data: ['R', 'A'] },
+  ];
+  let revision = remote.length;
+  let pullStarted = () => {};
+  const pulling = new Promise<void>(resolve => { pullStarted = resolve; });
+  let finishPull = () => {};
+  const pullFinished = new Promise<void>(resolve => { finishPull = resolve; });
+  globalThis.fetch = (async (url: string, init: RequestInit) => {
+    const respond = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+    if (init.method === 'GET') {
+      pullStarted();
+      await pullFinished;
+      const since = Number(new URL(url).searchParams.get('since'));
+      return respond({ revision: 3, changes: remote.filter(doc => doc.rev > since) });
+    }
+    return respond({ rev: ++revision });
+  }) as typeof fetch;
+
+  const { saveIdeaCollections } = await import('./storageRepository');
+  const { startSync, subscribeToRemoteWorkspace, syncNow, updateSyncSettings } = await import('./syncService');
+  const stopSync = startSync();
+  const received: BusinessIdea[][] = [];
+  subscribeToRemoteWorkspace(workspace => received.push(workspace.history));
+
+  await saveIdeaCollections([], [idea('A', 'A')]);
+  updateSyncSettings({ enabled: true, serverUrl: 'http://sync.test' });
+  await pulling;
+
+  // The user keeps working while the server has not answered yet
+  await saveIdeaCollections([], [idea('B', 'Created during sync'), idea('A', 'A edited during sync')]);
+  finishPull();
+  await syncNow();
+  stopSync();
+
+  const history = received[received.length - 1];
+  assert.deepEqual(history.map(item => item.id), ['B', 'A', 'R']);
+  assert.equal(history.find(item => item.id === 'A')?.title, 'A edited during sync');
+});
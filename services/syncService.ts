@@ -0,0 +1,398 @@
+import { BusinessIdea, WhiteboardBoard } from '../types';
+import { hashValue } from './responseCache';
+import { getAllBoards, saveBoard, subscribeToLocalWrites } from './storageRepository';
+
+// Optional background sync with the self-hosted server in server/index.ts.
+// The local repository stays the source of truth: edits are written locally
+// first and pushed afterwards, remote changes are pulled on an interval, and
+// nothing breaks while the server is unreachable. Conflicts (the same document
+// edited on two machines) resolve to the most recently edited copy.
+
+export type SyncCollection = 'ideas' | 'history' | 'reports' | 'boards' | 'order';
+
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string;
+  token: string;
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  lastSyncedAt: string | null;
+  pending: number; // Local changes not yet on the server
+  error: string | null;
+}
+
+interface SyncDocument {
+  collection: SyncCollection;
+  id: string;
+  data: any;
+  updatedAt: string;
+}
+
+interface RemoteDocument extends SyncDocument {
+  rev: number;
+  deleted: boolean;
+}
+
+// What the server had when we last agreed with it, per document
+interface SyncBase {
+  rev: number;
+  hash: string;
+  deleted?: boolean;
+}
+
+interface SyncCursor {
+  revision: number;
+  docs: Record<string, SyncBase>;
+}
+
+const SETTINGS_KEY = 'syncSettings';
+const CURSOR_KEY = 'syncCursor';
+const PULL_INTERVAL_MS = 30_000;
+// Rapid edits (typing, dragging) are pushed together
+const PUSH_DELAY_MS = 2_000;
+const REQUEST_TIMEOUT_MS = 15_000;
+
+const DEFAULT_SETTINGS: SyncSettings = { enabled: false, serverUrl: 'http://localhost:8787', token: '' };
+
+class SyncConflictError extends Error {
+  current: RemoteDocument;
+
+  constructor(current: RemoteDocument) {
+    super('Document changed on the server');
+    this.name = 'SyncConflictError';
+    this.current = current;
+  }
+}
+
+const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    if (saved) return { ...fallback, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error(`Failed to read ${key}`, e);
+  }
+  return fallback;
+};
+
+let settings: SyncSettings = loadJson(SETTINGS_KEY, DEFAULT_SETTINGS);
+let cursor: SyncCursor = loadJson<SyncCursor>(CURSOR_KEY, { revision: 0, docs: {} });
+let status: SyncStatus = { state: settings.enabled ? 'idle' : 'disabled', lastSyncedAt: null, pending: 0, error: null };
+
+const statusListeners = new Set<(status: SyncStatus) => void>();
+const remoteListeners = new Set<(workspace: { savedIdeas: BusinessIdea[]; history: BusinessIdea[] }) => void>();
+
+const setStatus = (update: Partial<SyncStatus>) => {
+  status = { ...status, ...update };
+  statusListeners.forEach(listener => listener(status));
+};
+
+const saveCursor = () => {
+  try {
+    localStorage.setItem(CURSOR_KEY, JSON.stringify(cursor));
+  } catch (e) {
+    console.error("Failed to persist sync cursor", e);
+  }
+};
+
+export const getSyncSettings = (): SyncSettings => settings;
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void) => {
+  statusListeners.add(listener);
+  return () => { statusListeners.delete(listener); };
+};
+
+/** Called with the full idea lists whenever pulled changes touch ideas, history or reports. */
+export const subscribeToRemoteWorkspace = (listener: (workspace: { savedIdeas: BusinessIdea[]; history: BusinessIdea[] }) => void) => {
+  remoteListeners.add(listener);
+  return () => { remoteListeners.delete(listener); };
+};
+
+// --- Local documents ---
+
+// The latest local state, as last written to the repository
+let localIdeas: { savedIdeas: BusinessIdea[]; history: BusinessIdea[] } | null = null;
+let localBoards = new Map<string, WhiteboardBoard>();
+
+const docKey = (collection: SyncCollection, id: string) => `${collection}/${id}`;
+
+const ideaTime = (idea: BusinessIdea) => idea.updatedAt || new Date(Date.parse(idea.date) || 0).toISOString();
+
+const withoutReports = (idea: BusinessIdea) => {
+  const { savedReports, ...rest } = idea;
+  return rest;
+};
+
+const latestTime = (ideas: BusinessIdea[]) =>
+  ideas.reduce((latest, idea) => ideaTime(idea) > latest ? ideaTime(idea) : latest, new Date(0).toISOString());
+
+// Reports are taken from the saved copy of an idea when there is one, as the repository does.
+// Each list's order is its own document, so adding an idea pushes that idea and one order
+// document rather than every idea whose position shifted.
+const toDocuments = (): Map<string, SyncDocument> => {
+  const docs = new Map<string, SyncDocument>();
+  const add = (doc: SyncDocument) => docs.set(docKey(doc.collection, doc.id), doc);
+  if (localIdeas) {
+    const reportSource = new Map<string, BusinessIdea>();
+    const addList = (collection: 'ideas' | 'history', ideas: BusinessIdea[]) => {
+      ideas.forEach(idea => {
+        add({ collection, id: idea.id, data: { idea: withoutReports(idea) }, updatedAt: ideaTime(idea) });
+        reportSource.set(idea.id, idea);
+      });
+      add({ collection: 'order', id: collection, data: ideas.map(idea => idea.id), updatedAt: latestTime(ideas) });
+    };
+    addList('history', localIdeas.history);
+    addList('ideas', localIdeas.savedIdeas);
+    reportSource.forEach(idea => (idea.savedReports || []).forEach((report, position) => {
+      add({ collection: 'reports', id: `${idea.id}:${position}`, data: { ...report, ideaId: idea.id }, updatedAt: ideaTime(idea) });
+    }));
+  }
+  localBoards.forEach(board => add({ collection: 'boards', id: board.id, data: board, updatedAt: board.updatedAt }));
+  return docs;
+};
+
+const fromDocuments = (docs: Map<string, SyncDocument>) => {
+  const of = (collection: SyncCollection) => Array.from(docs.values()).filter(doc => doc.collection === collection);
+  const reports = new Map<string, any[]>();
+  // Report ids end with the report's position in its idea
+  const reportPosition = (doc: SyncDocument) => Number(doc.id.slice(doc.id.lastIndexOf(':') + 1));
+  of('reports').sort((a, b) => reportPosition(a) - reportPosition(b)).forEach(doc => {
+    const { ideaId, position, ...report } = doc.data;
+    reports.set(ideaId, [...(reports.get(ideaId) || []), report]);
+  });
+  // Ideas missing from the order document (it may not have arrived yet) go last
+  const ideas = (collection: 'ideas' | 'history'): BusinessIdea[] => {
+    const order: string[] = docs.get(docKey('order', collection))?.data || [];
+    const positions = new Map(order.map((id, position) => [id, position]));
+    const rank = (id: string) => positions.get(id) ?? order.length;
+    return of(collection)
+      .sort((a, b) => rank(a.id) - rank(b.id))
+      .map(doc => reports.has(doc.id) ? { ...doc.data.idea, savedReports: reports.get(doc.id) } : doc.data.idea);
+  };
+  return { savedIdeas: ideas('ideas'), history: ideas('history') };
+};
+
+// --- Server calls ---
+
+const request = async (method: string, path: string, body?: unknown) => {
+  let response: Response;
+  try {
+    response = await fetch(`${settings.serverUrl.replace(/\/+$/, '')}/api${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (e) {
+    // Network failures and timeouts mean offline, not broken
+    throw Object.assign(new Error("Sync server is unreachable"), { offline: true });
+  }
+  const payload = await response.json().catch(() => ({}));
+  if (response.status === 409) throw new SyncConflictError(payload.current);
+  if (response.status === 401) throw new Error("The sync server rejected the access token");
+  if (!response.ok) throw new Error(payload.error || `Sync server responded with ${response.status}`);
+  return payload;
+};
+
+const pushDocument = (doc: SyncDocument, baseRev: number): Promise<{ rev: number }> =>
+  request('PUT', `/${doc.collection}/${encodeURIComponent(doc.id)}`, { data: doc.data, updatedAt: doc.updatedAt, baseRev });
+
+const deleteDocument = (collection: SyncCollection, id: string, baseRev: number): Promise<{ rev: number }> =>
+  request('DELETE', `/${collection}/${encodeURIComponent(id)}?baseRev=${baseRev}&updatedAt=${encodeURIComponent(new Date().toISOString())}`);
+
+// --- Reconciliation ---
+
+const timeOf = (value?: string) => Date.parse(value || '') || 0;
+
+const runSync = async () => {
+  const docs = toDocuments();
+  const snapshot = new Map(docs);
+  const hashes = new Map<string, string>();
+  const hashOf = async (key: string, doc: SyncDocument) => {
+    if (!hashes.has(key)) hashes.set(key, await hashValue(doc.data));
+    return hashes.get(key) as string;
+  };
+  // Documents the server changed during this cycle
+  const applied = new Set<string>();
+
+  const applyRemote = async (remote: RemoteDocument) => {
+    const key = docKey(remote.collection, remote.id);
+    applied.add(key);
+    if (remote.deleted) {
+      docs.delete(key);
+      cursor.docs[key] = { rev: remote.rev, hash: '', deleted: true };
+    } else {
+      const doc = { collection: remote.collection, id: remote.id, data: remote.data, updatedAt: remote.updatedAt };
+      docs.set(key, doc);
+      hashes.delete(key);
+      cursor.docs[key] = { rev: remote.rev, hash: await hashOf(key, doc) };
+    }
+  };
+
+  // Pull everything since the last revision we saw
+  const pulled: { revision: number; changes: RemoteDocument[] } = await request('GET', `/sync?since=${cursor.revision}`);
+  for (const remote of pulled.changes) {
+    const key = docKey(remote.collection, remote.id);
+    const base = cursor.docs[key];
+    if (base && base.rev >= remote.rev) continue; // Our own write coming back
+    const local = docs.get(key);
+    const localDirty = local ? !base || base.deleted || (await hashOf(key, local)) !== base.hash : !!base && !base.deleted;
+    if (!localDirty || timeOf(remote.updatedAt) >= timeOf(local?.updatedAt)) {
+      await applyRemote(remote);
+    } else {
+      // The local edit is newer; rebase it so the push below overwrites the server copy
+      cursor.docs[key] = { ...(base || { hash: '' }), rev: remote.rev, deleted: remote.deleted };
+    }
+  }
+  cursor.revision = pulled.revision;
+
+  // Push local changes, resolving conflicts by edit time
+  for (const [key, doc] of docs) {
+    const base = cursor.docs[key];
+    const hash = await hashOf(key, doc);
+    if (base && !base.deleted && base.hash === hash) continue;
+    try {
+      const { rev } = await pushDocument(doc, base?.rev || 0);
+      cursor.docs[key] = { rev, hash };
+    } catch (e) {
+      if (!(e instanceof SyncConflictError)) throw e;
+      if (timeOf(e.current.updatedAt) > timeOf(doc.updatedAt)) {
+        await applyRemote(e.current);
+      } else {
+        const { rev } = await pushDocument(doc, e.current.rev);
+        cursor.docs[key] = { rev, hash };
+      }
+    }
+  }
+  for (const [key, base] of Object.entries(cursor.docs)) {
+    if (base.deleted || docs.has(key)) continue;
+    const [collection, ...rest] = key.split('/');
+    try {
+      const { rev } = await deleteDocument(collection as SyncCollection, rest.join('/'), base.rev);
+      cursor.docs[key] = { rev, hash: '', deleted: true };
+    } catch (e) {
+      if (!(e instanceof SyncConflictError)) throw e;
+      // Edited elsewhere after we last saw it; the edit wins over our deletion
+      await applyRemote(e.current);
+    }
+  }
+  saveCursor();
+
+  // The server's changes go onto the local state as it is now, not as it was when
+  // the cycle started. A document edited locally in the meantime keeps the local
+  // edit, which differs from the cursor and is pushed on the next cycle.
+  const current = toDocuments();
+  const editedDuringSync = (key: string) => JSON.stringify(current.get(key)?.data) !== JSON.stringify(snapshot.get(key)?.data);
+  const changedBoards: WhiteboardBoard[] = [];
+  let workspaceChanged = false;
+  applied.forEach(key => {
+    if (editedDuringSync(key)) return;
+    const doc = docs.get(key);
+    if (doc) current.set(key, doc);
+    else current.delete(key);
+    if (!key.startsWith('boards/')) workspaceChanged = true;
+    else if (doc) changedBoards.push(doc.data);
+  });
+  if (workspaceChanged) {
+    localIdeas = fromDocuments(current);
+    remoteListeners.forEach(listener => listener(localIdeas as { savedIdeas: BusinessIdea[]; history: BusinessIdea[] }));
+  }
+  for (const board of changedBoards) {
+    localBoards.set(board.id, board);
+    await saveBoard(board);
+  }
+};
+
+const countPending = async (): Promise<number> => {
+  const docs = toDocuments();
+  let pending = Object.entries(cursor.docs).filter(([key, base]) => !base.deleted && !docs.has(key)).length;
+  for (const [key, doc] of docs) {
+    const base = cursor.docs[key];
+    if (!base || base.deleted || base.hash !== await hashValue(doc.data)) pending++;
+  }
+  return pending;
+};
+
+let running: Promise<void> | null = null;
+let rerun = false;
+
+/** Runs one pull/push cycle. Calls made while a cycle is running queue one more cycle. */
+export const syncNow = async (): Promise<void> => {
+  if (!settings.enabled || !localIdeas) return;
+  if (running) {
+    rerun = true;
+    return running;
+  }
+  running = (async () => {
+    do {
+      rerun = false;
+      setStatus({ state: 'syncing' });
+      try {
+        await runSync();
+        setStatus({ state: 'idle', lastSyncedAt: new Date().toISOString(), error: null });
+      } catch (e: any) {
+        if (!e?.offline) console.error("Sync failed", e);
+        setStatus({ state: e?.offline ? 'offline' : 'error', error: e instanceof Error ? e.message : String(e) });
+        rerun = false;
+      }
+      setStatus({ pending: await countPending() });
+    } while (rerun);
+    running = null;
+  })();
+  return running;
+};
+
+let pushTimer: number | null = null;
+
+const schedulePush = () => {
+  if (!settings.enabled) {
+    countPending().then(pending => setStatus({ pending }));
+    return;
+  }
+  if (pushTimer) window.clearTimeout(pushTimer);
+  pushTimer = window.setTimeout(() => {
+    pushTimer = null;
+    syncNow();
+  }, PUSH_DELAY_MS);
+};
+
+export const updateSyncSettings = (update: Partial<SyncSettings>) => {
+  const serverChanged = update.serverUrl !== undefined && update.serverUrl !== settings.serverUrl;
+  settings = { ...settings, ...update };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  if (serverChanged) {
+    // A different server knows nothing of our revisions; start over and push everything
+    cursor = { revision: 0, docs: {} };
+    saveCursor();
+  }
+  setStatus({ state: settings.enabled ? 'idle' : 'disabled', error: null });
+  if (settings.enabled) syncNow();
+};
+
+/** Starts background sync. Returns a function that stops it. */
+export const startSync = () => {
+  getAllBoards().then(boards => {
+    boards.forEach(board => { if (!localBoards.has(board.id)) localBoards.set(board.id, board); });
+  });
+  const unsubscribe = subscribeToLocalWrites(write => {
+    if (write.kind === 'ideas') localIdeas = { savedIdeas: write.savedIdeas, history: write.history };
+    else localBoards.set(write.board.id, write.board);
+    schedulePush();
+  });
+  const interval = window.setInterval(syncNow, PULL_INTERVAL_MS);
+  window.addEventListener('online', syncNow);
+  return () => {
+    unsubscribe();
+    window.clearInterval(interval);
+    window.removeEventListener('online', syncNow);
+    if (pushTimer) window.clearTimeout(pushTimer);
+  };
+};
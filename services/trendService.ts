@@ -1,63 +1,47 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
 import { MarketTrend } from "../types";
+import { getAIProvider, getActiveProviderId, isAbortError } from "./aiProvider";
+import { PROMPTS, renderPrompt } from "./promptRegistry";
 
-const initGenAI = () => {
-    if (typeof process !== 'undefined' && process.env && process.env.API_KEY) {
-        return new GoogleGenAI({ apiKey: process.env.API_KEY });
+const CACHE_KEY = "daily_business_trends_cache";
+
+// Keep mock fixtures from overwriting the live trend cache
+const getCacheKey = () => getActiveProviderId() === 'gemini' ? CACHE_KEY : `${CACHE_KEY}_${getActiveProviderId()}`;
+
+export interface TrendCacheEntry {
+    date: string; // Date.toDateString() of the day the trends were fetched
+    trends: MarketTrend[];
+}
+
+export const getTrendCache = (): TrendCacheEntry | null => {
+    try {
+        const cached = localStorage.getItem(getCacheKey());
+        if (cached) return JSON.parse(cached);
+    } catch (e) {
+        console.error("Cache parsing error", e);
     }
     return null;
 };
-  
-const CACHE_KEY = "daily_business_trends_cache";
 
-export const getDailyTrends = async (forceRefresh = false): Promise<MarketTrend[]> => {
+export const setTrendCache = (entry: TrendCacheEntry) => {
+    localStorage.setItem(getCacheKey(), JSON.stringify(entry));
+};
+
+export const getDailyTrends = async (forceRefresh = false, signal?: AbortSignal): Promise<MarketTrend[]> => {
     if (!forceRefresh) {
-        const cached = localStorage.getItem(CACHE_KEY);
-        if (cached) {
-            try {
-                const parsed = JSON.parse(cached);
-                const today = new Date().toDateString();
-                if (parsed.date === today && parsed.trends?.length > 0) {
-                    return parsed.trends;
-                }
-            } catch (e) {
-                console.error("Cache parsing error", e);
-            }
+        const cached = getTrendCache();
+        if (cached && cached.date === new Date().toDateString() && cached.trends?.length > 0) {
+            return cached.trends;
         }
     }
 
-    const ai = initGenAI();
-    if (!ai) throw new Error("Gemini API key is required to fetch trends");
-
-    const prompt = `
-      Act as an advanced trend analysis module.
-      Search the web, news, and social media for emerging business opportunities, breakout consumer trends, or rising market problems in the last 24-72 hours.
-      Synthesize exactly 4 distinct emerging opportunities.
-      For each trend, provide:
-      1. title: A catchy short title for the trend.
-      2. volume: An estimate of search/social volume (e.g., "120K Vol", "Rising Activity").
-      3. growth: An estimate of recent growth (e.g., "+450%").
-      4. description: A 2-3 sentence description of the trend, the problem, and why it's a good business opportunity.
-      5. data: Generate an array of 6 data points simulating an upward or hockey-stick trend line over the past 6 months to visualize the growth pattern. Each point should have a 'date' (like "Jan", "Feb", etc.) and a 'value' (number).
-
-      Output MUST be valid JSON adhering exactly to this structure:
-      {
-        "trends": [
-          {
-             "title": "String",
-             "volume": "String",
-             "growth": "String",
-             "description": "String",
-             "data": [{ "date": "String", "value": Number }]
-          }
-        ]
-      }
-    `;
+    const prompt = renderPrompt(PROMPTS.dailyTrends, {});
 
     try {
-        const response = await ai.models.generateContent({
+        const response = await getAIProvider().generate({
+            operation: 'getDailyTrends',
             model: "gemini-3.1-pro-preview",
-            contents: prompt,
+            contents: prompt.text,
+            promptVersion: prompt.ref,
             config: {
                 tools: [{ googleSearch: {} }],
                 temperature: 0.7,
@@ -89,7 +73,8 @@ export const getDailyTrends = async (forceRefresh = false): Promise<MarketTrend[
                     }
                   }
                 }
-            }
+            },
+            signal,
         });
 
         let text = response.text;
@@ -107,16 +92,13 @@ export const getDailyTrends = async (forceRefresh = false): Promise<MarketTrend[
         }
         
         if (data.trends && data.trends.length > 0) {
-            localStorage.setItem(CACHE_KEY, JSON.stringify({
-                date: new Date().toDateString(),
-                trends: data.trends
-            }));
+            setTrendCache({ date: new Date().toDateString(), trends: data.trends });
             return data.trends;
         } else {
              throw new Error("Invalid response format from AI");
         }
     } catch (e) {
-        console.error("Error fetching daily trends", e);
+        if (!isAbortError(e)) console.error("Error fetching daily trends", e);
         throw e;
     }
 };
@@ -0,0 +1,307 @@
+import { Part } from '@google/genai';
+import { AIOperation, AIProvider, AIProviderId, AIResponse, AIUsage, isAbortError } from './aiProvider';
+
+// Records every provider call (including retries) so quota use is visible.
+// Records live in localStorage and are capped to the most recent entries.
+
+export type UsageOutcome = 'success' | 'error' | 'aborted';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: string;
+  provider: AIProviderId;
+  operation: AIOperation;
+  model: string;
+  ideaId?: string;
+  streamed: boolean;
+  promptChars: number;
+  responseChars: number;
+  promptTokens?: number;
+  responseTokens?: number;
+  totalTokens?: number;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  error?: string;
+}
+
+export interface UsageBudget {
+  dailyTokens: number | null;
+  dailyCostUsd: number | null;
+  perIdeaTokens: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  errors: number;
+  tokens: number;
+  costUsd: number;
+  latencyMs: number;
+}
+
+export interface BudgetWarning {
+  level: 'warning' | 'exceeded';
+  message: string;
+}
+
+const LEDGER_KEY = 'aiUsageLedger';
+const BUDGET_KEY = 'aiUsageBudget';
+const MAX_RECORDS = 2000;
+// Warn once usage reaches this share of a budget
+const WARNING_RATIO = 0.8;
+
+const DEFAULT_BUDGET: UsageBudget = { dailyTokens: null, dailyCostUsd: null, perIdeaTokens: null };
+
+// Estimated USD list prices per million tokens. These are only used for the
+// dashboard estimate; unknown models fall back to DEFAULT_PRICING.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-3.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-3.1-pro-preview': { input: 2, output: 12 },
+};
+const DEFAULT_PRICING = { input: 1, output: 5 };
+
+const loadRecords = (): UsageRecord[] => {
+  try {
+    const saved = localStorage.getItem(LEDGER_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (e) {
+    console.error("Failed to read usage ledger", e);
+  }
+  return [];
+};
+
+let records: UsageRecord[] = loadRecords();
+const listeners = new Set<(records: UsageRecord[]) => void>();
+
+const persist = () => {
+  try {
+    localStorage.setItem(LEDGER_KEY, JSON.stringify(records));
+  } catch (e) {
+    console.error("Failed to persist usage ledger", e);
+  }
+  listeners.forEach(listener => listener(records));
+};
+
+export const getUsageRecords = (): UsageRecord[] => records;
+
+export const subscribeToUsage = (listener: (records: UsageRecord[]) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const clearUsageLedger = () => {
+  records = [];
+  persist();
+};
+
+const addRecord = (record: UsageRecord) => {
+  records = [...records, record].slice(-MAX_RECORDS);
+  persist();
+};
+
+export const getUsageBudget = (): UsageBudget => {
+  try {
+    const saved = localStorage.getItem(BUDGET_KEY);
+    if (saved) return { ...DEFAULT_BUDGET, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Failed to read usage budget", e);
+  }
+  return DEFAULT_BUDGET;
+};
+
+export const setUsageBudget = (budget: UsageBudget) => {
+  localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+  listeners.forEach(listener => listener(records));
+};
+
+// --- Recording ---
+
+const promptSize = (contents: string | Part[]): number =>
+  typeof contents === 'string'
+    ? contents.length
+    : contents.reduce((size, part) => size + (part.text?.length || 0) + (part.inlineData?.data?.length || 0), 0);
+
+interface PendingCall {
+  provider: AIProviderId;
+  operation: AIOperation;
+  model: string;
+  ideaId?: string;
+  streamed: boolean;
+  contents: string | Part[];
+}
+
+// Starts the clock for one call. Only the first settle() is recorded, so a
+// stream that errors and is then closed isn't counted twice.
+const startCall = (call: PendingCall) => {
+  const startedAt = Date.now();
+  let settled = false;
+  return (outcome: UsageOutcome, responseChars = 0, usage?: AIUsage, error?: unknown) => {
+    if (settled) return;
+    settled = true;
+    addRecord({
+      id: Math.random().toString(36).substr(2, 9),
+      timestamp: new Date(startedAt).toISOString(),
+      provider: call.provider,
+      operation: call.operation,
+      model: call.model,
+      ideaId: call.ideaId,
+      streamed: call.streamed,
+      promptChars: promptSize(call.contents),
+      responseChars,
+      promptTokens: usage?.promptTokens,
+      responseTokens: usage?.responseTokens,
+      totalTokens: usage?.totalTokens,
+      latencyMs: Date.now() - startedAt,
+      outcome,
+      error: error instanceof Error ? error.message.slice(0, 200) : undefined,
+    });
+  };
+};
+
+type SettleCall = ReturnType<typeof startCall>;
+
+const settleError = (settle: SettleCall, e: unknown, responseChars = 0, usage?: AIUsage) =>
+  settle(isAbortError(e) ? 'aborted' : 'error', responseChars, usage, isAbortError(e) ? undefined : e);
+
+async function* recordStream(stream: AsyncGenerator<AIResponse>, settle: SettleCall): AsyncGenerator<AIResponse> {
+  let responseChars = 0;
+  let usage: AIUsage | undefined;
+  try {
+    for await (const chunk of stream) {
+      responseChars += chunk.text.length;
+      if (chunk.usage) usage = chunk.usage;
+      yield chunk;
+    }
+    settle('success', responseChars, usage);
+  } catch (e) {
+    settleError(settle, e, responseChars, usage);
+    throw e;
+  } finally {
+    // Reached without settling when the consumer stops reading early
+    settle('aborted', responseChars, usage);
+  }
+}
+
+/** Records every call made through the provider in the usage ledger. */
+export const withUsageLedger = (provider: AIProvider): AIProvider => ({
+  ...provider,
+  generate: async (request) => {
+    const settle = startCall({ ...request, provider: provider.id, streamed: false });
+    try {
+      const response = await provider.generate(request);
+      settle('success', response.text.length, response.usage);
+      return response;
+    } catch (e) {
+      settleError(settle, e);
+      throw e;
+    }
+  },
+  generateStream: async (request) => {
+    const settle = startCall({ ...request, provider: provider.id, streamed: true });
+    try {
+      return recordStream(await provider.generateStream(request), settle);
+    } catch (e) {
+      settleError(settle, e);
+      throw e;
+    }
+  },
+  createChat: (options) => {
+    const chat = provider.createChat(options);
+    const callFor = (message: string | Part[], streamed: boolean) => startCall({
+      provider: provider.id,
+      operation: options.operation,
+      model: options.model,
+      ideaId: options.ideaId,
+      streamed,
+      contents: message,
+    });
+    return {
+      sendMessage: async (params) => {
+        const settle = callFor(params.message, false);
+        try {
+          const response = await chat.sendMessage(params);
+          settle('success', response.text.length, response.usage);
+          return response;
+        } catch (e) {
+          settleError(settle, e);
+          throw e;
+        }
+      },
+      sendMessageStream: async (params) => {
+        const settle = callFor(params.message, true);
+        try {
+          return recordStream(await chat.sendMessageStream(params), settle);
+        } catch (e) {
+          settleError(settle, e);
+          throw e;
+        }
+      },
+      getHistory: () => chat.getHistory(),
+    };
+  },
+});
+
+// --- Reporting ---
+
+const estimateTokens = (chars: number) => Math.ceil(chars / 4);
+
+export const recordTokens = (record: UsageRecord): number =>
+  record.totalTokens ?? (record.promptTokens || 0) + (record.responseTokens || 0);
+
+/** Estimated USD cost. Falls back to a character estimate when the provider sent no token counts. */
+export const estimateCost = (record: UsageRecord): number => {
+  // Offline providers never reach the API
+  if (record.provider !== 'gemini') return 0;
+  const pricing = MODEL_PRICING[record.model] || DEFAULT_PRICING;
+  const input = record.promptTokens ?? estimateTokens(record.promptChars);
+  const output = record.responseTokens ?? estimateTokens(record.responseChars);
+  return (input * pricing.input + output * pricing.output) / 1_000_000;
+};
+
+export const summarizeUsage = (list: UsageRecord[]): UsageTotals =>
+  list.reduce<UsageTotals>((totals, record) => ({
+    calls: totals.calls + 1,
+    errors: totals.errors + (record.outcome === 'error' ? 1 : 0),
+    tokens: totals.tokens + recordTokens(record),
+    costUsd: totals.costUsd + estimateCost(record),
+    latencyMs: totals.latencyMs + record.latencyMs,
+  }), { calls: 0, errors: 0, tokens: 0, costUsd: 0, latencyMs: 0 });
+
+/** Local calendar day (YYYY-MM-DD) a record belongs to. */
+export const usageDay = (timestamp: string | number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const groupUsage = (list: UsageRecord[], keyOf: (record: UsageRecord) => string): Record<string, UsageTotals> => {
+  const groups: Record<string, UsageRecord[]> = {};
+  list.forEach(record => {
+    const key = keyOf(record);
+    (groups[key] = groups[key] || []).push(record);
+  });
+  return Object.fromEntries(Object.entries(groups).map(([key, group]) => [key, summarizeUsage(group)]));
+};
+
+export const getBudgetWarnings = (
+  list: UsageRecord[],
+  budget: UsageBudget,
+  ideaTitle: (ideaId: string) => string = id => id
+): BudgetWarning[] => {
+  const warnings: BudgetWarning[] = [];
+  const check = (used: number, limit: number | null, describe: (used: string, limit: string) => string, format: (n: number) => string) => {
+    if (!limit || limit <= 0 || used < limit * WARNING_RATIO) return;
+    warnings.push({ level: used >= limit ? 'exceeded' : 'warning', message: describe(format(used), format(limit)) });
+  };
+  const tokens = (n: number) => n.toLocaleString();
+  const usd = (n: number) => `$${n.toFixed(2)}`;
+
+  const today = summarizeUsage(list.filter(record => usageDay(record.timestamp) === usageDay(Date.now())));
+  check(today.tokens, budget.dailyTokens, (used, limit) => `Today's usage is ${used} of the ${limit} token daily budget.`, tokens);
+  check(today.costUsd, budget.dailyCostUsd, (used, limit) => `Today's estimated spend is ${used} of the ${limit} daily budget.`, usd);
+
+  const perIdea = groupUsage(list.filter(record => record.ideaId), record => record.ideaId as string);
+  Object.entries(perIdea).forEach(([ideaId, totals]) => {
+    check(totals.tokens, budget.perIdeaTokens, (used, limit) => `"${ideaTitle(ideaId)}" has used ${used} of its ${limit} token budget.`, tokens);
+  });
+
+  return warnings;
+};
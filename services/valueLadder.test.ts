@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BusinessIdea, FinancialAssumptions, StepPricing, ValueLadderStep } from '../types';
+import { MOCK_IDEA_RESPONSE } from './mockFixtures';
+import { duplicateLadderStep, getStepPricing, moveLadderStep, removeLadderStep, updateLadderStep, validateLadder, withPricing } from './valueLadder';
+
+const step = (title: string, pricing: StepPricing): ValueLadderStep =>
+  withPricing({ type: 'Core Offer', title, description: '', price: '', valueProvided: 'More help', goal: '' }, pricing);
+
+const paid = (amount: number, period: StepPricing['period'] = 'month', currency = '$'): StepPricing => ({ kind: 'paid', amount, currency, period });
+const free: StepPricing = { kind: 'free', amount: 0, currency: '$', period: 'one-time' };
+const custom: StepPricing = { kind: 'custom', amount: 0, currency: '$', period: 'one-time' };
+
+test('structured pricing is written back as price text', () => {
+  assert.deepEqual([step('A', paid(1299)), step('B', paid(990, 'year')), step('C', free), step('D', custom)].map(s => s.price),
+    ['$1,299/mo', '$990/yr', 'Free', 'Custom']);
+});
+
+test('steps without structured pricing are read from their price text', () => {
+  const legacy = { ...step('A', free), pricing: undefined, price: '€49/month' };
+  assert.deepEqual(getStepPricing(legacy), { kind: 'paid', amount: 49, currency: '€', period: 'month' });
+  assert.equal(getStepPricing({ ...legacy, price: 'Contact sales' }).kind, 'custom');
+});
+
+test('an ascending ladder has no issues', () => {
+  assert.deepEqual(validateLadder([step('Guide', free), step('Course', paid(99, 'one-time')), step('Plan', paid(29)), step('Enterprise', custom)]), []);
+});
+
+test('steps that are cheaper, free or custom in the wrong place are reported', () => {
+  const issues = validateLadder([step('Plan', paid(29)), step('Guide', free), step('Enterprise', custom), step('Add-on', paid(10))]);
+  assert.deepEqual(issues.map(issue => issue.index), [1, 3]);
+  assert.match(issues[0].message, /bottom/);
+  assert.match(issues[1].message, /custom pricing belongs at the top/);
+});
+
+test('yearly plans are compared with monthly ones over a year', () => {
+  const issues = validateLadder([step('Monthly', paid(29)), step('Yearly', paid(348, 'year')), step('Pro', paid(20))]);
+  assert.deepEqual(issues.map(issue => issue.message), ['Costs the same as the step below it ($29/mo).', 'Costs less than the step below it ($348/yr).']);
+});
+
+test('mixed currencies and missing titles are reported', () => {
+  const issues = validateLadder([step('', paid(10)), { ...step('Pro', paid(20, 'month', '€')), valueProvided: ' ' }]);
+  assert.deepEqual(issues.map(issue => issue.index), [0, 1, 1]);
+});
+
+// --- Editing with a saved financial model ---
+
+const funnel = (conversions: number[]): FinancialAssumptions => ({
+  currency: '$', monthlyVisitors: 1000, visitorGrowth: 0, monthlyChurn: 5, fixedCosts: 0, variableCosts: 0, marketingSpend: 0,
+  steps: conversions.map(conversion => ({ price: 0, period: 'month', conversion })),
+});
+
+const idea = (): BusinessIdea => ({
+  ...MOCK_IDEA_RESPONSE, id: 'idea-1', date: 'Today', priceRange: '$',
+  sections: { ...MOCK_IDEA_RESPONSE.sections, offer: [step('A', free), step('B', paid(10)), step('C', paid(50))] },
+  financialModel: funnel([3, 20, 5]),
+});
+
+test('moving a step moves its funnel assumptions with it', () => {
+  const moved = moveLadderStep(idea(), 2, 0);
+  assert.deepEqual(moved.sections.offer.map(s => s.title), ['C', 'A', 'B']);
+  assert.deepEqual(moved.financialModel?.steps.map(s => s.conversion), [5, 3, 20]);
+});
+
+test('removing and duplicating keep one funnel step per ladder step', () => {
+  const removed = removeLadderStep(idea(), 1);
+  assert.deepEqual(removed.financialModel?.steps.map(s => s.conversion), [3, 5]);
+
+  const duplicated = duplicateLadderStep(idea(), 1);
+  assert.deepEqual(duplicated.sections.offer.map(s => s.title), ['A', 'B', 'B', 'C']);
+  assert.deepEqual(duplicated.financialModel?.steps.map(s => s.conversion), [3, 20, 20, 5]);
+});
+
+test('repricing a step updates its funnel price and keeps the conversion rate', () => {
+  const updated = updateLadderStep(idea(), 1, step('B', paid(15)));
+  assert.deepEqual(updated.financialModel?.steps[1], { price: 15, period: 'month', conversion: 20 });
+});
@@ -0,0 +1,150 @@
+import { BusinessIdea, StepPricing, ValueLadderStep } from '../types';
+import { defaultStepAssumption, parsePrice } from './financialModel';
+
+// Editing helpers for sections.offer. Each one also updates a saved financial
+// model, so it keeps one funnel step per ladder step, in the same order.
+
+export const CURRENCIES = ['$', '€', '£', '¥', '₹'];
+
+export interface LadderIssue {
+  index: number;
+  message: string;
+}
+
+/** The step's structured price, read from its price text when it has never been edited. */
+export const getStepPricing = (step: ValueLadderStep): StepPricing => {
+  if (step.pricing) return step.pricing;
+  const parsed = parsePrice(step.price);
+  return {
+    kind: parsed.free ? 'free' : parsed.amount === null ? 'custom' : 'paid',
+    amount: parsed.amount ?? 0,
+    currency: parsed.currency,
+    period: parsed.period,
+  };
+};
+
+export const formatPricing = (pricing: StepPricing): string => {
+  if (pricing.kind === 'free') return 'Free';
+  if (pricing.kind === 'custom') return 'Custom';
+  const amount = pricing.amount.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  const suffix = pricing.period === 'month' ? '/mo' : pricing.period === 'year' ? '/yr' : '';
+  return `${pricing.currency}${amount}${suffix}`;
+};
+
+/** Sets the structured price and rewrites the display text to match. */
+export const withPricing = (step: ValueLadderStep, pricing: StepPricing): ValueLadderStep => ({
+  ...step,
+  pricing,
+  price: formatPricing(pricing),
+});
+
+export const createLadderStep = (currency = '$'): ValueLadderStep =>
+  withPricing(
+    { type: 'New Offer', title: 'Untitled offer', description: '', price: '', valueProvided: '', goal: '' },
+    { kind: 'paid', amount: 0, currency, period: 'month' }
+  );
+
+/**
+ * Rebuilds the ladder from `order`: each entry is the index of an existing step
+ * to place there, or a new step. Saved financial model steps follow their
+ * ladder step; copies and new steps start from their own price.
+ */
+const rearrangeLadder = (idea: BusinessIdea, order: (number | ValueLadderStep)[]): BusinessIdea => {
+  const offer = order.map(entry => typeof entry === 'number' ? idea.sections.offer[entry] : entry);
+  const model = idea.financialModel;
+  return {
+    ...idea,
+    sections: { ...idea.sections, offer },
+    ...(model && {
+      financialModel: {
+        ...model,
+        steps: order.map((entry, idx) =>
+          typeof entry === 'number' && model.steps[entry] ? model.steps[entry] : defaultStepAssumption(offer[idx], idx)),
+      },
+    }),
+  };
+};
+
+const indexes = (idea: BusinessIdea) => idea.sections.offer.map((_, idx) => idx);
+
+// A new price also replaces the price in a saved financial model; its conversion rate is kept
+export const updateLadderStep = (idea: BusinessIdea, index: number, step: ValueLadderStep): BusinessIdea => {
+  const model = idea.financialModel;
+  const repriced = step.price !== idea.sections.offer[index]?.price && model?.steps[index];
+  return {
+    ...idea,
+    sections: { ...idea.sections, offer: idea.sections.offer.map((s, idx) => idx === index ? step : s) },
+    ...(repriced && {
+      financialModel: {
+        ...model,
+        steps: model.steps.map((s, idx) => idx === index ? { ...defaultStepAssumption(step, idx), conversion: s.conversion } : s),
+      },
+    }),
+  };
+};
+
+export const moveLadderStep = (idea: BusinessIdea, from: number, to: number): BusinessIdea => {
+  const order: number[] = indexes(idea);
+  const [moved] = order.splice(from, 1);
+  order.splice(to, 0, moved);
+  return rearrangeLadder(idea, order);
+};
+
+export const duplicateLadderStep = (idea: BusinessIdea, index: number): BusinessIdea => {
+  const order: number[] = indexes(idea);
+  order.splice(index + 1, 0, index);
+  return rearrangeLadder(idea, order);
+};
+
+export const removeLadderStep = (idea: BusinessIdea, index: number): BusinessIdea =>
+  rearrangeLadder(idea, indexes(idea).filter(idx => idx !== index));
+
+/** Inserts steps before index `at` (at the top of the ladder when `at` is past the end). */
+export const insertLadderSteps = (idea: BusinessIdea, steps: ValueLadderStep[], at: number): BusinessIdea => {
+  const order: (number | ValueLadderStep)[] = indexes(idea);
+  order.splice(at, 0, ...steps);
+  return rearrangeLadder(idea, order);
+};
+
+export const addLadderStep = (idea: BusinessIdea): BusinessIdea => {
+  const currency = idea.sections.offer.map(getStepPricing).find(p => p.kind === 'paid')?.currency;
+  return rearrangeLadder(idea, [...indexes(idea), createLadderStep(currency)]);
+};
+
+// Recurring prices are compared over a year so "$29/mo" sits above "$99 once"
+const annualValue = (pricing: StepPricing) =>
+  pricing.kind !== 'paid' ? 0 : pricing.period === 'month' ? pricing.amount * 12 : pricing.amount;
+
+/**
+ * Checks that the ladder ascends: each step should cost more than the one
+ * below it (free steps at the bottom, custom pricing at the top), share one
+ * currency and say what value it adds.
+ */
+export const validateLadder = (steps: ValueLadderStep[]): LadderIssue[] => {
+  const issues: LadderIssue[] = [];
+  const prices = steps.map(getStepPricing);
+  const currency = prices.find(p => p.kind === 'paid')?.currency;
+
+  steps.forEach((step, idx) => {
+    const pricing = prices[idx];
+    if (!step.title.trim()) issues.push({ index: idx, message: 'Give this step a title.' });
+    if (!step.valueProvided.trim()) issues.push({ index: idx, message: 'Describe the value this step adds over the one before.' });
+    if (pricing.kind === 'paid' && pricing.currency !== currency) {
+      issues.push({ index: idx, message: `Priced in ${pricing.currency} while the rest of the ladder uses ${currency}.` });
+    }
+    if (idx === 0) return;
+
+    const previous = prices[idx - 1];
+    if (previous.kind === 'custom' && pricing.kind !== 'custom') {
+      issues.push({ index: idx, message: 'Sits above a custom-priced step; custom pricing belongs at the top of the ladder.' });
+    } else if (pricing.kind === 'free' && previous.kind !== 'free') {
+      issues.push({ index: idx, message: 'Free steps belong at the bottom of the ladder.' });
+    } else if (pricing.kind === 'paid' && previous.kind === 'paid') {
+      const value = annualValue(pricing);
+      const below = annualValue(previous);
+      if (value < below) issues.push({ index: idx, message: `Costs less than the step below it (${formatPricing(previous)}).` });
+      else if (value === below) issues.push({ index: idx, message: `Costs the same as the step below it (${formatPricing(previous)}).` });
+    }
+  });
+  return issues;
+};
@@ -0,0 +1,103 @@
+import 'fake-indexeddb/auto';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BusinessIdea, ChatThread } from '../types';
+import { MOCK_IDEA_RESPONSE } from './mockFixtures';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, MergeStrategy, WorkspaceArchive, importWorkspace, parseWorkspaceArchive } from './workspaceArchive';
+import { IDEA_SCHEMA_VERSION } from './ideaMigrations';
+import { getAllChatThreads, saveChatThread } from './storageRepository';
+
+const idea = { ...MOCK_IDEA_RESPONSE, id: 'idea-1', date: 'Today', priceRange: '$' };
+
+const archiveJson = (savedIdeas: unknown[]) => JSON.stringify({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  ideaSchemaVersion: IDEA_SCHEMA_VERSION,
+  savedIdeas,
+});
+
+test('complete ideas are imported', () => {
+  const { archive, skipped } = parseWorkspaceArchive(archiveJson([idea]));
+  assert.deepEqual(archive.savedIdeas.map(saved => saved.id), ['idea-1']);
+  assert.deepEqual(skipped, []);
+});
+
+test('ideas with missing sections are skipped and reported', () => {
+  const { sections, ...withoutSections } = idea;
+  const { archive, skipped } = parseWorkspaceArchive(archiveJson([idea, { ...withoutSections, id: 'idea-2', title: 'Broken' }]));
+  assert.deepEqual(archive.savedIdeas.map(saved => saved.id), ['idea-1']);
+  assert.equal(skipped.length, 1);
+  assert.equal(skipped[0].title, 'Broken');
+  assert.match(skipped[0].reason || '', /sections/);
+});
+
+// --- Importing ---
+
+const EARLIER = '2026-01-01T00:00:00.000Z';
+const LATER = '2026-02-01T00:00:00.000Z';
+
+const edited = (id: string, title: string, updatedAt: string): BusinessIdea => ({ ...idea, id, title, updatedAt });
+
+const chat = (id: string, ideaId: string): ChatThread => ({ id, ideaId, title: 'Pricing', messages: [], createdAt: EARLIER, updatedAt: EARLIER });
+
+const archiveOf = (ideas: BusinessIdea[], chats: ChatThread[] = []): WorkspaceArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: LATER,
+  ideaSchemaVersion: IDEA_SCHEMA_VERSION,
+  savedIdeas: ideas,
+  history: ideas,
+  chats,
+  boards: [],
+  trendCache: null,
+});
+
+const importInto = (local: BusinessIdea[], archive: WorkspaceArchive, strategy: MergeStrategy) =>
+  importWorkspace(archive, { savedIdeas: local, history: local }, strategy);
+
+test('keep-both adds a conflicting idea as a copy with one new id for both lists and its chats', async () => {
+  const local = edited('both-1', 'Local', LATER);
+  const result = await importInto([local], archiveOf([edited('both-1', 'Incoming', EARLIER)], [chat('both-chat', 'both-1')]), 'keep-both');
+
+  const [kept, copy] = result.savedIdeas;
+  assert.equal(kept, local);
+  assert.notEqual(copy.id, 'both-1');
+  assert.equal(copy.title, 'Incoming (imported)');
+  assert.deepEqual(result.history.map(item => item.id), ['both-1', copy.id]);
+
+  const threads = await getAllChatThreads();
+  assert.equal(threads.find(thread => thread.id === 'both-chat')?.ideaId, copy.id);
+});
+
+test('keep-both keeps the local chat and stores a copy of a conflicting one', async () => {
+  await saveChatThread(chat('both-chat-2', 'both-2'));
+  const incoming = { ...chat('both-chat-2', 'both-2'), messages: [{ role: 'user' as const, text: 'Hi' }] };
+  const result = await importInto([], archiveOf([], [incoming]), 'keep-both');
+
+  assert.deepEqual(result.changes.map(change => change.action), ['duplicated']);
+  const threads = (await getAllChatThreads()).filter(thread => thread.ideaId === 'both-2');
+  assert.deepEqual(threads.map(thread => thread.title).sort(), ['Pricing', 'Pricing (imported)']);
+});
+
+test('keep-newest keeps whichever copy was edited last', async () => {
+  const local = [edited('newest-1', 'Local newer', LATER), edited('newest-2', 'Local older', EARLIER)];
+  const result = await importInto(local, archiveOf([edited('newest-1', 'Incoming older', EARLIER), edited('newest-2', 'Incoming newer', LATER)]), 'keep-newest');
+
+  assert.deepEqual(result.savedIdeas.map(item => item.title), ['Local newer', 'Incoming newer']);
+  assert.deepEqual(result.changes.filter(change => change.kind === 'idea').map(change => change.action), ['kept', 'updated']);
+});
+
+test('overwrite replaces local copies even when they are newer', async () => {
+  const result = await importInto([edited('over-1', 'Local newer', LATER)], archiveOf([edited('over-1', 'Incoming older', EARLIER)]), 'overwrite');
+
+  assert.deepEqual(result.savedIdeas.map(item => item.title), ['Incoming older']);
+  assert.deepEqual(result.history.map(item => item.title), ['Incoming older']);
+});
+
+test('identical ideas are left alone whatever the strategy', async () => {
+  const same = edited('same-1', 'Same', EARLIER);
+  const result = await importInto([same], archiveOf([same]), 'keep-both');
+
+  assert.deepEqual(result.savedIdeas, [same]);
+  assert.deepEqual(result.changes.map(change => change.action), ['unchanged', 'unchanged']);
+});
@@ -0,0 +1,263 @@
+import { BusinessIdea, ChatThread, WhiteboardBoard } from '../types';
+import { IDEA_SCHEMA_VERSION, migrateIdea } from './ideaMigrations';
+import { validateBusinessIdea } from './ideaValidation';
+import { getAllBoards, getAllChatThreads, saveBoard, saveChatThread } from './storageRepository';
+import { TrendCacheEntry, getTrendCache, setTrendCache } from './trendService';
+
+// Single-file export of the whole workspace (saved ideas, history, their saved
+// reports, idea chats, whiteboards with their media, and the trend cache) and
+// the matching import, which merges by id and reports what it changed.
+
+export const ARCHIVE_FORMAT = 'ideabrowser-workspace';
+export const ARCHIVE_VERSION = 1;
+
+export interface WorkspaceArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  ideaSchemaVersion: number;
+  savedIdeas: BusinessIdea[];
+  history: BusinessIdea[];
+  chats: ChatThread[];
+  boards: WhiteboardBoard[];
+  trendCache: TrendCacheEntry | null;
+}
+
+export type MergeStrategy = 'keep-both' | 'keep-newest' | 'overwrite';
+
+export type ArchiveItemKind = 'idea' | 'history' | 'chat' | 'board' | 'trends';
+
+export interface ArchiveChange {
+  kind: ArchiveItemKind;
+  action: 'added' | 'updated' | 'duplicated' | 'kept' | 'unchanged' | 'skipped';
+  title: string;
+  reason?: string;
+}
+
+export interface ImportResult {
+  savedIdeas: BusinessIdea[];
+  history: BusinessIdea[];
+  changes: ArchiveChange[];
+}
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export const exportWorkspace = async (savedIdeas: BusinessIdea[], history: BusinessIdea[]): Promise<WorkspaceArchive> => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: new Date().toISOString(),
+  ideaSchemaVersion: IDEA_SCHEMA_VERSION,
+  savedIdeas,
+  history,
+  chats: await getAllChatThreads(),
+  boards: await getAllBoards(),
+  trendCache: getTrendCache(),
+});
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const listOf = (archive: Record<string, any>, key: string): unknown[] => {
+  const value = archive[key];
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new ArchiveError(`"${key}" in the archive should be a list`);
+  return value;
+};
+
+const isIdea = (value: unknown): value is BusinessIdea =>
+  isObject(value) && typeof value.id === 'string' && typeof value.title === 'string' && typeof value.description === 'string';
+
+const isChat = (value: unknown): value is ChatThread =>
+  isObject(value) && typeof value.id === 'string' && typeof value.ideaId === 'string' && Array.isArray(value.messages);
+
+const isBoard = (value: unknown): value is WhiteboardBoard =>
+  isObject(value) && typeof value.id === 'string' && Array.isArray(value.nodes) && Array.isArray(value.connections);
+
+const describe = (value: unknown, fallback: string) =>
+  isObject(value) && typeof value.title === 'string' ? value.title : isObject(value) && typeof value.id === 'string' ? value.id : fallback;
+
+/** Parses an archive file. Malformed entries are skipped and listed rather than failing the whole import. */
+export const parseWorkspaceArchive = (json: string): { archive: WorkspaceArchive; skipped: ArchiveChange[] } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new ArchiveError("This file is not valid JSON");
+  }
+  if (!isObject(raw) || raw.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError("This file is not a workspace archive");
+  }
+  if (typeof raw.version !== 'number' || raw.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(`This archive was made by a newer version of the app (archive version ${raw.version})`);
+  }
+
+  const skipped: ArchiveChange[] = [];
+  const keep = <T>(kind: ArchiveItemKind, key: string, check: (value: unknown) => value is T): T[] =>
+    listOf(raw as Record<string, any>, key).filter((value): value is T => {
+      if (check(value)) return true;
+      skipped.push({ kind, action: 'skipped', title: describe(value, `Unnamed ${kind}`), reason: 'Missing required fields' });
+      return false;
+    });
+
+  // Ideas are checked in full once migrated, since the views assume every field is there
+  const ideaSchemaVersion = typeof raw.ideaSchemaVersion === 'number' ? raw.ideaSchemaVersion : 1;
+  const ideas = (kind: ArchiveItemKind, key: string) => keep(kind, key, isIdea)
+    .map(idea => migrateIdea(idea, ideaSchemaVersion))
+    .filter(idea => {
+      const fields = Array.from(new Set(validateBusinessIdea(idea).map(issue => issue.path)));
+      if (fields.length === 0) return true;
+      skipped.push({ kind, action: 'skipped', title: idea.title, reason: `Missing or malformed fields: ${fields.join(', ')}` });
+      return false;
+    });
+  const trendCache = isObject(raw.trendCache) && typeof raw.trendCache.date === 'string' && Array.isArray(raw.trendCache.trends)
+    ? raw.trendCache as TrendCacheEntry
+    : null;
+
+  return {
+    archive: {
+      format: ARCHIVE_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      ideaSchemaVersion: IDEA_SCHEMA_VERSION,
+      savedIdeas: ideas('idea', 'savedIdeas'),
+      history: ideas('history', 'history'),
+      chats: keep('chat', 'chats', isChat),
+      boards: keep('board', 'boards', isBoard),
+      trendCache,
+    },
+    skipped,
+  };
+};
+
+// --- Merging ---
+
+const timeOf = (value?: string) => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? 0 : time;
+};
+
+// Ideas only carry updatedAt once edited; fall back to the newest field edit, then the creation date
+const ideaUpdatedAt = (idea: BusinessIdea) => Math.max(
+  timeOf(idea.updatedAt),
+  ...Object.values(idea.provenance || {}).map(entry => timeOf(entry.updatedAt)),
+  timeOf(idea.date)
+);
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+interface MergeOptions<T> {
+  kind: ArchiveItemKind;
+  strategy: MergeStrategy;
+  title: (item: T) => string;
+  updatedAt: (item: T) => number;
+  duplicate?: (item: T, id: string) => T; // Without it, keep-both keeps the local copy
+  idMap: Map<string, string>; // Incoming id -> id given to its duplicate, shared across collections
+}
+
+const mergeById = <T extends { id: string }>(local: T[], incoming: T[], options: MergeOptions<T>) => {
+  const merged = [...local];
+  const written: T[] = [];
+  const changes: ArchiveChange[] = [];
+  const accept = (item: T, action: ArchiveChange['action'], title: string) => {
+    written.push(item);
+    changes.push({ kind: options.kind, action, title });
+  };
+  incoming.forEach(item => {
+    const title = options.title(item);
+    const index = merged.findIndex(existing => existing.id === item.id);
+    if (index === -1) {
+      merged.push(item);
+      accept(item, 'added', title);
+      return;
+    }
+    const existing = merged[index];
+    if (JSON.stringify(existing) === JSON.stringify(item)) {
+      changes.push({ kind: options.kind, action: 'unchanged', title });
+    } else if (options.strategy === 'overwrite' || (options.strategy === 'keep-newest' && options.updatedAt(item) > options.updatedAt(existing))) {
+      merged[index] = item;
+      accept(item, 'updated', title);
+    } else if (options.strategy === 'keep-both' && options.duplicate) {
+      const id = options.idMap.get(item.id) || newId();
+      options.idMap.set(item.id, id);
+      const copy = options.duplicate(item, id);
+      merged.push(copy);
+      accept(copy, 'duplicated', title);
+    } else {
+      changes.push({ kind: options.kind, action: 'kept', title, reason: options.strategy === 'keep-newest' ? 'The local copy is newer' : 'Only one copy can be kept' });
+    }
+  });
+  return { merged, written, changes };
+};
+
+const ideaOptions = (kind: ArchiveItemKind, strategy: MergeStrategy, idMap: Map<string, string>): MergeOptions<BusinessIdea> => ({
+  kind,
+  strategy,
+  idMap,
+  title: idea => idea.title,
+  updatedAt: ideaUpdatedAt,
+  duplicate: (idea, id) => ({ ...idea, id, title: `${idea.title} (imported)` }),
+});
+
+/**
+ * Merges an archive into the current workspace. Chats, boards and the trend
+ * cache are written straight to storage; the merged idea lists are returned for
+ * the caller to put into state, which persists them.
+ */
+export const importWorkspace = async (
+  archive: WorkspaceArchive,
+  current: { savedIdeas: BusinessIdea[]; history: BusinessIdea[] },
+  strategy: MergeStrategy
+): Promise<ImportResult> => {
+  // Duplicated ideas keep the same new id in both lists and in their chats
+  const idMap = new Map<string, string>();
+  const saved = mergeById(current.savedIdeas, archive.savedIdeas, ideaOptions('idea', strategy, idMap));
+  const history = mergeById(current.history, archive.history, ideaOptions('history', strategy, idMap));
+
+  const chatResult = mergeById(await getAllChatThreads(), archive.chats.map(thread => ({
+    ...thread,
+    ideaId: idMap.get(thread.ideaId) || thread.ideaId,
+  })), {
+    kind: 'chat',
+    strategy,
+    idMap: new Map(),
+    title: thread => thread.title,
+    updatedAt: thread => timeOf(thread.updatedAt),
+    duplicate: (thread, id) => ({ ...thread, id, title: `${thread.title} (imported)` }),
+  });
+  const boardResult = mergeById(await getAllBoards(), archive.boards, {
+    kind: 'board',
+    strategy,
+    idMap: new Map(),
+    title: board => board.id === 'default' ? 'Whiteboard' : `Whiteboard ${board.id}`,
+    updatedAt: board => timeOf(board.updatedAt),
+  });
+
+  for (const thread of chatResult.written) await saveChatThread(thread);
+  for (const board of boardResult.written) await saveBoard(board);
+
+  const changes = [...saved.changes, ...history.changes, ...chatResult.changes, ...boardResult.changes];
+
+  if (archive.trendCache) {
+    const local = getTrendCache();
+    const newer = !local || timeOf(archive.trendCache.date) > timeOf(local.date);
+    if (!local || strategy === 'overwrite' || (strategy === 'keep-newest' && newer)) {
+      setTrendCache(archive.trendCache);
+      changes.push({ kind: 'trends', action: local ? 'updated' : 'added', title: `Trends from ${archive.trendCache.date}` });
+    } else {
+      changes.push({ kind: 'trends', action: 'kept', title: `Trends from ${local.date}`, reason: 'Only one trend cache is kept' });
+    }
+  }
+
+  return { savedIdeas: saved.merged, history: history.merged, changes };
+};
+
+export const summarizeChanges = (changes: ArchiveChange[]): Record<ArchiveChange['action'], number> =>
+  changes.reduce((counts, change) => ({ ...counts, [change.action]: counts[change.action] + 1 }),
+    { added: 0, updated: 0, duplicated: 0, kept: 0, unchanged: 0, skipped: 0 });
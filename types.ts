@@ -13,6 +13,43 @@ export interface ValueLadderStep {
   price: string;
   valueProvided: string;
   goal: string;
+  pricing?: StepPricing; // Structured price from the ladder editor; `price` stays the display text
+}
+
+export type PricingKind = 'paid' | 'free' | 'custom';
+
+export interface StepPricing {
+  kind: PricingKind; // 'custom' covers "Contact us" style prices with no figure
+  amount: number; // Per billing period; 0 unless kind is 'paid'
+  currency: string; // Symbol, e.g. '$'
+  period: BillingPeriod;
+}
+
+export type BillingPeriod = 'one-time' | 'month' | 'year';
+
+export interface FinancialStepAssumption {
+  price: number; // Per billing period
+  period: BillingPeriod;
+  conversion: number; // % of the previous step's customers (of visitors, for the first step) who take this step
+}
+
+// Inputs of the financial model view, kept on the idea so they survive reloads
+export interface FinancialAssumptions {
+  currency: string; // Symbol, e.g. '$'
+  monthlyVisitors: number;
+  visitorGrowth: number; // % per month
+  steps: FinancialStepAssumption[]; // Same order as sections.offer
+  monthlyChurn: number; // % of subscribers lost each month
+  fixedCosts: number; // Per month
+  variableCosts: number; // % of revenue
+  marketingSpend: number; // Per month
+}
+
+export type ProvenanceSource = 'grounded' | 'estimate' | 'default' | 'user';
+
+export interface FieldProvenance {
+  source: ProvenanceSource;
+  updatedAt: string;
 }
 
 export interface BusinessIdea {
@@ -56,7 +93,12 @@ export interface BusinessIdea {
     other: string;
   };
   sources?: { title: string; uri: string }[]; // For AI grounding sources
-  savedReports?: { title: string; content: string; date: string }[];
+  savedReports?: { title: string; content: string; date: string; promptVersion?: string }[];
+  provenance?: Record<string, FieldProvenance>; // Keyed by field path, e.g. 'kpi.opportunity' or 'sections.whyNow'
+  promptVersion?: string; // Prompt registry reference that generated the idea, e.g. 'generateIdea@1'
+  updatedAt?: string; // ISO time of the last user edit
+  parentId?: string; // Id of the idea this one was forked from
+  financialModel?: FinancialAssumptions;
 }
 
 export interface MarketTrend {
@@ -73,9 +115,12 @@ export interface DraftIdea {
   status: 'Not started' | 'Research queued' | 'Researched';
   createdAt: string;
   icon?: React.ReactNode;
+  description?: string; // Extra context sent to analyzeUserIdea with the title
+  error?: string; // Why the last research attempt failed
+  ideaId?: string; // The researched idea, once there is one
 }
 
-export type ViewState = 'home' | 'my-ideas' | 'generator' | 'history';
+export type ViewState = 'home' | 'my-ideas' | 'generator' | 'history' | 'usage' | 'shared';
 
 export interface WhiteboardNode {
   id: string;
@@ -96,3 +141,25 @@ export interface Connection {
   from: string;
   to: string;
 }
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatThread {
+  id: string;
+  ideaId: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WhiteboardBoard {
+  id: string;
+  nodes: WhiteboardNode[];
+  connections: Connection[];
+  chats: Record<string, ChatMessage[]>; // AI partner conversations, keyed by node id
+  updatedAt: string;
+}